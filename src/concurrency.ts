@@ -0,0 +1,40 @@
+// --- Concurrency ---
+// Runs async work over a list with a bounded number of calls in flight, so batches finish quickly without
+// flooding Tandoor with parallel requests.
+
+export const DEFAULT_CONCURRENCY = 4;
+
+export type SettledResult<R> =
+  | { status: 'fulfilled'; value: R }
+  | { status: 'rejected'; reason: any }
+  | { status: 'skipped' }; // Not started because an earlier call failed and stop_on_error was set
+
+export interface MapOptions {
+  concurrency?: number; // Default: DEFAULT_CONCURRENCY
+  stop_on_error?: boolean; // Start no new calls after the first failure; calls in flight still finish
+}
+
+/**
+ * Calls `fn` for every item with at most `concurrency` calls running at once. Results keep the input order, and a
+ * failure is returned as a rejected result instead of stopping the other calls.
+ */
+export async function mapSettled<T, R>(items: T[], fn: (item: T, index: number) => Promise<R>, options: MapOptions = {}): Promise<SettledResult<R>[]> {
+  const results: SettledResult<R>[] = items.map(() => ({ status: 'skipped' }));
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < items.length && !(failed && options.stop_on_error)) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index], index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+        failed = true;
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
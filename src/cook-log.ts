@@ -0,0 +1,119 @@
+// --- Cook Log Statistics ---
+// Summarizes Tandoor cook log entries (GET /api/cook-log/): how often each recipe was cooked, when it was last cooked
+// and how it was rated, so meal planning can avoid repeats and favor well-liked dishes.
+
+// A cook log entry as returned by Tandoor's /api/cook-log/ endpoint
+export interface CookLogEntry {
+  id: number;
+  recipe: number;
+  servings?: number | null;
+  rating?: number | null;
+  comment?: string | null;
+  created_at: string;
+}
+
+export interface RecipeCookStats {
+  recipe_id: number;
+  times_cooked: number;
+  last_cooked: string; // YYYY-MM-DD
+  first_cooked: string; // YYYY-MM-DD
+  days_since_cooked: number;
+  average_rating: number | null; // Over the entries that have a rating
+  rating_count: number;
+}
+
+export interface CookLogStats {
+  total_entries: number;
+  distinct_recipes: number;
+  average_rating: number | null;
+  most_cooked: RecipeCookStats[];
+  top_rated: RecipeCookStats[];
+  not_cooked_recently: RecipeCookStats[]; // Cooked before, but not within `not_cooked_days`
+}
+
+export interface CookLogStatsOptions {
+  today: string; // YYYY-MM-DD
+  not_cooked_days?: number; // Default: 30
+  limit?: number; // Entries per list (default: 10)
+  history?: CookLogEntry[]; // The whole log when `entries` is a date window; first/last cooked dates come from it
+}
+
+/**
+ * Returns the YYYY-MM-DD date of a cook log entry.
+ */
+export function cookLogDate(entry: Pick<CookLogEntry, 'created_at'>): string {
+  return String(entry.created_at).split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return Number((values.reduce((sum, value) => sum + value, 0) / values.length).toFixed(2));
+}
+
+/**
+ * Groups cook log entries per recipe. Ratings of 0 are treated as "not rated", like Tandoor does. Counts and ratings
+ * come from `entries`; the first and last cooked dates also consider `history`, so a date window does not hide that a
+ * recipe was cooked after it.
+ */
+export function statsPerRecipe(entries: CookLogEntry[], today: string, history: CookLogEntry[] = []): RecipeCookStats[] {
+  const groups = new Map<number, CookLogEntry[]>();
+  for (const entry of entries) {
+    if (!groups.has(entry.recipe)) groups.set(entry.recipe, []);
+    groups.get(entry.recipe)!.push(entry);
+  }
+  const historyDates = new Map<number, string[]>();
+  for (const entry of history) {
+    if (!groups.has(entry.recipe)) continue;
+    if (!historyDates.has(entry.recipe)) historyDates.set(entry.recipe, []);
+    historyDates.get(entry.recipe)!.push(cookLogDate(entry));
+  }
+  return Array.from(groups.entries()).map(([recipeId, recipeEntries]) => {
+    const dates = [...recipeEntries.map(cookLogDate), ...(historyDates.get(recipeId) || [])].sort();
+    const ratings = recipeEntries.map(e => Number(e.rating)).filter(rating => rating > 0);
+    const lastCooked = dates[dates.length - 1];
+    return {
+      recipe_id: recipeId,
+      times_cooked: recipeEntries.length,
+      last_cooked: lastCooked,
+      first_cooked: dates[0],
+      days_since_cooked: daysBetween(lastCooked, today),
+      average_rating: average(ratings),
+      rating_count: ratings.length,
+    };
+  });
+}
+
+/**
+ * Computes the overall statistics: most cooked recipes, best rated recipes and recipes not cooked for a while.
+ */
+export function summarizeCookLog(entries: CookLogEntry[], options: CookLogStatsOptions): CookLogStats {
+  const limit = options.limit ?? 10;
+  const notCookedDays = options.not_cooked_days ?? 30;
+  const perRecipe = statsPerRecipe(entries, options.today, options.history);
+
+  const mostCooked = [...perRecipe]
+    .sort((a, b) => b.times_cooked - a.times_cooked || b.last_cooked.localeCompare(a.last_cooked))
+    .slice(0, limit);
+  const topRated = perRecipe
+    .filter(r => r.average_rating !== null)
+    .sort((a, b) => b.average_rating! - a.average_rating! || b.rating_count - a.rating_count)
+    .slice(0, limit);
+  // Longest-forgotten favourites first: those are the best candidates to bring back
+  const notCookedRecently = perRecipe
+    .filter(r => r.days_since_cooked > notCookedDays)
+    .sort((a, b) => (b.average_rating ?? 0) - (a.average_rating ?? 0) || b.days_since_cooked - a.days_since_cooked)
+    .slice(0, limit);
+
+  return {
+    total_entries: entries.length,
+    distinct_recipes: perRecipe.length,
+    average_rating: average(entries.map(e => Number(e.rating)).filter(rating => rating > 0)),
+    most_cooked: mostCooked,
+    top_rated: topRated,
+    not_cooked_recently: notCookedRecently,
+  };
+}
@@ -0,0 +1,90 @@
+// --- Dry Run ---
+// Runs a tool call against the real API for lookups while every write request (POST, PUT, PATCH, DELETE) is recorded
+// instead of sent. The recording is scoped to the tool call, so concurrent calls are not affected.
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  data?: unknown;
+}
+
+const recording = new AsyncLocalStorage<RecordedRequest[]>();
+
+// Status text of every simulated response, so other interceptors can tell them apart from real ones
+export const DRY_RUN_STATUS_TEXT = 'Dry run';
+
+// POST endpoints that only compute a result and change nothing on the server
+const READ_ONLY_POSTS = ['/api/recipe-from-source/'];
+
+// Placeholder IDs of objects that would have been created are negative, e.g. /api/recipe/-1/
+const PLACEHOLDER_ID_REGEX = /\/(-\d+)\//;
+
+function simulatedData(method: string, url: string, data: unknown, placeholderId: number): unknown {
+  if (method === 'DELETE') return '';
+  const body = data && typeof data === 'object' && !Array.isArray(data) ? data : {};
+  if (method === 'POST') return { ...body, id: placeholderId };
+  const idMatch = url.match(/\/(-?\d+)\/?$/);
+  return idMatch ? { id: Number(idMatch[1]), ...body } : { ...body };
+}
+
+function respondWith(config: InternalAxiosRequestConfig, status: number, data: unknown): void {
+  config.adapter = async (adapterConfig): Promise<AxiosResponse> => ({
+    data,
+    status,
+    statusText: DRY_RUN_STATUS_TEXT,
+    headers: {},
+    config: adapterConfig,
+  });
+}
+
+/**
+ * Adds the request interceptor that records write requests while a dry run is active. Call once per client.
+ */
+export function installDryRun(client: AxiosInstance): void {
+  client.interceptors.request.use(config => {
+    const recorded = recording.getStore();
+    if (!recorded) return config;
+    const method = (config.method || 'get').toUpperCase();
+    const url = config.url || '';
+
+    if (method === 'GET' || method === 'HEAD' || (method === 'POST' && READ_ONLY_POSTS.includes(url))) {
+      // Objects "created" earlier in the same dry run do not exist on the server
+      const placeholder = url.match(PLACEHOLDER_ID_REGEX);
+      if (placeholder) respondWith(config, 200, { id: Number(placeholder[1]) });
+      return config;
+    }
+
+    const data = typeof FormData !== 'undefined' && config.data instanceof FormData ? '[file upload]' : config.data;
+    recorded.push({ method, url, data });
+    console.error(`[Dry Run] ${method} ${url} - Not sent`);
+    respondWith(config, method === 'POST' ? 201 : method === 'DELETE' ? 204 : 200, simulatedData(method, url, data, -recorded.length));
+    return config;
+  });
+}
+
+/**
+ * Runs `fn` with write requests recorded instead of sent, returning its result and the recorded requests.
+ */
+export async function runDryRun<T>(fn: () => Promise<T>): Promise<{ result: T; requests: RecordedRequest[] }> {
+  const requests: RecordedRequest[] = [];
+  const result = await recording.run(requests, fn);
+  return { result, requests };
+}
+
+/**
+ * Formats recorded requests as a numbered list with their JSON payloads.
+ */
+export function describeRecordedRequests(requests: RecordedRequest[]): string {
+  if (requests.length === 0) return 'No changes would be sent.';
+  return requests
+    .map((request, index) => {
+      const payload = request.data === undefined || request.data === null || request.data === ''
+        ? ''
+        : `\n${typeof request.data === 'string' ? request.data : JSON.stringify(request.data, null, 2)}`;
+      return `${index + 1}. ${request.method} ${request.url}${payload}`;
+    })
+    .join('\n\n');
+}
@@ -0,0 +1,188 @@
+// --- HTTP Transport ---
+// Serves MCP over HTTP with Server-Sent Events: GET /sse opens a session, POST /messages?sessionId=... delivers the
+// client's messages and GET /health reports that the server is up. Every session gets its own MCP server and can bring
+// its own Tandoor API token, so one shared process serves several users, each with their own Tandoor permissions.
+// Host and Origin headers are checked so a web page cannot reach the server through DNS rebinding.
+
+import { createServer as createHttpServer, IncomingHttpHeaders, Server as HttpServer, ServerResponse } from 'node:http';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { AxiosInstance } from 'axios';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+
+const sessionToken = new AsyncLocalStorage<string>();
+
+/**
+ * Adds the request interceptor that sends the current session's Tandoor token instead of the configured one.
+ * Call once per client.
+ */
+export function installSessionToken(client: AxiosInstance): void {
+  client.interceptors.request.use(config => {
+    const token = sessionToken.getStore();
+    if (token) config.headers.Authorization = `Bearer ${token}`;
+    return config;
+  });
+}
+
+/**
+ * Runs `fn` with every Tandoor request authenticated with `token`. Without a token the configured one is used.
+ */
+export function runWithToken<T>(token: string | undefined, fn: () => T): T {
+  return token ? sessionToken.run(token, fn) : fn();
+}
+
+/**
+ * Reads the Tandoor token from "Authorization: Bearer <token>" or "X-Tandoor-Token: <token>".
+ */
+export function tokenFromHeaders(headers: IncomingHttpHeaders): string | undefined {
+  const custom = headers['x-tandoor-token'];
+  if (typeof custom === 'string' && custom.trim()) return custom.trim();
+  const match = headers.authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Host names the server answers to: localhost, the loopback addresses, the listening address unless it is a wildcard,
+ * and `extraHosts` (e.g. the server's LAN name or IP). Lowercase, without ports.
+ */
+export function allowedHostNames(listenHost: string, extraHosts: string[] = []): Set<string> {
+  const hosts = ['localhost', '127.0.0.1', '::1', ...extraHosts];
+  if (listenHost !== '0.0.0.0' && listenHost !== '::') hosts.push(listenHost);
+  return new Set(hosts.map(host => host.trim().toLowerCase().replace(/^\[|\]$/g, '')).filter(Boolean));
+}
+
+function hostNameOf(value: string): string | undefined {
+  try {
+    return new URL(value.includes('://') ? value : `http://${value}`).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Checks the Host header and, when a browser sent one, the Origin header against the allowed host names.
+ * Returns why the request is refused, or undefined when it may pass.
+ */
+export function checkRequestOrigin(headers: IncomingHttpHeaders, allowedHosts: Set<string>): string | undefined {
+  const host = headers.host ? hostNameOf(headers.host) : undefined;
+  if (!host || !allowedHosts.has(host)) {
+    return `Host "${headers.host ?? ''}" is not allowed. Add it to MCP_ALLOWED_HOSTS to accept it.`;
+  }
+  const origin = headers.origin;
+  if (origin !== undefined) {
+    const originHost = origin === 'null' ? undefined : hostNameOf(origin);
+    if (!originHost || !allowedHosts.has(originHost)) {
+      return `Origin "${origin}" is not allowed. Add its host to MCP_ALLOWED_HOSTS to accept it.`;
+    }
+  }
+  return undefined;
+}
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  createServer: (token: string) => Server; // Called once per session
+  defaultToken?: string; // Used by sessions that do not send a token; without it a token is required
+  allowedHosts?: string[]; // Host names accepted besides localhost and the listening address
+  // Checks a session's own token before the session opens; returns why Tandoor refused it, or undefined when valid.
+  // Throws when Tandoor cannot be asked.
+  verifyToken?: (token: string) => Promise<string | undefined>;
+}
+
+interface Session {
+  transport: SSEServerTransport;
+  token: string;
+  ownToken: boolean; // Opened with the client's own token, which every message then has to carry
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify(body));
+}
+
+/**
+ * Starts the HTTP server and resolves once it is listening.
+ */
+export async function startHttpServer(options: HttpServerOptions): Promise<HttpServer> {
+  const sessions = new Map<string, Session>();
+  const allowedHosts = allowedHostNames(options.host, options.allowedHosts);
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    try {
+      if (req.method === 'GET' && url.pathname === '/health') {
+        sendJson(res, 200, { status: 'ok', transport: 'sse', sessions: sessions.size });
+        return;
+      }
+
+      const refused = checkRequestOrigin(req.headers, allowedHosts);
+      if (refused) {
+        console.warn(`[Warning] Refused ${req.method} ${url.pathname}: ${refused}`);
+        sendJson(res, 403, { error: refused });
+        return;
+      }
+
+      if (req.method === 'GET' && url.pathname === '/sse') {
+        const ownToken = tokenFromHeaders(req.headers);
+        const token = ownToken ?? options.defaultToken;
+        if (!token) {
+          sendJson(res, 401, { error: 'Missing Tandoor API token. Send "Authorization: Bearer <token>" or "X-Tandoor-Token: <token>".' });
+          return;
+        }
+        // A wrong token would otherwise only show up on the first tool call
+        if (ownToken && options.verifyToken) {
+          let rejected: string | undefined;
+          try {
+            rejected = await options.verifyToken(ownToken);
+          } catch (error) {
+            console.error('[HTTP Error] Could not verify the session token:', error);
+            sendJson(res, 502, { error: 'Could not reach Tandoor to verify the token.' });
+            return;
+          }
+          if (rejected) {
+            sendJson(res, 401, { error: rejected });
+            return;
+          }
+        }
+        const transport = new SSEServerTransport('/messages', res);
+        const sessionId = transport.sessionId;
+        const server = options.createServer(token);
+        server.onerror = error => console.error(`[MCP Error] Session ${sessionId}:`, error);
+        server.onclose = () => {
+          sessions.delete(sessionId);
+          console.error(`[HTTP] Session ${sessionId} closed`);
+        };
+        sessions.set(sessionId, { transport, token, ownToken: ownToken !== undefined });
+        await server.connect(transport);
+        console.error(`[HTTP] Session ${sessionId} opened (${ownToken ? 'own token' : 'default token'})`);
+        return;
+      }
+
+      if (req.method === 'POST' && url.pathname === '/messages') {
+        const session = sessions.get(url.searchParams.get('sessionId') || '');
+        if (!session) {
+          sendJson(res, 404, { error: 'Unknown or closed session. Open a new one with GET /sse.' });
+          return;
+        }
+        // The session ID alone must not let one user act with another user's token
+        const token = tokenFromHeaders(req.headers);
+        if (session.ownToken ? token !== session.token : token !== undefined && token !== session.token) {
+          sendJson(res, 403, { error: token ? 'Token does not match the session.' : 'This session was opened with its own token; send it with every message.' });
+          return;
+        }
+        await session.transport.handlePostMessage(req, res);
+        return;
+      }
+
+      sendJson(res, 404, { error: 'Not found. Endpoints: GET /sse, POST /messages, GET /health.' });
+    } catch (error) {
+      console.error(`[HTTP Error] ${req.method} ${url.pathname}:`, error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+  return httpServer;
+}
@@ -3,12 +3,38 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
+  CallToolRequest,
+  ReadResourceRequest,
+  GetPromptRequest,
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   McpError,
   ErrorCode,
 } from "@modelcontextprotocol/sdk/types.js";
 import axios, { AxiosInstance } from 'axios';
+import { parseIngredientLine, parsePantryText, formatAmount, normalizeUnit, unitAliases, ParsedIngredient } from './ingredient-parser.js';
+import { splitInstructionBlock } from './instruction-parser.js';
+import { TandoorUnitConversion, UnitSystem, convertAmount } from './unit-conversion.js';
+import { parseRecipeFromSource, RecipeDraft } from './schema-org.js';
+import { checkPageUrl, fetchPage, PageFetchError } from './page-fetch.js';
+import { pickCandidate, describeCandidates } from './name-matching.js';
+import { CookLogEntry, RecipeCookStats, cookLogDate, summarizeCookLog } from './cook-log.js';
+import { PlanCandidate, generateMealPlan, mealSlots, seedFromString } from './meal-plan-generator.js';
+import { renderRecipe, renderRecipeMarkdown, RecipeFormat, RECIPE_FORMATS } from './recipe-format.js';
+import { installDryRun, runDryRun, describeRecordedRequests } from './dry-run.js';
+import { aggregateShoppingEntries, groupByCategory, AggregatedItem } from './shopping-aggregation.js';
+import { RESOURCES, RESOURCE_TEMPLATES, TAXONOMY_ENDPOINTS, ResourceRef, TaxonomyResource, parseResourceUri, weekRange, buildKeywordTree } from './resources.js';
+import { PROMPTS, planWeekText, shopForWeekText, reviewWeekText } from './prompts.js';
+import { installSessionToken, runWithToken, startHttpServer } from './http-transport.js';
+import { installRetries, retryOptionsFromEnv, toMcpError } from './resilient-client.js';
+import { installCache, cacheOptionsFromEnv, clearCache, cacheStats, CacheGroup, CACHE_GROUPS } from './response-cache.js';
+import { mapSettled } from './concurrency.js';
+import { OUTPUT_MODES, OutputMode, ToolData, EntityRef, ToolError, SkippedItem, PageInfo, TandoorFood, TandoorUnit, TandoorKeyword, TandoorIngredient, TandoorRecipeBook, TandoorRecipeBookEntry, TandoorMealPlan, TandoorRecipe, TandoorShoppingEntry, TandoorShoppingListRecipe, MealPlanEntry, CommitMealPlanEntryInput, toRecipeSummary, toRecipeData, toMealPlanEntry, toShoppingItem, toTaxonomyItem, toCookLogItem, toToolError, describeToolErrors } from './types.js';
 
 // --- Configuration ---
 const TANDOOR_URL = process.env.TANDOOR_URL;
@@ -18,46 +44,100 @@ const TANDOOR_API_TOKEN = process.env.TANDOOR_API_TOKEN
   ? process.env.TANDOOR_API_TOKEN
   : process.env.TANDOOR_API_KEY; 
 
+// Reads "--name=value" from the command line
+function cliOption(name: string): string | undefined {
+  const prefix = `--${name}=`;
+  return process.argv.find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+// Transport: stdio (default) or HTTP with SSE, from --transport=sse (or --http) or MCP_TRANSPORT
+const TRANSPORT_OPTION = (cliOption('transport') ?? (process.argv.includes('--http') ? 'sse' : process.env.MCP_TRANSPORT) ?? 'stdio').toLowerCase();
+const TRANSPORT = TRANSPORT_OPTION === 'http' ? 'sse' : TRANSPORT_OPTION;
+const HTTP_HOST = cliOption('host') ?? process.env.MCP_HOST ?? '127.0.0.1';
+const HTTP_PORT = Number(cliOption('port') ?? process.env.MCP_PORT ?? 3000);
+// Extra host names the HTTP server answers to (comma-separated), e.g. its LAN name when listening on 0.0.0.0
+const HTTP_ALLOWED_HOSTS = (cliOption('allowed-hosts') ?? process.env.MCP_ALLOWED_HOSTS ?? '').split(',').map(host => host.trim()).filter(Boolean);
+
   if (!TANDOOR_URL) {
   console.error("[Error] TANDOOR_URL environment variable is required.");
   process.exit(1);
 }
-if (!TANDOOR_API_TOKEN) {
+if (TRANSPORT !== 'stdio' && TRANSPORT !== 'sse') {
+  console.error(`[Error] Unknown transport "${TRANSPORT_OPTION}". Use stdio or sse.`);
+  process.exit(1);
+}
+if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 0 || HTTP_PORT > 65535) {
+  console.error("[Error] MCP_PORT must be a port number.");
+  process.exit(1);
+}
+// In HTTP mode sessions can bring their own token instead
+if (!TANDOOR_API_TOKEN && TRANSPORT === 'stdio') {
   console.error("[Error] TANDOOR_API_TOKEN environment variable is required.");
   process.exit(1);
 }
 
 // --- Tandoor API Types (Simplified) ---
 interface TandoorFoodInput {
+  id?: number; // Set when matched to an existing food
   name: string;
 }
 
 interface TandoorUnitInput {
+  id?: number; // Set when matched to an existing unit
   name: string;
 }
 
 interface TandoorIngredientInput {
-  food: TandoorFoodInput;
-  unit: TandoorUnitInput;
+  food: TandoorFoodInput | null; // null for section headers
+  unit: TandoorUnitInput | null;
   amount: string; // Tandoor API expects string for amount
   note?: string;
+  original_text?: string;
+  no_amount?: boolean;
+  is_header?: boolean;
+}
+
+interface TandoorNamedObject {
+  id: number;
+  name: string;
+  plural_name?: string | null;
 }
 
 interface TandoorStepInput {
+  name?: string;
   instruction: string;
   ingredients: TandoorIngredientInput[];
+  time?: number; // Minutes
+  order?: number;
+}
+
+interface TandoorKeywordInput {
+  name: string;
 }
 
 interface TandoorRecipeInput {
   name: string;
   description?: string;
   servings?: number;
+  keywords?: TandoorKeywordInput[];
+  working_time?: number; // Minutes
+  waiting_time?: number; // Minutes
+  source_url?: string;
   steps: TandoorStepInput[];
 }
 
+// Step as accepted by the create_tandoor_recipe tool
+interface RecipeStepArgument {
+  name?: string;
+  instruction: string;
+  ingredients?: string[];
+  time?: number;
+}
+
 interface TandoorMealType {
     id: number;
     name: string;
+    description?: string | null;
 }
 
 interface TandoorMealTypeResult {
@@ -74,7 +154,7 @@ interface TandoorMealPlanInput {
     recipe: { 
         id: number;
         name: string;
-        keywords: any[]; // API requires keywords field
+        keywords: TandoorKeyword[]; // API requires keywords field
     }; 
     meal_type: { 
         id: number;
@@ -87,849 +167,4196 @@ interface TandoorMealPlanInput {
     note?: string;
 }
 
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
 // --- Axios Instance ---
 const apiClient: AxiosInstance = axios.create({
   baseURL: TANDOOR_URL,
   headers: {
-    'Authorization': `Bearer ${TANDOOR_API_TOKEN}`,
+    ...(TANDOOR_API_TOKEN ? { 'Authorization': `Bearer ${TANDOOR_API_TOKEN}` } : {}),
     'Content-Type': 'application/json',
     'Accept': 'application/json',
   }
 });
+// Installed first so its request interceptor runs last and sees the session's Authorization header
+installCache(apiClient, cacheOptionsFromEnv(process.env));
+installDryRun(apiClient);
+installSessionToken(apiClient);
+installRetries(apiClient, retryOptionsFromEnv(process.env));
 
-// --- MCP Server Setup ---
-const server = new Server(
-  {
-    name: "tandoor-mcp-server",
-    version: "0.1.0",
-    description: "A Model Context Protocol Server to interact with Tandoor, a self-hosted recipe manager."
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
+// --- Helpers ---
+
+// Upper bound for list tools called with all: true, so a huge instance cannot flood the model's context
+const MAX_ALL_RESULTS = 1000;
+const ALL_PAGE_SIZE = 100;
+// The cook log is only summarized, never listed in full, so it may be fetched further
+const MAX_COOK_LOG_ENTRIES = 20000;
+// Meal plan ranges are read whole (see fetchMealPlansInRange); a range this large is almost certainly a mistake
+const MAX_MEAL_PLAN_ENTRIES = 5000;
+
+interface PaginationOptions {
+  page?: number;
+  page_size?: number;
+  all?: boolean;
+  max_results?: number; // With all: true, stop after this many results instead of MAX_ALL_RESULTS
+}
+
+interface PagedResult<T> {
+  results: T[];
+  count: number; // Total number of results on the server
+  page: number;
+  page_size: number;
+  has_more: boolean;
+  truncated: boolean; // all: true stopped at MAX_ALL_RESULTS
+  scanned?: { checked: number; total: number }; // Filtered locally after fetching stopped at MAX_ALL_RESULTS
+}
+
+function paginationFromArgs(args: Record<string, unknown>, defaultPageSize?: number): PaginationOptions {
+  const options: PaginationOptions = { all: args.all === true };
+  for (const field of ['page', 'page_size'] as const) {
+    const value = args[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+      throw new McpError(ErrorCode.InvalidParams, `${field} must be a positive integer.`);
+    }
+    options[field] = value;
+  }
+  if (options.page_size === undefined && defaultPageSize !== undefined && !options.all) options.page_size = defaultPageSize;
+  return options;
+}
+
+// Fetches one page, or with all: true every page up to MAX_ALL_RESULTS (or max_results). Handles non-paginated (plain array) responses too.
+async function fetchPaged<T>(url: string, options: PaginationOptions, label: string): Promise<PagedResult<T>> {
+  const separator = url.includes('?') ? '&' : '?';
+  const pageSize = options.all ? options.page_size ?? ALL_PAGE_SIZE : options.page_size;
+  let page = options.all ? 1 : options.page ?? 1;
+  const results: T[] = [];
+  let count = 0;
+  let hasMore = false;
+  const maxResults = options.max_results ?? MAX_ALL_RESULTS;
+
+  while (true) {
+    const params = [`page=${page}`];
+    if (pageSize) params.push(`page_size=${pageSize}`);
+    const pageUrl = `${url}${separator}${params.join('&')}`;
+    console.error(`[API] GET ${pageUrl} - Fetching ${label}`);
+    const response = await apiClient.get(pageUrl);
+    console.error(`[API] GET ${pageUrl} - Status: ${response.status}`);
+
+    if (Array.isArray(response.data)) {
+      return { results: response.data, count: response.data.length, page: 1, page_size: response.data.length, has_more: false, truncated: false };
+    }
+    const pageResults: T[] = response.data.results || [];
+    results.push(...pageResults);
+    count = response.data.count ?? results.length;
+    hasMore = !!response.data.next;
+
+    if (!options.all || !hasMore || pageResults.length === 0) break;
+    if (results.length >= maxResults) {
+      console.warn(`[Warning] Stopped fetching ${label} at ${results.length} of ${count} results (limit: ${maxResults}).`);
+      break;
+    }
+    page++;
   }
-);
 
-// --- Tool Definitions ---
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  console.error("[Info] Listing tools");
   return {
-    tools: [
-      // --- Existing Tools ---
-      {
-        name: "create_tandoor_recipe",
-        description: "Create a new recipe in Tandoor.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            name: { type: "string", description: "The name of the recipe." },
-            description: { type: "string", description: "Optional description for the recipe." },
-            servings: { type: "number", description: "Optional number of servings." },
-            ingredients_block: { type: "string", description: "A multi-line block of text listing ingredients, one per line (e.g., '1 cup flour\\n2 eggs')." },
-            instructions_block: { type: "string", description: "A multi-line block of text detailing the recipe instructions." },
-          },
-          required: ["name", "ingredients_block", "instructions_block"],
-        },
-      },
-      {
-        name: "create_tandoor_meal_plan",
-        description: "Add one or more recipes to the Tandoor meal plan for a specific date and meal type.",
-        inputSchema: {
-            type: "object",
-            properties: {
-                title: { type: "string", description: "Optional title for the meal plan entry." },
-                recipes: {
-                    type: "array",
-                    items: { type: ["string", "number"] }, // Allow recipe names (string) or IDs (number)
-                    description: "An array of recipe names or recipe IDs to add to the plan."
-                },
-                start_date: { type: "string", format: "date", description: "The date for the meal plan entry (YYYY-MM-DD)." },
-                meal_type: { type: "string", description: "The name of the meal type (e.g., 'Dinner', 'Lunch'). Must match an existing meal type in Tandoor." },
-                servings: { type: "number", description: "Optional number of servings for the meal plan entry (default: 1).", default: 1 },
-                note: { type: "string", description: "Optional note for the meal plan entry." },
-            },
-            required: ["recipes", "start_date", "meal_type"],
-        },
-      },
-      {
-        name: "get_recipes",
-        description: "Search for recipes in Tandoor based on various criteria.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "Search term for recipe names." },
-            keywords: { type: "array", items: { type: "integer" }, description: "Array of Keyword IDs (match ANY)." },
-            foods: { type: "array", items: { type: "integer" }, description: "Array of Food IDs (match ANY)." },
-            rating: { type: "integer", minimum: 0, maximum: 5, description: "Minimum rating (0-5)." },
-            limit: { type: "integer", description: "Max number of recipes to return (default: 10).", default: 10 }
-          },
-          required: []
-        },
-      },
-      {
-        name: "get_meal_plans",
-        description: "Retrieve meal plan entries from Tandoor, optionally filtering by date range and meal type.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            from_date: { type: "string", format: "date", description: "Optional start date (YYYY-MM-DD) filter (inclusive)." },
-            to_date: { type: "string", format: "date", description: "Optional end date (YYYY-MM-DD) filter (inclusive)." },
-            meal_type_id: { type: "integer", description: "Optional Meal Type ID to filter by." }
-          },
-          required: []
-        },
-      },
-      // --- New Tools ---
-      {
-        name: "get_recipe_details",
-        description: "Retrieve the full details of a specific recipe.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            recipe_id: { type: "integer", description: "The ID of the recipe to retrieve." }
-          },
-          required: ["recipe_id"]
-        },
-      },
-      {
-        name: "get_meal_types",
-        description: "List all available meal types in Tandoor.",
-        inputSchema: { type: "object", properties: {}, required: [] } // No input needed
-      },
-      {
-        name: "get_keywords",
-        description: "List or search for keywords.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "Optional search term for keyword name." },
-            root: { type: "integer", description: "Optional ID to get first-level children (0 for root)." },
-            tree: { type: "integer", description: "Optional ID to get all children in a tree." }
-          },
-          required: []
-        },
-      },
-      {
-        name: "get_foods",
-        description: "List or search for foods.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "Optional search term for food name." },
-            root: { type: "integer", description: "Optional ID to get first-level children (0 for root)." },
-            tree: { type: "integer", description: "Optional ID to get all children in a tree." }
-          },
-          required: []
-        },
-      },
-      {
-        name: "get_units",
-        description: "List or search for units.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            query: { type: "string", description: "Optional search term for unit name." }
-          },
-          required: []
-        },
-      },
-      {
-        name: "get_shopping_list",
-        description: "Retrieve the current shopping list items.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            checked: { type: "string", enum: ["true", "false", "both", "recent"], description: "Filter by checked status (default: recent)." }
-          },
-          required: []
-        },
-      },
-      {
-        name: "add_shopping_list_item",
-        description: "Add an item to the shopping list, allowing food/unit names or IDs.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            food_name_or_id: { type: ["string", "integer"], description: "The name or ID of the food item." },
-            amount: { type: "string", description: "The amount needed (e.g., '1', '2.5', '1/2')." },
-            unit_name_or_id: { type: ["string", "integer"], description: "The name or ID of the unit (e.g., 'cup', 'g', 5)." },
-            note: { type: "string", description: "Optional note for the item." }
-          },
-          required: ["food_name_or_id", "amount", "unit_name_or_id"]
-        },
-      },
-      {
-        name: "update_shopping_list_item",
-        description: "Update an existing shopping list item (e.g., check/uncheck, change amount).",
-        inputSchema: {
-          type: "object",
-          properties: {
-            item_id: { type: "integer", description: "The ID of the shopping list item to update." },
-            amount: { type: "string", description: "Optional new amount." },
-            unit_id: { type: "integer", description: "Optional new unit ID." },
-            checked: { type: "boolean", description: "Optional new checked status." },
-            note: { type: "string", description: "Optional new note." }
-          },
-          required: ["item_id"]
-        },
-      },
-      {
-        name: "remove_shopping_list_item",
-        description: "Remove an item from the shopping list.",
-        inputSchema: {
-          type: "object",
-          properties: {
-            item_id: { type: "integer", description: "The ID of the shopping list item to remove." }
-          },
-          required: ["item_id"]
-        },
-      }
-    ],
+    results: options.all ? results.slice(0, maxResults) : results,
+    count,
+    page: options.all ? 1 : page,
+    page_size: pageSize ?? results.length,
+    has_more: hasMore,
+    truncated: !!options.all && hasMore,
   };
-});
+}
 
-// --- Tool Implementation ---
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  console.error(`[Info] Received tool call: ${request.params.name}`);
+// "Showing 25 of 130 results (page 2 of 6, more available: use page=3 or all=true)"
+function describePage(result: PagedResult<unknown>): string {
+  if (result.scanned) {
+    const totalPages = result.page_size > 0 ? Math.max(1, Math.ceil(result.count / result.page_size)) : 1;
+    const more = result.has_more ? `, use page=${result.page + 1} for more` : '';
+    return `Showing ${result.results.length} of ${result.count} matches among the first ${result.scanned.checked} of ${result.scanned.total} recipes (page ${result.page} of ${totalPages}${more}). The other recipes were not checked: narrow the search (e.g. with query, keywords or cooked_after) to see every match`;
+  }
+  if (result.truncated) {
+    return `Showing ${result.results.length} of ${result.count} results (stopped at the limit of ${MAX_ALL_RESULTS})`;
+  }
+  if (!result.has_more && result.page === 1) {
+    return `Showing all ${result.results.length} of ${result.count} results`;
+  }
+  const totalPages = result.page_size > 0 ? Math.ceil(result.count / result.page_size) : 1;
+  const more = result.has_more ? `, more available: use page=${result.page + 1} or all=true` : '';
+  return `Showing ${result.results.length} of ${result.count} results (page ${result.page} of ${totalPages}${more})`;
+}
+
+// Looks up the entry with exactly this name (or one of the aliases) through resolveByName; undefined when there is none.
+// A failed search is logged and treated as "none", so callers go on and create the entry.
+async function findExistingByName(kind: ResolvableKind, name: string, aliases: string[] = []): Promise<TandoorNamedObject | undefined> {
   try {
-    switch (request.params.name) {
-      // --- create_tandoor_recipe ---
-      case "create_tandoor_recipe": {
-        const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null) {
-            throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
-        }
-        const name = args.name as string;
-        const description = args.description as string | undefined;
-        const servings = args.servings as number | undefined;
-        const ingredients_block = args.ingredients_block as string;
-        const instructions_block = args.instructions_block as string;
-
-        if (!name || !ingredients_block || !instructions_block) {
-          throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: name, ingredients_block, instructions_block.");
-        }
-
-        // Basic parsing: each line is an ingredient, use line as food name, placeholder unit/amount
-        const ingredients: TandoorIngredientInput[] = ingredients_block
-          .split('\n')
-          .map(line => line.trim())
-          .filter(line => line.length > 0)
-          .map(line => ({
-            food: { name: line }, // Use the line as the food name
-            unit: { name: "unit" }, // Placeholder unit
-            amount: "1", // Placeholder amount
-            note: line // Store original line in note for reference? API might ignore.
-          }));
+    return await resolveByName(kind, name, { exact_only: true, aliases });
+  } catch (err: any) {
+    if (!(err instanceof NameResolutionError)) {
+      console.warn(`[Warning] Could not search ${kind} for "${name}": ${err.message}`);
+    }
+    return undefined;
+  }
+}
 
-        const recipePayload: TandoorRecipeInput = {
-          name: name,
-          description: description,
-          servings: servings,
-          steps: [
-            {
-              instruction: instructions_block,
-              ingredients: ingredients,
-            },
-          ],
-        };
+// Converts parsed ingredient lines into Tandoor ingredients, reusing existing units and foods where a match is found
+async function buildIngredients(parsed: ParsedIngredient[]): Promise<TandoorIngredientInput[]> {
+  const unitMatches = new Map<string, TandoorUnitInput>();
+  const foodMatches = new Map<string, TandoorFoodInput>();
 
-        console.error(`[API] POST /api/recipe/ - Payload: ${JSON.stringify(recipePayload)}`);
-        const response = await apiClient.post('/api/recipe/', recipePayload);
-        console.error(`[API] POST /api/recipe/ - Status: ${response.status}`);
+  for (const unitName of new Set(parsed.map(p => p.unit).filter((u): u is string => !!u))) {
+    // The aliases also match the long form ("tablespoon") that Tandoor instances often store
+    const existing = await findExistingByName('unit', unitName, unitAliases(unitName));
+    unitMatches.set(unitName, existing ? { id: existing.id, name: existing.name } : { name: unitName });
+  }
 
-        const newRecipeId = response.data?.id;
-        const successMsg = `Successfully created recipe "${name}" in Tandoor (ID: ${newRecipeId || 'unknown'}).`;
-        console.error(`[Info] ${successMsg}`);
-        return { content: [{ type: "text", text: successMsg }] };
-      }
+  for (const foodName of new Set(parsed.map(p => p.food).filter(Boolean))) {
+    const existing = await findExistingByName('food', foodName);
+    foodMatches.set(foodName, existing ? { id: existing.id, name: existing.name } : { name: foodName });
+  }
 
-      // --- create_tandoor_meal_plan ---
-      case "create_tandoor_meal_plan": {
-        const args = request.params.arguments;
-         if (!args || typeof args !== 'object' || args === null) {
-            throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
-        }
-        const recipesInput = args.recipes as (string | number)[];
-        const startDate = args.start_date as string;
-        const mealTypeName = args.meal_type as string;
-        const title = args.title as string | undefined;
-        const servings = args.servings as number ?? 1; // Default to 1 serving
-        const note = args.note as string | undefined;
+  return parsed.map(p => {
+    const ingredient: TandoorIngredientInput = {
+      food: p.food ? foodMatches.get(p.food)! : null, // "2 cups" names no food
+      unit: p.unit ? unitMatches.get(p.unit)! : null,
+      amount: p.amount !== null ? formatAmount(p.amount) : "0",
+      original_text: p.original,
+    };
+    if (p.note) ingredient.note = p.note;
+    if (p.amount === null) ingredient.no_amount = true;
+    return ingredient;
+  });
+}
 
+// Builds Tandoor steps from tool step arguments, parsing all ingredient lines in one pass so lookups are shared
+async function buildSteps(steps: RecipeStepArgument[]): Promise<TandoorStepInput[]> {
+  const parsedPerStep = steps.map(step =>
+    (step.ingredients || []).map(line => line.trim()).filter(line => line.length > 0).map(parseIngredientLine)
+  );
+  const allIngredients = await buildIngredients(parsedPerStep.flat());
 
-        if (!recipesInput || !Array.isArray(recipesInput) || recipesInput.length === 0 || !startDate || !mealTypeName) {
-            throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: recipes (array), start_date, meal_type.");
-        }
-         // Validate date format (basic)
-        if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
-            throw new McpError(ErrorCode.InvalidParams, "Invalid start_date format. Use YYYY-MM-DD.");
-        }
+  let offset = 0;
+  return steps.map((step, index) => {
+    const count = parsedPerStep[index].length;
+    const tandoorStep: TandoorStepInput = {
+      instruction: step.instruction,
+      ingredients: allIngredients.slice(offset, offset + count),
+      order: index,
+    };
+    offset += count;
+    if (step.name) tandoorStep.name = step.name;
+    if (step.time !== undefined) tandoorStep.time = step.time;
+    return tandoorStep;
+  });
+}
 
-        // 1. Find Meal Type ID
-        console.error(`[API] GET /api/meal-type/ - Fetching meal types`);
-        const mealTypesResponse = await apiClient.get<TandoorMealTypeResult>('/api/meal-type/');
-        console.error(`[API] GET /api/meal-type/ - Status: ${mealTypesResponse.status}, Data: ${JSON.stringify(mealTypesResponse.data)}`); // Log received data
-        const mealType = mealTypesResponse.data.results.find(mt => mt.name.toLowerCase() === mealTypeName.toLowerCase());
-
-        if (!mealType) {
-            console.error(`[Error] Meal type "${mealTypeName}" not found in received data.`); // More specific log
-            throw new McpError(ErrorCode.InvalidParams, `Meal type "${mealTypeName}" not found in Tandoor.`);
-        }
-        const mealTypeId = mealType.id;
-        console.error(`[Info] Found Meal Type ID: ${mealTypeId} for "${mealTypeName}"`);
-
-        // 2. Resolve Recipe IDs
-        const recipeIds: number[] = [];
-        const errors: string[] = [];
-        for (const recipeRef of recipesInput) {
-            if (typeof recipeRef === 'number') {
-                recipeIds.push(recipeRef);
-            } else if (typeof recipeRef === 'string') {
-                try {
-                    console.error(`[API] GET /api/recipe/?query=${encodeURIComponent(recipeRef)} - Searching for recipe`);
-                    const searchResponse = await apiClient.get<{ results: TandoorRecipeOverview[] }>(`/api/recipe/?query=${encodeURIComponent(recipeRef)}`);
-                    console.error(`[API] GET /api/recipe/?query=${encodeURIComponent(recipeRef)} - Status: ${searchResponse.status}`);
-
-                    if (searchResponse.data.results && searchResponse.data.results.length > 0) {
-                        // Simple approach: take the first match
-                        const foundId = searchResponse.data.results[0].id;
-                        recipeIds.push(foundId);
-                        console.error(`[Info] Found Recipe ID: ${foundId} for "${recipeRef}"`);
-                        if (searchResponse.data.results.length > 1) {
-                             console.warn(`[Warning] Multiple recipes found for "${recipeRef}". Using the first match (ID: ${foundId}).`);
-                        }
-                    } else {
-                        errors.push(`Recipe named "${recipeRef}" not found.`);
-                        console.error(`[Error] Recipe named "${recipeRef}" not found.`);
-                    }
-                } catch (err: any) {
-                     errors.push(`Error searching for recipe "${recipeRef}": ${err.message}`);
-                     console.error(`[Error] Failed searching recipe "${recipeRef}":`, err);
-                }
+// --- Name Resolution ---
+type ResolvableKind = 'recipe' | 'food' | 'unit' | 'keyword' | 'meal type' | 'supermarket category' | 'recipe book';
+
+const RESOLVABLE_ENDPOINTS: Record<ResolvableKind, string> = {
+  'recipe': 'recipe',
+  'food': 'food',
+  'unit': 'unit',
+  'keyword': 'keyword',
+  'meal type': 'meal-type',
+  'supermarket category': 'supermarket-category',
+  'recipe book': 'recipe-book',
+};
+
+// Raised when a name cannot be resolved to exactly one entry; the message lists the candidates
+class NameResolutionError extends Error {
+  constructor(message: string, public readonly reason: 'not_found' | 'ambiguous' | 'invalid' = 'not_found') {
+    super(message);
+    this.name = 'NameResolutionError';
+  }
+}
+
+interface ResolveOptions {
+  create?: boolean; // Create missing foods/units/supermarket categories instead of failing
+  exact_only?: boolean; // Reject partial matches; used by every delete and merge
+  aliases?: string[]; // Other spellings that count as an exact match (e.g. "tablespoon" for "tbsp")
+}
+
+// What the API returns for each kind; search results carry fewer fields than a single GET
+interface ResolvableEntities {
+  'recipe': TandoorRecipe;
+  'food': TandoorFood;
+  'unit': TandoorUnit;
+  'keyword': TandoorKeyword;
+  'meal type': TandoorMealType;
+  'supermarket category': TandoorNamedObject;
+  'recipe book': TandoorRecipeBook;
+}
+
+interface ResolvedEntity<T extends TandoorNamedObject = TandoorNamedObject> extends TandoorNamedObject {
+  created?: boolean;
+  data?: T; // The entry as returned by the API (e.g. with food_onhand for foods)
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// Resolves a name or ID to a Tandoor entry. Exact and case-insensitive name matches win; partial matches are only used
+// when they are clearly the best, otherwise a NameResolutionError lists the candidates.
+async function resolveByName<K extends ResolvableKind>(kind: K, ref: string | number, options: ResolveOptions = {}): Promise<ResolvedEntity<ResolvableEntities[K]>> {
+  const endpoint = RESOLVABLE_ENDPOINTS[kind];
+  if (typeof ref === 'number') {
+    const url = `/api/${endpoint}/${ref}/`;
+    console.error(`[API] GET ${url} - Fetching ${kind}`);
+    try {
+      const response = await apiClient.get(url);
+      console.error(`[API] GET ${url} - Status: ${response.status}`);
+      return { id: ref, name: response.data.name, plural_name: response.data.plural_name, data: response.data };
+    } catch (err: any) {
+      if (axios.isAxiosError(err) && err.response?.status === 404) {
+        throw new NameResolutionError(`${capitalize(kind)} with ID ${ref} not found.`);
+      }
+      throw err;
+    }
+  }
+  if (typeof ref !== 'string' || !ref.trim()) {
+    throw new NameResolutionError(`Invalid ${kind} reference: ${JSON.stringify(ref)}`, 'invalid');
+  }
+
+  const name = ref.trim();
+  // Every page is searched: Tandoor does not always rank the exact match among the first results
+  const search = async (query: string): Promise<(ResolvableEntities[K] & TandoorNamedObject)[]> => {
+    // Meal types are few and the endpoint has no search, so match against the full list
+    const url = kind === 'meal type' ? `/api/${endpoint}/` : `/api/${endpoint}/?query=${encodeURIComponent(query)}`;
+    const { results } = await fetchPaged<ResolvableEntities[K] & TandoorNamedObject>(url, { all: true }, `${kind} matches for "${query}"`);
+    return results;
+  };
+  const results = await search(name);
+
+  if (options.aliases?.length) {
+    const wanted = new Set([name, ...options.aliases].map(alias => alias.toLowerCase()));
+    const isAlias = (candidate: ResolvableEntities[K] & TandoorNamedObject) => wanted.has(candidate.name.toLowerCase()) || (!!candidate.plural_name && wanted.has(candidate.plural_name.toLowerCase()));
+    let aliasMatch = results.find(isAlias);
+    // Tandoor instances often store the long form ("tablespoon"), which a search for the abbreviation does not find
+    const longest = options.aliases.reduce((a, b) => (b.length > a.length ? b : a), name);
+    if (!aliasMatch && longest.toLowerCase() !== name.toLowerCase() && kind !== 'meal type') {
+      aliasMatch = (await search(longest)).find(isAlias);
+    }
+    if (aliasMatch) {
+      console.error(`[Info] Resolved ${kind} "${name}" to ID ${aliasMatch.id} ("${aliasMatch.name}", alias match)`);
+      return { id: aliasMatch.id, name: aliasMatch.name, plural_name: aliasMatch.plural_name, data: aliasMatch };
+    }
+  }
+
+  const result = pickCandidate(name, results, { exact_only: options.exact_only });
+  if (result.status === 'matched') {
+    const { candidate, reason } = result.match;
+    console.error(`[Info] Resolved ${kind} "${name}" to ID ${candidate.id} ("${candidate.name}", ${reason} match)`);
+    return { id: candidate.id, name: candidate.name, plural_name: candidate.plural_name, data: candidate };
+  }
+  if (result.status === 'ambiguous') {
+    console.error(`[Error] ${capitalize(kind)} "${name}" is ambiguous: ${describeCandidates(result.candidates)}`);
+    throw new NameResolutionError(`${capitalize(kind)} "${name}" is ambiguous. Candidates: ${describeCandidates(result.candidates)}. Use the exact name or the ID.`, 'ambiguous');
+  }
+
+  if (options.create && (kind === 'food' || kind === 'unit' || kind === 'supermarket category')) {
+    const createUrl = `/api/${endpoint}/`;
+    console.error(`[API] POST ${createUrl} - Creating ${kind} "${name}"`);
+    const created = await apiClient.post(createUrl, { name });
+    console.error(`[API] POST ${createUrl} - Status: ${created.status}`);
+    return { id: created.data.id, name: created.data.name, created: true, data: created.data };
+  }
+  const suggestions = result.candidates.length > 0 ? ` Did you mean: ${describeCandidates(result.candidates)}?` : '';
+  const exactNote = options.exact_only ? ' This tool only accepts the exact name or the ID.' : '';
+  console.error(`[Error] ${capitalize(kind)} named "${name}" not found${options.exact_only ? ' (exact match required)' : ''}.`);
+  throw new NameResolutionError(`${capitalize(kind)} named "${name}" not found.${exactNote}${suggestions}`);
+}
+
+// Resolves a recipe name or ID to a recipe ID (IDs are passed through without a lookup)
+async function resolveRecipeId(recipeRef: string | number, options: ResolveOptions = {}): Promise<number> {
+  if (typeof recipeRef === 'number') {
+    return recipeRef;
+  }
+  return (await resolveByName('recipe', recipeRef, options)).id;
+}
+
+// Turns a recipe as returned by GET /api/recipe/{id}/ into a create payload (no IDs on steps/ingredients)
+function copyRecipeForCreate(recipe: TandoorRecipe, name: string): TandoorRecipeInput {
+  return {
+    name: name,
+    description: recipe.description || undefined,
+    servings: recipe.servings ?? undefined,
+    keywords: (recipe.keywords || []).map(k => ({ name: k.name })),
+    working_time: recipe.working_time ?? undefined,
+    waiting_time: recipe.waiting_time ?? undefined,
+    source_url: recipe.source_url || undefined,
+    steps: (recipe.steps || []).map((step, index) => ({
+      name: step.name || undefined,
+      instruction: step.instruction || '',
+      time: step.time ?? undefined,
+      order: step.order ?? index,
+      ingredients: (step.ingredients || []).map(ing => ({
+        food: ing.food ? { id: ing.food.id, name: ing.food.name } : null,
+        unit: ing.unit ? { id: ing.unit.id, name: ing.unit.name } : null,
+        amount: String(ing.amount ?? 0),
+        note: ing.note || undefined,
+        original_text: ing.original_text || undefined,
+        no_amount: ing.no_amount,
+        is_header: ing.is_header,
+      })),
+    })),
+  };
+}
+
+// Finds a meal type by name
+async function resolveMealType(mealTypeName: string): Promise<TandoorMealType> {
+  try {
+    const mealType = await resolveByName('meal type', mealTypeName);
+    return { id: mealType.id, name: mealType.name };
+  } catch (err: any) {
+    if (err instanceof NameResolutionError) {
+      throw new McpError(ErrorCode.InvalidParams, err.message);
+    }
+    throw err;
+  }
+}
+
+// Date helpers working on plain YYYY-MM-DD strings (UTC, so no DST surprises)
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+async function fetchMealPlan(entryId: number): Promise<TandoorMealPlan> {
+  const url = `/api/meal-plan/${entryId}/`;
+  console.error(`[API] GET ${url} - Fetching meal plan entry`);
+  try {
+    const response = await apiClient.get(url);
+    console.error(`[API] GET ${url} - Status: ${response.status}`);
+    return response.data;
+  } catch (err: any) {
+    if (axios.isAxiosError(err) && err.response?.status === 404) {
+      throw new McpError(ErrorCode.InvalidParams, `Meal plan entry with ID ${entryId} not found.`);
+    }
+    throw err;
+  }
+}
+
+// Builds a POST /api/meal-plan/ payload: date-times for the dates, servings as a string, recipe and meal type as objects
+function buildMealPlanPayload(
+  recipe: { id: number; name: string; keywords?: TandoorKeyword[] },
+  mealType: TandoorMealType,
+  startDate: string,
+  servings: number,
+  extra: { title?: string; note?: string; end_date?: string } = {}
+): TandoorMealPlanInput {
+  const payload: TandoorMealPlanInput = {
+    recipe: { id: recipe.id, name: recipe.name, keywords: recipe.keywords || [] },
+    meal_type: { id: mealType.id, name: mealType.name },
+    from_date: `${startDate}T00:00:00`,
+    servings: String(servings),
+    title: extra.title,
+    note: extra.note,
+  };
+  if (extra.end_date && extra.end_date !== startDate) {
+    payload.to_date = `${extra.end_date}T00:00:00`; // Multi-day entry (e.g., leftovers)
+  }
+  return payload;
+}
+
+// Checks one commit_meal_plan entry field by field; returns the problem as text when it is invalid
+function parseCommitMealPlanEntry(value: unknown): CommitMealPlanEntryInput | string {
+  if (!value || typeof value !== 'object') return 'not an object.';
+  const entry = value as Record<string, unknown>;
+  if (typeof entry.date !== 'string' || !DATE_REGEX.test(entry.date)) return 'missing or invalid date (YYYY-MM-DD).';
+  if (typeof entry.meal_type !== 'string' || !entry.meal_type.trim()) return 'missing or invalid meal_type.';
+  if (typeof entry.recipe !== 'number' && (typeof entry.recipe !== 'string' || !entry.recipe.trim())) return 'missing or invalid recipe (name or ID).';
+  if (entry.servings !== undefined && (typeof entry.servings !== 'number' || !(entry.servings > 0))) return 'servings must be a positive number.';
+  if (entry.title !== undefined && typeof entry.title !== 'string') return 'title must be a string.';
+  if (entry.note !== undefined && typeof entry.note !== 'string') return 'note must be a string.';
+  if (entry.end_date !== undefined && (typeof entry.end_date !== 'string' || !DATE_REGEX.test(entry.end_date) || entry.end_date < entry.date)) {
+    return 'invalid end_date.';
+  }
+  return {
+    date: entry.date,
+    meal_type: entry.meal_type,
+    recipe: entry.recipe,
+    servings: entry.servings,
+    title: entry.title,
+    note: entry.note,
+    end_date: entry.end_date,
+  };
+}
+
+// Fetches the meal plan entries in a date range, optionally of one meal type. Depending on the Tandoor version the
+// endpoint returns a plain list or pages; either way every entry is returned, or the call fails: callers delete and
+// log entries by range, so a partial list must not pass for the whole range.
+async function fetchMealPlansInRange(fromDate?: string, toDate?: string, mealTypeId?: number): Promise<TandoorMealPlan[]> {
+  const params = [fromDate && `from_date=${fromDate}`, toDate && `to_date=${toDate}`, mealTypeId !== undefined && `meal_type=${mealTypeId}`].filter(Boolean);
+  const url = `/api/meal-plan/${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  const plans = await fetchPaged<TandoorMealPlan>(url, { all: true, max_results: MAX_MEAL_PLAN_ENTRIES }, 'meal plans');
+  if (plans.truncated) {
+    throw new McpError(ErrorCode.InvalidRequest, `The range holds more than ${MAX_MEAL_PLAN_ENTRIES} meal plan entries (${plans.count}). Use a shorter date range.`);
+  }
+  return plans.results;
+}
+
+// Outcome of creating several meal plan entries
+interface MealPlanCreationResult {
+  atomic: boolean;
+  status: 'created' | 'partial' | 'failed' | 'rolled_back' | 'unknown';
+  created: MealPlanEntry[];
+  failed: { recipe: string; date?: string; meal_type?: string; error: string }[];
+  skipped: { recipe: string; date: string; meal_type: string }[]; // Atomic mode: not attempted after a failure
+  // The request got no response (e.g. a timeout) and the slot holds a matching entry, or could not be checked:
+  // Tandoor may have created the entry anyway, so it is neither reported as created nor rolled back
+  unknown: { recipe: string; date: string; meal_type: string; error: string; entry_ids: number[] }[];
+  rolled_back: number[]; // IDs of created entries deleted again
+  rollback_failed: { id: number; error: string }[];
+}
+
+function mealPlanLabel(payload: TandoorMealPlanInput): { recipe: string; date: string; meal_type: string } {
+  return { recipe: payload.recipe.name, date: payload.from_date.split('T')[0], meal_type: payload.meal_type.name };
+}
+
+// "2026-03-02 Dinner: Lasagne", or just the recipe for entries that failed before they had a slot
+function mealPlanFailureItem(failure: MealPlanCreationResult['failed'][number]): string {
+  return `${[failure.date, failure.meal_type].filter(Boolean).join(' ')}${failure.date ? ': ' : ''}${failure.recipe}`;
+}
+
+// After a POST that got no response, looks for entries in its slot (date, meal type, recipe) that this call did not
+// create. Returns their IDs; an empty list means the entry was not created.
+async function findEntriesInSlot(payload: TandoorMealPlanInput, knownIds: number[]): Promise<number[]> {
+  const date = payload.from_date.split('T')[0];
+  const plans = await fetchMealPlansInRange(date, date);
+  return plans
+    .filter(plan => String(plan.from_date).split('T')[0] === date && plan.meal_type?.id === payload.meal_type.id && plan.recipe?.id === payload.recipe.id)
+    .map(plan => plan.id)
+    .filter(id => !knownIds.includes(id));
+}
+
+// POSTs the entries with bounded concurrency. In atomic mode the first failure stops new requests and every entry
+// created so far is deleted again, so either all entries exist afterwards or none do. A request that got no response
+// may still have created its entry, so its slot is checked before the failure is reported.
+async function createMealPlanEntries(payloads: TandoorMealPlanInput[], atomic: boolean, failed: MealPlanCreationResult['failed'] = []): Promise<MealPlanCreationResult> {
+  const result: MealPlanCreationResult = { atomic, status: 'created', created: [], failed: [...failed], skipped: [], unknown: [], rolled_back: [], rollback_failed: [] };
+  const url = '/api/meal-plan/';
+  const outcomes = await mapSettled(payloads, async payload => {
+    console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+    const response = await apiClient.post(url, payload);
+    console.error(`[API] POST ${url} - Status: ${response.status}`);
+    return response.data;
+  }, { stop_on_error: atomic });
+
+  const noResponse: { payload: TandoorMealPlanInput; error: string }[] = [];
+  outcomes.forEach((outcome, index) => {
+    const payload = payloads[index];
+    const label = mealPlanLabel(payload);
+    if (outcome.status === 'fulfilled') {
+      result.created.push(toMealPlanEntry({ ...payload, id: outcome.value?.id }));
+    } else if (outcome.status === 'rejected') {
+      const err = outcome.reason;
+      const errorDetail = err.response?.data ? ` - API Response: ${JSON.stringify(err.response.data)}` : '';
+      console.error(`[Error] Failed to create meal plan entry ${label.date} ${label.meal_type}: ${label.recipe}: ${err.message}${errorDetail}`);
+      if (axios.isAxiosError(err) && !err.response) noResponse.push({ payload, error: err.message });
+      else result.failed.push({ ...label, error: `${err.message}${errorDetail}` });
+    } else {
+      result.skipped.push(label);
+    }
+  });
+
+  for (const { payload, error } of noResponse) {
+    const label = mealPlanLabel(payload);
+    try {
+      const entryIds = await findEntriesInSlot(payload, result.created.map(entry => entry.id));
+      if (entryIds.length === 0) {
+        result.failed.push({ ...label, error: `${error} (checked: the entry was not created)` });
+      } else {
+        console.warn(`[Warning] Meal plan entry ${label.date} ${label.meal_type}: ${label.recipe} may have been created despite the error (entry IDs: ${entryIds.join(', ')})`);
+        result.unknown.push({ ...label, error, entry_ids: entryIds });
+      }
+    } catch (checkErr: any) {
+      console.error(`[Error] Could not check whether meal plan entry ${label.date} ${label.meal_type}: ${label.recipe} was created:`, checkErr);
+      result.unknown.push({ ...label, error: `${error}; checking the meal plan failed: ${checkErr.message}`, entry_ids: [] });
+    }
+  }
+
+  if (atomic && result.failed.length + result.unknown.length > 0 && result.created.length > 0) {
+    console.error(`[Info] Atomic mode: rolling back ${result.created.length} created meal plan entries`);
+    const deletions = await mapSettled(result.created, async entry => {
+      const deleteUrl = `/api/meal-plan/${entry.id}/`;
+      console.error(`[API] DELETE ${deleteUrl} - Rollback`);
+      const response = await apiClient.delete(deleteUrl);
+      console.error(`[API] DELETE ${deleteUrl} - Status: ${response.status}`);
+    });
+    deletions.forEach((deletion, index) => {
+      const id = result.created[index].id;
+      if (deletion.status === 'fulfilled') result.rolled_back.push(id);
+      else result.rollback_failed.push({ id, error: deletion.status === 'rejected' ? deletion.reason.message : 'not attempted' });
+    });
+    result.created = result.created.filter(entry => !result.rolled_back.includes(entry.id));
+  }
+
+  if (result.unknown.length > 0) result.status = 'unknown';
+  else if (result.failed.length === 0) result.status = 'created';
+  else if (result.rolled_back.length > 0 && result.created.length === 0) result.status = 'rolled_back';
+  else result.status = result.created.length > 0 ? 'partial' : 'failed';
+  return result;
+}
+
+function formatMealPlanCreation(result: MealPlanCreationResult): string {
+  const attempted = result.created.length + result.rolled_back.length + result.failed.length + result.unknown.length + result.skipped.length;
+  const lines: string[] = [];
+  if (result.status === 'rolled_back') {
+    lines.push(`Nothing was added: an entry failed, so the ${result.rolled_back.length} entries created before it were deleted again (atomic mode).`);
+  } else {
+    lines.push(`Created ${result.created.length} of ${attempted} meal plan entries.`);
+  }
+  for (const entry of result.created) lines.push(`- ${entry.from_date} ${entry.meal_type}: ${entry.recipe?.name} (recipe ID ${entry.recipe?.id}) as entry ID ${entry.id}`);
+  if (result.failed.length > 0) {
+    lines.push('', 'Errors encountered:');
+    for (const failure of result.failed) lines.push(`- ${mealPlanFailureItem(failure)}: ${failure.error}`);
+  }
+  if (result.unknown.length > 0) {
+    lines.push('', 'Unknown state: these requests got no response and may have created their entry anyway. Check them with get_meal_plans and remove unwanted entries with delete_tandoor_meal_plan:');
+    for (const entry of result.unknown) {
+      const found = entry.entry_ids.length > 0 ? ` (matching entry IDs: ${entry.entry_ids.join(', ')})` : '';
+      lines.push(`- ${entry.date} ${entry.meal_type}: ${entry.recipe}${found}: ${entry.error}`);
+    }
+  }
+  if (result.skipped.length > 0) {
+    lines.push('', 'Not attempted after the failure:');
+    for (const entry of result.skipped) lines.push(`- ${entry.date} ${entry.meal_type}: ${entry.recipe}`);
+  }
+  if (result.rolled_back.length > 0) lines.push('', `Rolled back (deleted) entry IDs: ${result.rolled_back.join(', ')}`);
+  if (result.rollback_failed.length > 0) {
+    lines.push('', 'Rollback failed; delete these entries with delete_tandoor_meal_plan:');
+    for (const failure of result.rollback_failed) lines.push(`- Entry ID ${failure.id}: ${failure.error}`);
+  }
+  return lines.join('\n');
+}
+
+function mealPlanCreationResult(result: MealPlanCreationResult): ToolResult {
+  return toolResult(formatMealPlanCreation(result), {
+    meal_plans: result.created,
+    created: result.created.map(entry => ({ type: 'meal_plan', id: entry.id, name: entry.recipe?.name })),
+    errors: [
+      ...result.failed.map(failure => ({ item: mealPlanFailureItem(failure), error: failure.error })),
+      ...result.unknown.map(entry => ({ item: `${entry.date} ${entry.meal_type}: ${entry.recipe}`, error: `unknown state: ${entry.error}` })),
+    ],
+    skipped: result.skipped.map(entry => ({ item: `${entry.date} ${entry.meal_type}: ${entry.recipe}`, reason: 'not attempted after the failure (atomic mode)' })),
+    details: { atomic: result.atomic, status: result.status, unknown: result.unknown, rolled_back: result.rolled_back, rollback_failed: result.rollback_failed },
+  });
+}
+
+// Returns the from/to date fields that place an existing entry on a new start date, keeping its length
+function shiftedMealPlanDates(plan: TandoorMealPlan, newStartDate: string): { from_date: string; to_date?: string } {
+  const fromDate = String(plan.from_date).split('T')[0];
+  const dates: { from_date: string; to_date?: string } = { from_date: `${newStartDate}T00:00:00` };
+  if (plan.to_date) {
+    const length = daysBetween(fromDate, String(plan.to_date).split('T')[0]);
+    dates.to_date = `${addDays(newStartDate, length)}T00:00:00`;
+  }
+  return dates;
+}
+
+// --- Cook Log ---
+function todayDate(): string {
+  return new Date().toISOString().split('T')[0];
+}
+
+// Fetches every cook log entry (optionally for one recipe, up to MAX_COOK_LOG_ENTRIES), sorted newest first
+async function fetchCookLog(recipeId?: number): Promise<PagedResult<CookLogEntry>> {
+  const url = recipeId !== undefined ? `/api/cook-log/?recipe=${recipeId}` : '/api/cook-log/';
+  // Statistics and duplicate checks need the whole log, not just the first MAX_ALL_RESULTS entries
+  const result = await fetchPaged<CookLogEntry>(url, { all: true, max_results: MAX_COOK_LOG_ENTRIES }, 'cook log');
+  result.results.sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)));
+  return result;
+}
+
+// Looks up recipe names for cook log entries (which only carry the recipe ID); deleted recipes keep a placeholder
+async function fetchRecipeNames(recipeIds: number[]): Promise<Map<number, string>> {
+  const names = new Map<number, string>();
+  for (const id of new Set(recipeIds)) {
+    const url = `/api/recipe/${id}/`;
+    try {
+      console.error(`[API] GET ${url} - Fetching recipe name`);
+      const response = await apiClient.get(url);
+      console.error(`[API] GET ${url} - Status: ${response.status}`);
+      names.set(id, response.data.name);
+    } catch (err: any) {
+      console.warn(`[Warning] Could not fetch recipe ${id}: ${err.message}`);
+      names.set(id, 'Unknown recipe');
+    }
+  }
+  return names;
+}
+
+function formatCookLogEntry(entry: CookLogEntry, names: Map<number, string>): string {
+  const details = [`${cookLogDate(entry)}: ${names.get(entry.recipe) || 'Unknown recipe'} (recipe ID ${entry.recipe})`];
+  if (entry.servings) details.push(`${entry.servings} servings`);
+  if (entry.rating) details.push(`rating ${entry.rating}/5`);
+  return `ID: ${entry.id} - ${details.join(', ')}${entry.comment ? `\n  Comment: ${entry.comment}` : ''}`;
+}
+
+function formatRecipeCookStats(stats: RecipeCookStats, names: Map<number, string>): string {
+  const rating = stats.average_rating !== null ? `, avg rating ${stats.average_rating}/5 (${stats.rating_count} rated)` : '';
+  return `- ${names.get(stats.recipe_id) || 'Unknown recipe'} (ID: ${stats.recipe_id}): cooked ${stats.times_cooked}x, last on ${stats.last_cooked} (${stats.days_since_cooked} days ago)${rating}`;
+}
+
+// --- Pantry ---
+// How many search results suggest_recipes_from_pantry inspects in detail (one request each)
+const MAX_PANTRY_CANDIDATES = 50;
+// On-hand food IDs per recipe search, so a large pantry does not produce an over-long query string
+const PANTRY_FOODS_PER_QUERY = 50;
+
+// Resolves a food from a free-text pantry list, retrying plain plurals in singular form ("onions" -> "onion")
+async function resolvePantryFood(name: string): Promise<ResolvedEntity<TandoorFood>> {
+  try {
+    return await resolveByName('food', name);
+  } catch (err: any) {
+    if (!(err instanceof NameResolutionError) || err.reason !== 'not_found' || !/s$/i.test(name)) throw err;
+    const singulars = [name.replace(/s$/i, ''), name.replace(/es$/i, '')].filter((singular, index, all) => singular !== name && all.indexOf(singular) === index);
+    for (const singular of singulars) {
+      try {
+        return await resolveByName('food', singular);
+      } catch (retryErr: any) {
+        if (!(retryErr instanceof NameResolutionError) || retryErr.reason !== 'not_found') throw retryErr;
+      }
+    }
+    throw err;
+  }
+}
+
+async function setFoodOnhand(foodId: number, onhand: boolean): Promise<TandoorFood> {
+  const url = `/api/food/${foodId}/`;
+  const payload = { food_onhand: onhand };
+  console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+  const response = await apiClient.patch(url, payload);
+  console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+  return response.data;
+}
+
+// The food list endpoint cannot filter by on-hand status, so every food is fetched and filtered here
+async function fetchPantry(): Promise<PagedResult<TandoorFood>> {
+  const foods = await fetchPaged<TandoorFood>('/api/food/', { all: true }, 'foods for pantry');
+  return { ...foods, results: foods.results.filter(food => food.food_onhand).sort((a, b) => a.name.localeCompare(b.name)) };
+}
+
+// Splits a recipe's ingredients into on-hand and missing foods; foods ignored for shopping (salt, water) count as on hand
+function pantryCoverage(recipe: TandoorRecipe): { onhand: string[]; missing: string[] } {
+  const onhand = new Set<string>();
+  const missing = new Set<string>();
+  for (const step of recipe.steps || []) {
+    for (const ing of step.ingredients || []) {
+      if (ing.is_header || !ing.food) continue;
+      if (ing.food.food_onhand || ing.food.ignore_shopping) onhand.add(ing.food.name);
+      else missing.add(ing.food.name);
+    }
+  }
+  return { onhand: Array.from(onhand), missing: Array.from(missing) };
+}
+
+// --- Food, Unit & Keyword Management ---
+type TaxonomyKind = 'food' | 'unit' | 'keyword';
+
+// Resolves a tool argument, reporting unknown or ambiguous names as invalid parameters
+async function resolveArgument<K extends ResolvableKind>(kind: K, ref: unknown, options: ResolveOptions = {}): Promise<ResolvedEntity<ResolvableEntities[K]>> {
+  if (typeof ref !== 'string' && typeof ref !== 'number') {
+    throw new McpError(ErrorCode.InvalidParams, `Missing or invalid ${kind} (name or ID).`);
+  }
+  try {
+    return await resolveByName(kind, ref, options);
+  } catch (err: any) {
+    if (err instanceof NameResolutionError) {
+      throw new McpError(ErrorCode.InvalidParams, err.message);
+    }
+    throw err;
+  }
+}
+
+// Builds the create/update payload from tool arguments; only the fields that were passed are included.
+// Callers resolve the tree parent before this, since it may create a supermarket category.
+async function buildTaxonomyFields(kind: TaxonomyKind, args: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const fields: Record<string, unknown> = {};
+  const textFields = kind === 'unit' ? ['name', 'plural_name', 'description', 'base_unit'] : kind === 'food' ? ['name', 'plural_name', 'description'] : ['name', 'description', 'icon'];
+  for (const field of textFields) {
+    if (args[field] !== undefined) fields[field] = args[field];
+  }
+  if (kind !== 'food') return fields;
+
+  for (const field of ['ignore_shopping', 'substitute_siblings', 'substitute_children']) {
+    if (args[field] !== undefined) fields[field] = args[field] === true;
+  }
+  if (args.substitutes !== undefined) {
+    if (!Array.isArray(args.substitutes)) {
+      throw new McpError(ErrorCode.InvalidParams, "substitutes must be an array of food names or IDs.");
+    }
+    const substitutes: TandoorNamedObject[] = [];
+    for (const ref of args.substitutes) {
+      const food = await resolveArgument('food', ref);
+      substitutes.push({ id: food.id, name: food.name });
+    }
+    fields.substitute = substitutes;
+  }
+  // Resolved last: an unknown category is created, so every other reference has to be valid by now
+  if (args.supermarket_category !== undefined) {
+    if (args.supermarket_category === null || args.supermarket_category === '') {
+      fields.supermarket_category = null;
+    } else {
+      const category = await resolveArgument('supermarket category', args.supermarket_category, { create: true });
+      fields.supermarket_category = { id: category.id, name: category.name };
+    }
+  }
+  return fields;
+}
+
+// Resolves the `parent` argument of a food or keyword: null means the top level (null or 0 was passed)
+async function resolveTreeParent(kind: 'food' | 'keyword', parentRef: unknown, id?: number): Promise<ResolvedEntity | null> {
+  const parent = parentRef === null || parentRef === 0 ? null : await resolveArgument(kind, parentRef);
+  if (parent && parent.id === id) {
+    throw new McpError(ErrorCode.InvalidParams, `A ${kind} cannot be its own parent.`);
+  }
+  return parent;
+}
+
+// Places a food or keyword in the tree: under `parent`, or at the top level when it is null
+async function moveInTree(kind: 'food' | 'keyword', id: number, parent: ResolvedEntity | null): Promise<string> {
+  const url = `/api/${kind}/${id}/move/${parent ? parent.id : 0}/`;
+  console.error(`[API] PUT ${url} - Moving ${kind}`);
+  const response = await apiClient.put(url);
+  console.error(`[API] PUT ${url} - Status: ${response.status}`);
+  return parent ? `moved under "${parent.name}" (ID: ${parent.id})` : 'moved to the top level';
+}
+
+type TaxonomyEntry = TandoorFood | TandoorUnit | TandoorKeyword;
+
+function describeTaxonomyEntry(kind: TaxonomyKind, entry: TaxonomyEntry): string {
+  const plural = 'plural_name' in entry && entry.plural_name ? ` (plural: ${entry.plural_name})` : '';
+  const lines = [`ID: ${entry.id} - Name: ${entry.name}${plural}`];
+  if ('full_name' in entry && entry.full_name && entry.full_name !== entry.name) lines.push(`Path: ${entry.full_name}`);
+  if (entry.description) lines.push(`Description: ${entry.description}`);
+  if (kind === 'unit') {
+    const unit = entry as TandoorUnit;
+    if (unit.base_unit) lines.push(`Base unit: ${unit.base_unit}`);
+  }
+  if (kind === 'keyword') {
+    const keyword = entry as TandoorKeyword;
+    if (keyword.icon) lines.push(`Icon: ${keyword.icon}`);
+  }
+  if (kind === 'food') {
+    const food = entry as TandoorFood;
+    if (food.supermarket_category?.name) lines.push(`Supermarket category: ${food.supermarket_category.name}`);
+    const substitutes = (food.substitute || []).map(sub => sub.name);
+    if (substitutes.length > 0) lines.push(`Substitutes: ${substitutes.join(', ')}`);
+    const flags = [food.substitute_siblings && 'siblings are substitutes', food.substitute_children && 'children are substitutes', food.ignore_shopping && 'ignored for shopping', food.food_onhand && 'on hand'].filter(Boolean);
+    if (flags.length > 0) lines.push(`Flags: ${flags.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+// --- Recipe Books ---
+// Entries linking recipes to a book ({ id, book, recipe, recipe_content })
+async function fetchBookEntries(bookId: number): Promise<TandoorRecipeBookEntry[]> {
+  return (await fetchPaged<TandoorRecipeBookEntry>(`/api/recipe-book-entry/?book=${bookId}`, { all: true }, 'recipe book entries')).results
+    .filter(entry => (typeof entry.book === 'number' ? entry.book : entry.book?.id) === bookId);
+}
+
+// Resolves a list of recipe names/IDs, collecting lookup failures instead of stopping at the first one
+async function resolveRecipeList(refs: unknown, options: ResolveOptions = {}): Promise<{ recipes: ResolvedEntity[]; errors: ToolError[] }> {
+  if (!Array.isArray(refs) || refs.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "recipes must be a non-empty array of recipe names or IDs.");
+  }
+  const recipes: ResolvedEntity[] = [];
+  const errors: ToolError[] = [];
+  for (const ref of refs) {
+    try {
+      const recipe = await resolveArgument('recipe', ref, options);
+      if (!recipes.some(r => r.id === recipe.id)) recipes.push(recipe);
+    } catch (err: any) {
+      errors.push({ item: String(ref), error: err.message });
+    }
+  }
+  return { recipes, errors };
+}
+
+// --- Shopping List Batches ---
+interface ShoppingItemInput {
+  food: string | number;
+  amount?: string | number;
+  unit?: string | number | null;
+  note?: string;
+}
+
+// Splits a free-text grocery list into items: one per line, or comma-separated when it is a single line
+function parseGroceryText(text: string): ShoppingItemInput[] {
+  const lines = text.includes('\n') ? text.split('\n') : text.split(/[,;]/);
+  return lines
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const parsed = parseIngredientLine(line);
+      // A line that is only an amount and a unit ("2 cans") is kept as the food name
+      if (!parsed.food) return { food: line };
+      const item: ShoppingItemInput = { food: parsed.food, unit: parsed.unit };
+      if (parsed.amount !== null) item.amount = formatAmount(parsed.amount);
+      if (parsed.note) item.note = parsed.note;
+      return item;
+    });
+}
+
+// Resolves a unit for a shopping list item; parsed abbreviations ("tbsp") also match the long forms Tandoor stores
+async function resolveShoppingUnit(ref: string | number, create: boolean): Promise<ResolvedEntity<TandoorUnit>> {
+  const aliases = typeof ref === 'string' ? unitAliases(normalizeUnit(ref) ?? ref) : [];
+  return resolveByName('unit', ref, { create, aliases });
+}
+
+// Resolves a food for a shopping list item, trying the singular of plain plurals before creating anything
+async function resolveShoppingFood(ref: string | number, create: boolean): Promise<ResolvedEntity<TandoorFood>> {
+  if (typeof ref === 'number') return resolveByName('food', ref);
+  try {
+    return await resolvePantryFood(ref);
+  } catch (err: any) {
+    if (create && err instanceof NameResolutionError && err.reason === 'not_found') {
+      return resolveByName('food', ref, { create: true });
+    }
+    throw err;
+  }
+}
+
+function describeShoppingEntry(entry: TandoorShoppingEntry): string {
+  return [entry.amount !== undefined && entry.amount !== null ? formatAmount(Number(entry.amount)) : '', entry.unit?.name, entry.food?.name || '?']
+    .filter(Boolean)
+    .join(' ');
+}
+
+// Meal plans whose ingredients are on the shopping list: meal plan ID -> the shopping list recipe holding its entries.
+// A shopping list recipe whose entries were all removed does not count, so the meal plan can be added again.
+async function fetchMealPlansOnShoppingList(): Promise<Map<number, number>> {
+  const { results: listRecipes } = await fetchPaged<TandoorShoppingListRecipe>('/api/shopping-list-recipe/', { all: true }, 'shopping list recipes');
+  const { results: entries } = await fetchPaged<TandoorShoppingEntry>('/api/shopping-list-entry/?checked=both', { all: true }, 'shopping list');
+  const withEntries = new Set(entries.map(entry => entry.list_recipe).filter((id): id is number => typeof id === 'number'));
+  const onList = new Map<number, number>();
+  for (const listRecipe of listRecipes) {
+    if (typeof listRecipe.mealplan === 'number' && withEntries.has(listRecipe.id)) onList.set(listRecipe.mealplan, listRecipe.id);
+  }
+  return onList;
+}
+
+// Tandoor unit conversions (e.g. "1 clove = 5 g"); older Tandoor versions do not have the endpoint
+async function fetchUnitConversions(): Promise<TandoorUnitConversion[]> {
+  const url = '/api/unit-conversion/';
+  console.error(`[API] GET ${url} - Fetching unit conversions`);
+  try {
+    const response = await apiClient.get(url);
+    console.error(`[API] GET ${url} - Status: ${response.status}`);
+    return response.data.results || response.data || [];
+  } catch (err: any) {
+    console.warn(`[Warning] Could not fetch unit conversions, using standard conversions only: ${err.message}`);
+    return [];
+  }
+}
+
+function formatAggregatedShoppingList(items: AggregatedItem[]): string {
+  return groupByCategory(items).map(({ category, items: categoryItems }) =>
+    `${category}:\n${categoryItems.map(item => {
+      const amounts = item.amounts
+        .map(a => [formatAmount(a.amount), a.unit].filter(Boolean).join(' '))
+        .join(' + ');
+      const recipes = item.recipes.length > 0 ? ` (for: ${item.recipes.join(', ')})` : '';
+      return `- ${amounts} ${item.food}${item.checked ? ' [Checked]' : ''}${recipes} [entry IDs: ${item.entry_ids.join(', ')}]`;
+    }).join('\n')}`
+  ).join('\n\n');
+}
+
+// Builds a create payload from a locally parsed schema.org draft; all ingredients go on the first step
+async function draftToRecipePayload(draft: RecipeDraft): Promise<TandoorRecipeInput> {
+  const stepArguments: RecipeStepArgument[] = draft.steps.length > 0
+    ? draft.steps.map((step, index) => ({ name: step.name, instruction: step.instruction, ingredients: index === 0 ? draft.ingredients : [] }))
+    : [{ instruction: '', ingredients: draft.ingredients }];
+  const payload: TandoorRecipeInput = {
+    name: draft.name,
+    description: draft.description,
+    servings: draft.servings,
+    steps: await buildSteps(stepArguments),
+  };
+  if (draft.keywords.length > 0) payload.keywords = draft.keywords.map(k => ({ name: k }));
+  if (draft.working_time !== undefined) payload.working_time = draft.working_time;
+  if (draft.waiting_time !== undefined) payload.waiting_time = draft.waiting_time;
+  if (draft.source_url) payload.source_url = draft.source_url;
+  return payload;
+}
+
+// Builds a create payload from the recipe_json returned by Tandoor's /api/recipe-from-source/ endpoint
+function tandoorSourceToRecipePayload(recipeJson: TandoorRecipe): TandoorRecipeInput {
+  return {
+    name: recipeJson.name || 'Imported Recipe',
+    description: recipeJson.description || undefined,
+    servings: recipeJson.servings || undefined,
+    keywords: (recipeJson.keywords || []).map(k => ({ name: k.name || k.label || '' })).filter((k: TandoorKeywordInput) => !!k.name),
+    working_time: recipeJson.working_time || undefined,
+    waiting_time: recipeJson.waiting_time || undefined,
+    source_url: recipeJson.source_url || undefined,
+    steps: (recipeJson.steps || []).map((step, index) => ({
+      instruction: step.instruction || '',
+      order: index,
+      ingredients: (step.ingredients || []).map(ing => ({
+        food: ing.food?.name ? { name: ing.food.name } : null,
+        unit: ing.unit?.name ? { name: ing.unit.name } : null,
+        amount: String(ing.amount ?? 0),
+        note: ing.note || undefined,
+        original_text: ing.original_text || undefined,
+        is_header: ing.is_header || undefined,
+      })),
+    })),
+  };
+}
+
+interface RecipeSearch {
+  queryParams: string[];
+  localFilters: ((recipe: TandoorRecipe) => boolean)[]; // Filters the API cannot express, applied to the fetched results
+}
+
+// Translates get_recipes arguments into /api/recipe/ query parameters. Date filters use Tandoor's convention of a
+// plain date for "on or after" and a leading '-' for "on or before"; each field takes only one, so a second bound is
+// applied locally.
+function buildRecipeSearch(args: Record<string, unknown>): RecipeSearch {
+  const queryParams: string[] = [];
+  const localFilters: ((recipe: TandoorRecipe) => boolean)[] = [];
+
+  if (args.query) queryParams.push(`query=${encodeURIComponent(args.query as string)}`);
+  if (args.rating !== undefined) queryParams.push(`rating=${args.rating}`);
+  if (args.makenow === true) queryParams.push('makenow=true');
+
+  const idParams: [string, string][] = [['keywords', 'keywords_or'], ['foods', 'foods_or']];
+  for (const base of ['keywords', 'foods', 'books']) {
+    for (const variant of ['or', 'and', 'or_not', 'and_not']) {
+      idParams.push([`${base}_${variant}`, `${base}_${variant}`]);
+    }
+  }
+  idParams.push(['units', 'units']);
+  for (const [argName, param] of idParams) {
+    const ids = args[argName];
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'number')) {
+      throw new McpError(ErrorCode.InvalidParams, `${argName} must be an array of IDs.`);
+    }
+    ids.forEach(id => queryParams.push(`${param}=${id}`));
+  }
+
+  const dateFilters: [string, string, 'last_cooked' | 'created_at' | 'updated_at'][] = [['cooked', 'cookedon', 'last_cooked'], ['created', 'createdon', 'created_at'], ['updated', 'updatedon', 'updated_at']];
+  for (const [name, param, field] of dateFilters) {
+    const after = args[`${name}_after`] as string | undefined;
+    const before = args[`${name}_before`] as string | undefined;
+    for (const [argName, value] of [[`${name}_after`, after], [`${name}_before`, before]]) {
+      if (value !== undefined && !DATE_REGEX.test(value)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid ${argName} format. Use YYYY-MM-DD.`);
+      }
+    }
+    if (after) queryParams.push(`${param}=${after}`);
+    if (before && !after) queryParams.push(`${param}=-${before}`);
+    if (before && after) localFilters.push(recipe => !!recipe[field] && String(recipe[field]).split('T')[0] <= before);
+  }
+
+  for (const field of ['not_cooked_in_days', 'max_total_time']) {
+    const value = args[field];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isInteger(value) || value < 0)) {
+      throw new McpError(ErrorCode.InvalidParams, `${field} must be a non-negative integer.`);
+    }
+  }
+  if (args.not_cooked_in_days !== undefined) {
+    const days = args.not_cooked_in_days as number;
+    const cutoff = addDays(todayDate(), -days);
+    localFilters.push(recipe => !recipe.last_cooked || String(recipe.last_cooked).split('T')[0] < cutoff);
+  }
+  if (args.max_total_time !== undefined) {
+    const maxTime = args.max_total_time as number;
+    localFilters.push(recipe => (recipe.working_time || 0) + (recipe.waiting_time || 0) <= maxTime);
+  }
+
+  if (args.sort_order !== undefined) {
+    if (!RECIPE_SORT_ORDERS.includes(args.sort_order as string)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid sort_order. Use one of: ${RECIPE_SORT_ORDERS.join(', ')}.`);
+    }
+    queryParams.push(`sort_order=${args.sort_order}`);
+  }
+  if (args.random === true) queryParams.push('random=true');
+
+  return { queryParams, localFilters };
+}
+
+// Runs a recipe search; with local filters every page is fetched, filtered and then paged locally
+async function searchRecipes(args: Record<string, unknown>, pagination: PaginationOptions): Promise<PagedResult<TandoorRecipe>> {
+  const { queryParams, localFilters } = buildRecipeSearch(args);
+  const url = '/api/recipe/' + (queryParams.length > 0 ? '?' + queryParams.join('&') : '');
+  if (localFilters.length === 0) {
+    return fetchPaged<TandoorRecipe>(url, pagination, 'recipes');
+  }
+
+  const all = await fetchPaged<TandoorRecipe>(url, { all: true }, 'recipes');
+  const filtered = all.results.filter(recipe => localFilters.every(filter => filter(recipe)));
+  console.error(`[Info] ${filtered.length} of ${all.results.length} recipes passed local filters`);
+  // Beyond MAX_ALL_RESULTS the remaining recipes were never checked, so the count is only a lower bound
+  if (all.truncated) {
+    console.warn(`[Warning] Local filters only checked ${all.results.length} of ${all.count} recipes.`);
+  }
+  const scanned = all.truncated ? { checked: all.results.length, total: all.count } : undefined;
+  if (pagination.all) {
+    return { ...all, results: filtered, count: filtered.length, page_size: filtered.length, has_more: false, scanned };
+  }
+  const pageSize = pagination.page_size ?? 10;
+  const page = pagination.page ?? 1;
+  const start = (page - 1) * pageSize;
+  return {
+    results: filtered.slice(start, start + pageSize),
+    count: filtered.length,
+    page,
+    page_size: pageSize,
+    has_more: start + pageSize < filtered.length,
+    truncated: all.truncated,
+    scanned,
+  };
+}
+
+function parseRecipeFormat(value: unknown, fallback: RecipeFormat): RecipeFormat {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'string' || !RECIPE_FORMATS.includes(value as RecipeFormat)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid format. Use one of: ${RECIPE_FORMATS.join(', ')}.`);
+  }
+  return value as RecipeFormat;
+}
+
+// Shared input properties for list tools
+const PAGINATION_PROPERTIES = {
+  page: { type: "integer", minimum: 1, description: "Page number to return (default: 1)." },
+  page_size: { type: "integer", minimum: 1, description: "Results per page (default: Tandoor's page size)." },
+  all: { type: "boolean", description: `Follow pagination and return all results, up to ${MAX_ALL_RESULTS} (default: false).`, default: false },
+};
+
+// AND/OR/NOT variants of an ID filter on /api/recipe/ (e.g. keywords_and, foods_or_not)
+function idFilterProperties(name: string, label: string) {
+  const ids = { type: "array", items: { type: "integer" } };
+  return {
+    [`${name}_or`]: { ...ids, description: `${label} IDs: recipe has ANY of them.` },
+    [`${name}_and`]: { ...ids, description: `${label} IDs: recipe has ALL of them.` },
+    [`${name}_or_not`]: { ...ids, description: `${label} IDs: exclude recipes that have ANY of them.` },
+    [`${name}_and_not`]: { ...ids, description: `${label} IDs: exclude recipes that have ALL of them.` },
+  };
+}
+
+const RECIPE_SORT_ORDERS = ["score", "-score", "name", "-name", "lastcooked", "-lastcooked", "rating", "-rating", "times_cooked", "-times_cooked", "created_at", "-created_at", "lastviewed", "-lastviewed"];
+
+// Tools that write to Tandoor; they all accept dry_run
+const MUTATING_TOOLS = new Set([
+  "create_tandoor_recipe", "import_recipe", "update_tandoor_recipe", "duplicate_tandoor_recipe", "delete_tandoor_recipe",
+  "create_recipe_book", "update_recipe_book", "delete_recipe_book", "add_recipes_to_book", "remove_recipes_from_book",
+  "create_tandoor_meal_plan", "commit_meal_plan", "update_tandoor_meal_plan", "move_tandoor_meal_plan", "delete_tandoor_meal_plan",
+  "create_food", "update_food", "delete_food", "merge_foods", "create_unit", "update_unit", "delete_unit", "merge_units",
+  "create_keyword", "update_keyword", "delete_keyword",
+  "add_shopping_list_item", "update_shopping_list_item", "remove_shopping_list_item", "add_meal_plan_to_shopping_list", "consolidate_shopping_list",
+  "add_shopping_list_items", "update_shopping_list_items",
+  "set_food_onhand", "update_pantry_from_text", "log_cooked_recipe", "log_cooked_from_meal_plans",
+]);
+
+const DRY_RUN_PROPERTY = {
+  type: "boolean",
+  description: "Resolve and validate everything and return the exact requests that would be sent, without changing anything (default: false).",
+  default: false,
+};
+
+// Adds the dry_run argument to every mutating tool's schema
+function withDryRunProperty<T extends { name: string; inputSchema: { properties?: Record<string, unknown> } }>(tools: T[]): T[] {
+  return tools.map(tool => MUTATING_TOOLS.has(tool.name)
+    ? { ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, dry_run: DRY_RUN_PROPERTY } } }
+    : tool);
+}
+
+const OUTPUT_PROPERTY = {
+  type: "string",
+  enum: OUTPUT_MODES,
+  description: "text: only the readable summary; json: only the structured result (recipes, meal plan entries, shopping items, created IDs, errors) as JSON text; both (default): the summary followed by the JSON text. The structured result is also sent as structuredContent.",
+  default: "both",
+};
+
+// Adds the output argument to every tool's schema
+function withOutputProperty<T extends { name: string; inputSchema: { properties?: Record<string, unknown> } }>(tools: T[]): T[] {
+  return tools.map(tool => ({ ...tool, inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, output: OUTPUT_PROPERTY } } }));
+}
+
+// --- Tool Definitions ---
+async function listTools() {
+  console.error("[Info] Listing tools");
+  return {
+    tools: withOutputProperty(withDryRunProperty([
+      // --- Existing Tools ---
+      {
+        name: "create_tandoor_recipe",
+        description: "Create a new recipe in Tandoor, either from structured steps or from ingredient/instruction text blocks.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "The name of the recipe." },
+            description: { type: "string", description: "Optional description for the recipe." },
+            servings: { type: "number", description: "Optional number of servings." },
+            keywords: { type: "array", items: { type: "string" }, description: "Optional keyword names to tag the recipe with (created if missing)." },
+            working_time: { type: "number", description: "Optional active working time in minutes." },
+            waiting_time: { type: "number", description: "Optional waiting time (e.g., baking, resting) in minutes." },
+            source_url: { type: "string", description: "Optional URL of the original recipe." },
+            steps: {
+              type: "array",
+              description: "Structured steps, each with its own instruction and ingredients. Takes precedence over ingredients_block/instructions_block.",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string", description: "Optional step name (e.g., 'Sauce')." },
+                  instruction: { type: "string", description: "The instruction text for this step." },
+                  ingredients: { type: "array", items: { type: "string" }, description: "Ingredient lines used in this step (e.g., '2 tbsp olive oil')." },
+                  time: { type: "number", description: "Optional time for this step in minutes." }
+                },
+                required: ["instruction"]
+              }
+            },
+            ingredients_block: { type: "string", description: "A multi-line block of text listing ingredients, one per line (e.g., '1 1/2 cups flour, sifted\\n2 eggs\\nsalt to taste'). Amounts, units, food names and notes are parsed from each line." },
+            instructions_block: { type: "string", description: "A multi-line block of text detailing the recipe instructions." },
+            split_steps: { type: "boolean", description: "Split instructions_block into separate steps at numbered lines ('1.', 'Step 2:') or blank lines (default: false). Ingredients are attached to the first step.", default: false },
+          },
+          required: ["name"],
+        },
+      },
+      {
+        name: "import_recipe",
+        description: "Import a recipe from a web page URL or from pasted HTML / JSON-LD (schema.org Recipe) and create it in Tandoor.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            url: { type: "string", description: "URL of the recipe page to import." },
+            html: { type: "string", description: "Raw HTML of the recipe page, or a schema.org Recipe JSON-LD string (use when the page cannot be fetched)." },
+            parser: { type: "string", enum: ["auto", "tandoor", "local"], description: "'tandoor' uses Tandoor's recipe-from-source importer, 'local' the built-in schema.org parser, 'auto' tries Tandoor first and falls back to local (default: auto).", default: "auto" },
+            name: { type: "string", description: "Optional name overriding the imported one." },
+            servings: { type: "number", description: "Optional servings overriding the imported yield." },
+            keywords: { type: "array", items: { type: "string" }, description: "Optional extra keyword names to add." },
+            import_image: { type: "boolean", description: "Also set the recipe image from the source (default: true).", default: true },
+          },
+          required: [],
+        },
+      },
+      {
+        name: "update_tandoor_recipe",
+        description: "Update an existing recipe. Only the provided fields are changed; steps and keywords replace the existing ones.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "number"], description: "The name or ID of the recipe to update." },
+            name: { type: "string", description: "Optional new name." },
+            description: { type: "string", description: "Optional new description." },
+            servings: { type: "number", description: "Optional new number of servings." },
+            keywords: { type: "array", items: { type: "string" }, description: "Optional keyword names, replacing the current keywords." },
+            working_time: { type: "number", description: "Optional new working time in minutes." },
+            waiting_time: { type: "number", description: "Optional new waiting time in minutes." },
+            source_url: { type: "string", description: "Optional new source URL." },
+            steps: {
+              type: "array",
+              description: "Optional structured steps, replacing all existing steps and their ingredients.",
+              items: {
+                type: "object",
+                properties: {
+                  name: { type: "string", description: "Optional step name." },
+                  instruction: { type: "string", description: "The instruction text for this step." },
+                  ingredients: { type: "array", items: { type: "string" }, description: "Ingredient lines used in this step." },
+                  time: { type: "number", description: "Optional time for this step in minutes." }
+                },
+                required: ["instruction"]
+              }
+            },
+            ingredients_block: { type: "string", description: "Optional multi-line ingredient list replacing the ingredients of the first step (ignored when steps is given)." },
+          },
+          required: ["recipe"],
+        },
+      },
+      {
+        name: "duplicate_tandoor_recipe",
+        description: "Copy an existing recipe (steps, ingredients, keywords) under a new name, e.g. to create a variation.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "number"], description: "The name or ID of the recipe to copy." },
+            new_name: { type: "string", description: "The name of the new recipe." },
+            description: { type: "string", description: "Optional description for the copy (default: the original description)." },
+            servings: { type: "number", description: "Optional number of servings for the copy (ingredient amounts are not rescaled)." },
+          },
+          required: ["recipe", "new_name"],
+        },
+      },
+      {
+        name: "delete_tandoor_recipe",
+        description: "Permanently delete a recipe from Tandoor. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "number"], description: "The name or ID of the recipe to delete." },
+            confirm: { type: "boolean", description: "Must be true to actually delete the recipe (not needed with dry_run)." },
+          },
+          required: ["recipe"],
+        },
+      },
+      {
+        name: "get_recipe_books",
+        description: "List or search recipe books.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Optional search term for the book name." },
+            ...PAGINATION_PROPERTIES
+          },
+          required: []
+        },
+      },
+      {
+        name: "create_recipe_book",
+        description: "Create a new recipe book.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "The book name (e.g. 'Weeknight')." },
+            description: { type: "string", description: "Optional description." }
+          },
+          required: ["name"]
+        },
+      },
+      {
+        name: "update_recipe_book",
+        description: "Rename a recipe book or change its description.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            book: { type: ["string", "integer"], description: "The name or ID of the book." },
+            name: { type: "string", description: "New name." },
+            description: { type: "string", description: "New description." }
+          },
+          required: ["book"]
+        },
+      },
+      {
+        name: "delete_recipe_book",
+        description: "Permanently delete a recipe book (the recipes themselves are kept). Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            book: { type: ["string", "integer"], description: "The name or ID of the book to delete." },
+            confirm: { type: "boolean", description: "Must be true to actually delete the book (not needed with dry_run)." }
+          },
+          required: ["book"]
+        },
+      },
+      {
+        name: "add_recipes_to_book",
+        description: "Add recipes (by name or ID) to a recipe book. Recipes already in the book are skipped.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            book: { type: ["string", "integer"], description: "The name or ID of the book." },
+            recipes: { type: "array", items: { type: ["string", "integer"] }, description: "Recipe names or IDs to add." }
+          },
+          required: ["book", "recipes"]
+        },
+      },
+      {
+        name: "remove_recipes_from_book",
+        description: "Remove recipes (by name or ID) from a recipe book. The recipes themselves are kept. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            book: { type: ["string", "integer"], description: "The name or ID of the book." },
+            recipes: { type: "array", items: { type: ["string", "integer"] }, description: "Recipe names or IDs to remove." }
+          },
+          required: ["book", "recipes"]
+        },
+      },
+      {
+        name: "create_tandoor_meal_plan",
+        description: "Add one or more recipes to the Tandoor meal plan for a specific date and meal type.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                title: { type: "string", description: "Optional title for the meal plan entry." },
+                recipes: {
+                    type: "array",
+                    items: { type: ["string", "number"] }, // Allow recipe names (string) or IDs (number)
+                    description: "An array of recipe names or recipe IDs to add to the plan."
+                },
+                start_date: { type: "string", format: "date", description: "The date for the meal plan entry (YYYY-MM-DD)." },
+                meal_type: { type: "string", description: "The name of the meal type (e.g., 'Dinner', 'Lunch'). Must match an existing meal type in Tandoor." },
+                end_date: { type: "string", format: "date", description: "Optional last date (YYYY-MM-DD) for entries spanning several days, e.g. leftovers." },
+                servings: { type: "number", description: "Optional number of servings for the meal plan entry (default: 1).", default: 1 },
+                note: { type: "string", description: "Optional note for the meal plan entry." },
+                atomic: { type: "boolean", description: "All or nothing: if any recipe cannot be resolved or any entry fails, delete the entries already created (default: false).", default: false },
+            },
+            required: ["recipes", "start_date", "meal_type"],
+        },
+      },
+      {
+        name: "generate_meal_plan",
+        description: "Generate a draft meal plan for a date range: picks recipes for each day and meal type from the recipes matching the constraints, avoiding recent repeats and favoring well-rated recipes. Deterministic for the same inputs and seed. Nothing is saved; pass the returned entries to commit_meal_plan.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: { type: "string", format: "date", description: "First day of the plan (YYYY-MM-DD)." },
+            to_date: { type: "string", format: "date", description: "Last day of the plan (YYYY-MM-DD, default: from_date + 6 days)." },
+            meal_types: { type: "array", items: { type: "string" }, description: "Meal types to plan each day (default: ['Dinner'])." },
+            servings: { type: "integer", minimum: 1, description: "Servings per meal (default: 2).", default: 2 },
+            keywords: { type: "array", items: { type: ["string", "integer"] }, description: "Keywords (names or IDs) every recipe must have." },
+            exclude_keywords: { type: "array", items: { type: ["string", "integer"] }, description: "Keywords (names or IDs) recipes must not have." },
+            query: { type: "string", description: "Optional search text recipes must match." },
+            max_total_time: { type: "integer", minimum: 0, description: "Maximum working + waiting time in minutes." },
+            min_rating: { type: "integer", minimum: 0, maximum: 5, description: "Only recipes rated at least this." },
+            prefer_rating: { type: "integer", minimum: 1, maximum: 5, description: "Pick recipes rated at least this more often (default: higher ratings are preferred gradually)." },
+            no_repeat_days: { type: "integer", minimum: 0, description: "Skip recipes cooked or planned in the N days before from_date (default: 7).", default: 7 },
+            exclude_recipes: { type: "array", items: { type: ["string", "integer"] }, description: "Recipes (names or IDs) never to pick." },
+            skip_planned: { type: "boolean", description: "Leave out slots that already have a meal plan entry for that day and meal type (default: true).", default: true },
+            seed: { type: "integer", description: "Random seed; use a different seed for a different plan with the same constraints (default: derived from the dates)." }
+          },
+          required: ["from_date"]
+        },
+      },
+      {
+        name: "commit_meal_plan",
+        description: "Write a meal plan (e.g. the entries returned by generate_meal_plan) to Tandoor. Every entry is validated before anything is created.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            entries: {
+              type: "array",
+              description: "Meal plan entries to create.",
+              items: {
+                type: "object",
+                properties: {
+                  date: { type: "string", format: "date", description: "Date (YYYY-MM-DD)." },
+                  meal_type: { type: "string", description: "Meal type name (e.g., 'Dinner')." },
+                  recipe: { type: ["string", "integer"], description: "Recipe name or ID." },
+                  servings: { type: "number", description: "Servings (default: 1)." },
+                  title: { type: "string", description: "Optional title." },
+                  note: { type: "string", description: "Optional note." },
+                  end_date: { type: "string", format: "date", description: "Optional last day for multi-day entries (YYYY-MM-DD)." }
+                },
+                required: ["date", "meal_type", "recipe"]
+              }
+            },
+            atomic: { type: "boolean", description: "All or nothing: if any entry fails, delete the entries already created (default: false).", default: false }
+          },
+          required: ["entries"]
+        },
+      },
+      {
+        name: "update_tandoor_meal_plan",
+        description: "Update an existing meal plan entry (date, meal type, servings, title, note or recipe).",
+        inputSchema: {
+            type: "object",
+            properties: {
+                entry_id: { type: "integer", description: "The ID of the meal plan entry to update." },
+                start_date: { type: "string", format: "date", description: "Optional new date (YYYY-MM-DD). Multi-day entries keep their length unless end_date is given." },
+                end_date: { type: "string", format: "date", description: "Optional new last date (YYYY-MM-DD) for multi-day entries." },
+                meal_type: { type: "string", description: "Optional new meal type name (e.g., 'Lunch')." },
+                servings: { type: "number", description: "Optional new number of servings." },
+                title: { type: "string", description: "Optional new title." },
+                note: { type: "string", description: "Optional new note." },
+                recipe: { type: ["string", "number"], description: "Optional new recipe name or ID." },
+            },
+            required: ["entry_id"],
+        },
+      },
+      {
+        name: "move_tandoor_meal_plan",
+        description: "Move a meal plan entry to another day (and optionally meal type), or swap the days of two entries.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                entry_id: { type: "integer", description: "The ID of the meal plan entry to move." },
+                new_date: { type: "string", format: "date", description: "The date (YYYY-MM-DD) to move the entry to. Required unless swap_with is given." },
+                meal_type: { type: "string", description: "Optional meal type name to move the entry to." },
+                swap_with: { type: "integer", description: "Optional ID of another entry; the two entries exchange their dates and meal types." },
+            },
+            required: ["entry_id"],
+        },
+      },
+      {
+        name: "delete_tandoor_meal_plan",
+        description: "Delete meal plan entries by ID, or all entries in a date range (optionally limited to one meal type). Deleting a range requires confirm: true.",
+        inputSchema: {
+            type: "object",
+            properties: {
+                entry_ids: { type: "array", items: { type: "integer" }, description: "IDs of the meal plan entries to delete." },
+                from_date: { type: "string", format: "date", description: "Start date (YYYY-MM-DD, inclusive) of the range to delete." },
+                to_date: { type: "string", format: "date", description: "End date (YYYY-MM-DD, inclusive) of the range to delete." },
+                meal_type_id: { type: "integer", description: "Optional Meal Type ID to limit a range deletion to." },
+                confirm: { type: "boolean", description: "Must be true to delete a date range (not needed with entry_ids or dry_run)." },
+            },
+            required: [],
+        },
+      },
+      {
+        name: "get_recipes",
+        description: "Search for recipes in Tandoor based on various criteria, e.g. 'vegetarian AND quick, without nuts, not cooked in the last 14 days'.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Search term for recipe names." },
+            keywords: { type: "array", items: { type: "integer" }, description: "Array of Keyword IDs (match ANY). Same as keywords_or." },
+            ...idFilterProperties("keywords", "Keyword"),
+            foods: { type: "array", items: { type: "integer" }, description: "Array of Food IDs (match ANY). Same as foods_or." },
+            ...idFilterProperties("foods", "Food"),
+            ...idFilterProperties("books", "Recipe book"),
+            book: { type: ["string", "integer"], description: "Only recipes in this recipe book (name or ID)." },
+            units: { type: "array", items: { type: "integer" }, description: "Unit IDs: recipe uses ANY of these units." },
+            rating: { type: "integer", minimum: 0, maximum: 5, description: "Minimum rating (0-5)." },
+            max_total_time: { type: "integer", minimum: 0, description: "Maximum working + waiting time in minutes." },
+            makenow: { type: "boolean", description: "Only recipes whose ingredients are all on hand (or have an on-hand substitute).", default: false },
+            cooked_after: { type: "string", format: "date", description: "Only recipes last cooked on or after this date (YYYY-MM-DD)." },
+            cooked_before: { type: "string", format: "date", description: "Only recipes last cooked on or before this date (YYYY-MM-DD)." },
+            not_cooked_in_days: { type: "integer", minimum: 0, description: "Exclude recipes cooked within the last N days (never-cooked recipes are included)." },
+            created_after: { type: "string", format: "date", description: "Only recipes created on or after this date (YYYY-MM-DD)." },
+            created_before: { type: "string", format: "date", description: "Only recipes created on or before this date (YYYY-MM-DD)." },
+            updated_after: { type: "string", format: "date", description: "Only recipes updated on or after this date (YYYY-MM-DD)." },
+            updated_before: { type: "string", format: "date", description: "Only recipes updated on or before this date (YYYY-MM-DD)." },
+            sort_order: { type: "string", enum: RECIPE_SORT_ORDERS, description: "Sort order; prefix with '-' for descending (e.g. '-rating', 'lastcooked')." },
+            random: { type: "boolean", description: "Return recipes in random order, e.g. for suggestions (default: false).", default: false },
+            limit: { type: "integer", description: "Max number of recipes to return per page (default: 10). Same as page_size.", default: 10 },
+            ...PAGINATION_PROPERTIES,
+            format: { type: "string", enum: ["markdown", "compact", "json"], description: "Output format per recipe: 'compact' (short summary), 'markdown' (full recipe, fetches each recipe's details) or 'json' (raw API data). Default: compact.", default: "compact" }
+          },
+          required: []
+        },
+      },
+      {
+        name: "get_meal_plans",
+        description: "Retrieve meal plan entries from Tandoor, optionally filtering by date range and meal type.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: { type: "string", format: "date", description: "Optional start date (YYYY-MM-DD) filter (inclusive)." },
+            to_date: { type: "string", format: "date", description: "Optional end date (YYYY-MM-DD) filter (inclusive)." },
+            meal_type_id: { type: "integer", description: "Optional Meal Type ID to filter by." }
+          },
+          required: []
+        },
+      },
+      // --- New Tools ---
+      {
+        name: "get_recipe_details",
+        description: "Retrieve the full details of a specific recipe.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe_id: { type: "integer", description: "The ID of the recipe to retrieve." },
+            format: { type: "string", enum: ["markdown", "compact", "json"], description: "Output format: 'markdown' (readable recipe with ingredients per step and numbered instructions), 'compact' (short summary) or 'json' (raw API data). Default: json.", default: "json" }
+          },
+          required: ["recipe_id"]
+        },
+      },
+      {
+        name: "scale_recipe",
+        description: "Show a recipe scaled to a target number of servings or a target amount of one ingredient, optionally converted to metric or imperial units and rounded to kitchen measures.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "number"], description: "The name or ID of the recipe." },
+            servings: { type: "number", description: "Target number of servings. Cannot be combined with ingredient." },
+            ingredient: { type: "string", description: "Name of a key ingredient to scale by (e.g., 'chicken breast'), used with ingredient_amount. The servings follow from the scale factor." },
+            ingredient_amount: { type: "number", description: "The amount of the key ingredient you have or want to use." },
+            ingredient_unit: { type: "string", description: "Optional unit of ingredient_amount (e.g., 'kg'); converted to the recipe's unit when compatible." },
+            unit_system: { type: "string", enum: ["original", "metric", "imperial"], description: "Convert mass and volume units to this system (default: original)." },
+            round: { type: "boolean", description: "Round amounts to sensible kitchen measures (default: true).", default: true }
+          },
+          required: ["recipe"]
+        },
+      },
+      {
+        name: "get_meal_types",
+        description: "List all available meal types in Tandoor.",
+        inputSchema: { type: "object", properties: { ...PAGINATION_PROPERTIES }, required: [] }
+      },
+      {
+        name: "get_keywords",
+        description: "List or search for keywords.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Optional search term for keyword name." },
+            root: { type: "integer", description: "Optional ID to get first-level children (0 for root)." },
+            tree: { type: "integer", description: "Optional ID to get all children in a tree." },
+            ...PAGINATION_PROPERTIES
+          },
+          required: []
+        },
+      },
+      {
+        name: "get_foods",
+        description: "List or search for foods.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Optional search term for food name." },
+            root: { type: "integer", description: "Optional ID to get first-level children (0 for root)." },
+            tree: { type: "integer", description: "Optional ID to get all children in a tree." },
+            ...PAGINATION_PROPERTIES
+          },
+          required: []
+        },
+      },
+      {
+        name: "get_units",
+        description: "List or search for units.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            query: { type: "string", description: "Optional search term for unit name." },
+            ...PAGINATION_PROPERTIES
+          },
+          required: []
+        },
+      },
+      {
+        name: "clear_cache",
+        description: "Clear the server's cache of meal types, units, foods, keywords, supermarket categories and recipes, e.g. after changes in the Tandoor web UI. Reports cache hits and misses.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            groups: { type: "array", items: { type: "string", enum: CACHE_GROUPS }, description: "Only clear these groups (default: everything)." }
+          },
+          required: []
+        },
+      },
+      {
+        name: "create_food",
+        description: "Create a new food (with optional tree parent, supermarket category and substitutes). Fails if a food with the same name already exists.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "The food name." },
+            plural_name: { type: "string", description: "Plural name (e.g. 'onions')." },
+            description: { type: "string", description: "Description." },
+            parent: { type: ["string", "integer", "null"], description: "Parent food (name or ID) to place it under in the food tree; null or 0 moves it to the top level." },
+            supermarket_category: { type: ["string", "integer", "null"], description: "Supermarket category name or ID (created if missing); null clears it." },
+            substitutes: { type: "array", items: { type: ["string", "integer"] }, description: "Foods (names or IDs) that can replace this food. Replaces the existing list." },
+            substitute_siblings: { type: "boolean", description: "Foods with the same parent can replace this food." },
+            substitute_children: { type: "boolean", description: "Child foods can replace this food." },
+            ignore_shopping: { type: "boolean", description: "Never add this food to the shopping list (e.g. water, salt)." }
+          },
+          required: ["name"]
+        },
+      },
+      {
+        name: "update_food",
+        description: "Update an existing food. Only the given fields are changed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            food: { type: ["string", "integer"], description: "The name or ID of the food to update." },
+            name: { type: "string", description: "New name." },
+            plural_name: { type: "string", description: "Plural name (e.g. 'onions')." },
+            description: { type: "string", description: "Description." },
+            parent: { type: ["string", "integer", "null"], description: "Parent food (name or ID) to place it under in the food tree; null or 0 moves it to the top level." },
+            supermarket_category: { type: ["string", "integer", "null"], description: "Supermarket category name or ID (created if missing); null clears it." },
+            substitutes: { type: "array", items: { type: ["string", "integer"] }, description: "Foods (names or IDs) that can replace this food. Replaces the existing list." },
+            substitute_siblings: { type: "boolean", description: "Foods with the same parent can replace this food." },
+            substitute_children: { type: "boolean", description: "Child foods can replace this food." },
+            ignore_shopping: { type: "boolean", description: "Never add this food to the shopping list (e.g. water, salt)." }
+          },
+          required: ["food"]
+        },
+      },
+      {
+        name: "delete_food",
+        description: "Permanently delete a food. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            food: { type: ["string", "integer"], description: "The name or ID of the food to delete." },
+            confirm: { type: "boolean", description: "Must be true to actually delete the food (not needed with dry_run)." }
+          },
+          required: ["food"]
+        },
+      },
+      {
+        name: "merge_foods",
+        description: "Merge a duplicate food into another: every recipe, shopping list entry and other reference to the source is rewritten to the target, then the source is deleted. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            source: { type: ["string", "integer"], description: "The food to merge away (name or ID)." },
+            target: { type: ["string", "integer"], description: "The food to keep (name or ID)." },
+            confirm: { type: "boolean", description: "Must be true to actually merge (not needed with dry_run)." }
+          },
+          required: ["source", "target"]
+        },
+      },
+      {
+        name: "create_unit",
+        description: "Create a new unit. Fails if a unit with the same name already exists.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "The unit name." },
+            plural_name: { type: "string", description: "Plural name (e.g. 'cups')." },
+            description: { type: "string", description: "Description." },
+            base_unit: { type: "string", description: "Standard unit this unit corresponds to, used for conversions (e.g. 'g', 'ml', 'us_cup')." }
+          },
+          required: ["name"]
+        },
+      },
+      {
+        name: "update_unit",
+        description: "Update an existing unit. Only the given fields are changed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            unit: { type: ["string", "integer"], description: "The name or ID of the unit to update." },
+            name: { type: "string", description: "New name." },
+            plural_name: { type: "string", description: "Plural name (e.g. 'cups')." },
+            description: { type: "string", description: "Description." },
+            base_unit: { type: "string", description: "Standard unit this unit corresponds to, used for conversions (e.g. 'g', 'ml', 'us_cup')." }
+          },
+          required: ["unit"]
+        },
+      },
+      {
+        name: "delete_unit",
+        description: "Permanently delete a unit. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            unit: { type: ["string", "integer"], description: "The name or ID of the unit to delete." },
+            confirm: { type: "boolean", description: "Must be true to actually delete the unit (not needed with dry_run)." }
+          },
+          required: ["unit"]
+        },
+      },
+      {
+        name: "merge_units",
+        description: "Merge a duplicate unit into another: every recipe, shopping list entry and other reference to the source is rewritten to the target, then the source is deleted. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            source: { type: ["string", "integer"], description: "The unit to merge away (name or ID)." },
+            target: { type: ["string", "integer"], description: "The unit to keep (name or ID)." },
+            confirm: { type: "boolean", description: "Must be true to actually merge (not needed with dry_run)." }
+          },
+          required: ["source", "target"]
+        },
+      },
+      {
+        name: "create_keyword",
+        description: "Create a new keyword (with optional tree parent). Fails if a keyword with the same name already exists.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            name: { type: "string", description: "The keyword name." },
+            description: { type: "string", description: "Description." },
+            icon: { type: "string", description: "Emoji icon." },
+            parent: { type: ["string", "integer", "null"], description: "Parent keyword (name or ID) to place it under in the keyword tree; null or 0 moves it to the top level." }
+          },
+          required: ["name"]
+        },
+      },
+      {
+        name: "update_keyword",
+        description: "Update an existing keyword. Only the given fields are changed.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            keyword: { type: ["string", "integer"], description: "The name or ID of the keyword to update." },
+            name: { type: "string", description: "New name." },
+            description: { type: "string", description: "Description." },
+            icon: { type: "string", description: "Emoji icon." },
+            parent: { type: ["string", "integer", "null"], description: "Parent keyword (name or ID) to place it under in the keyword tree; null or 0 moves it to the top level." }
+          },
+          required: ["keyword"]
+        },
+      },
+      {
+        name: "delete_keyword",
+        description: "Permanently delete a keyword. Requires confirm: true. Names must match exactly (case and accents are ignored); partial names are rejected.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            keyword: { type: ["string", "integer"], description: "The name or ID of the keyword to delete." },
+            confirm: { type: "boolean", description: "Must be true to actually delete the keyword (not needed with dry_run)." }
+          },
+          required: ["keyword"]
+        },
+      },
+      {
+        name: "get_shopping_list",
+        description: "Retrieve the current shopping list items, either one line per entry or aggregated per food and grouped by supermarket category.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            checked: { type: "string", enum: ["true", "false", "both", "recent"], description: "Filter by checked status (default: recent)." },
+            aggregate: { type: "boolean", description: "Merge entries for the same food, combine compatible units (g + kg, tsp + tbsp + cup) and group by supermarket category (default: false).", default: false }
+          },
+          required: []
+        },
+      },
+      {
+        name: "add_shopping_list_item",
+        description: "Add an item to the shopping list, allowing food/unit names or IDs.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            food_name_or_id: { type: ["string", "integer"], description: "The name or ID of the food item." },
+            amount: { type: "string", description: "The amount needed (e.g., '1', '2.5', '1/2')." },
+            unit_name_or_id: { type: ["string", "integer"], description: "The name or ID of the unit (e.g., 'cup', 'g', 5)." },
+            note: { type: "string", description: "Optional note for the item." },
+            create_missing: { type: "boolean", description: "Create the food/unit if no entry with that name exists (default: false).", default: false },
+            include_onhand: { type: "boolean", description: "Add the item even if the food is marked as on hand (default: false).", default: false }
+          },
+          required: ["food_name_or_id", "amount", "unit_name_or_id"]
+        },
+      },
+      {
+        name: "update_shopping_list_item",
+        description: "Update an existing shopping list item (e.g., check/uncheck, change amount).",
+        inputSchema: {
+          type: "object",
+          properties: {
+            item_id: { type: "integer", description: "The ID of the shopping list item to update." },
+            amount: { type: "string", description: "Optional new amount." },
+            unit_id: { type: "integer", description: "Optional new unit ID." },
+            checked: { type: "boolean", description: "Optional new checked status." },
+            note: { type: "string", description: "Optional new note." }
+          },
+          required: ["item_id"]
+        },
+      },
+      {
+        name: "remove_shopping_list_item",
+        description: "Remove an item from the shopping list.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            item_id: { type: "integer", description: "The ID of the shopping list item to remove." }
+          },
+          required: ["item_id"]
+        },
+      },
+      {
+        name: "add_shopping_list_items",
+        description: "Add several items to the shopping list at once, from an array of items or a free-text grocery list ('2 onions\\n500 g rice\\nmilk'). Reports the result of every item.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            items: {
+              type: "array",
+              description: "Items to add (instead of text).",
+              items: {
+                type: "object",
+                properties: {
+                  food: { type: ["string", "integer"], description: "Food name or ID." },
+                  amount: { type: ["string", "number"], description: "Amount (default: 1)." },
+                  unit: { type: ["string", "integer", "null"], description: "Unit name or ID (optional)." },
+                  note: { type: "string", description: "Optional note." }
+                },
+                required: ["food"]
+              }
+            },
+            text: { type: "string", description: "Free-text grocery list, one item per line (or comma-separated on one line). Amounts and units are parsed." },
+            create_missing: { type: "boolean", description: "Create foods/units that do not exist yet (default: false).", default: false },
+            include_onhand: { type: "boolean", description: "Also add foods marked as on hand (default: false).", default: false }
+          },
+          required: []
+        },
+      },
+      {
+        name: "update_shopping_list_items",
+        description: "Check, uncheck or delete several shopping list entries at once, selected by IDs and/or filters (checked status, supermarket category, recipe, food). Deleting by filter requires confirm: true. Reports the result of every entry.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            action: { type: "string", enum: ["check", "uncheck", "delete"], description: "What to do with the selected entries." },
+            item_ids: { type: "array", items: { type: "integer" }, description: "Shopping list entry IDs." },
+            checked: { type: "boolean", description: "Only entries with this checked status (e.g. true to delete everything checked)." },
+            category: { type: ["string", "integer"], description: "Only entries whose food is in this supermarket category (name or ID)." },
+            recipe: { type: ["string", "integer"], description: "Only entries added for this recipe (name or ID)." },
+            food: { type: ["string", "integer"], description: "Only entries for this food (name or ID)." },
+            confirm: { type: "boolean", description: "Must be true to delete entries selected by filters (not needed with item_ids or dry_run)." }
+          },
+          required: ["action"]
+        },
+      },
+      {
+        name: "add_meal_plan_to_shopping_list",
+        description: "Add the ingredients of all recipes in a meal plan date range (or specific meal plan entries) to the shopping list, scaled to each entry's servings and linked to the meal plan.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: { type: "string", format: "date", description: "Start date (YYYY-MM-DD, inclusive) of the meal plans to shop for." },
+            to_date: { type: "string", format: "date", description: "End date (YYYY-MM-DD, inclusive) of the meal plans to shop for." },
+            meal_plan_ids: { type: "array", items: { type: "integer" }, description: "Specific meal plan entry IDs to shop for (instead of a date range)." },
+            include_onhand: { type: "boolean", description: "Also add foods marked as on hand (default: false).", default: false }
+          },
+          required: []
+        },
+      },
+      {
+        name: "consolidate_shopping_list",
+        description: "Merge duplicate unchecked shopping list entries for the same food on the server: compatible amounts are added up into one entry and the other entries are deleted. Only entries added for the same recipe or meal plan (or added manually) are merged.",
+        inputSchema: { type: "object", properties: {}, required: [] } // No input needed
+      },
+      {
+        name: "get_pantry",
+        description: "List the foods currently marked as on hand in Tandoor.",
+        inputSchema: { type: "object", properties: {}, required: [] } // No input needed
+      },
+      {
+        name: "set_food_onhand",
+        description: "Mark foods as on hand or not on hand (Tandoor's food_onhand flag). On-hand foods are skipped when adding to the shopping list.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            foods: { type: "array", items: { type: ["string", "integer"] }, description: "Food names or IDs." },
+            onhand: { type: "boolean", description: "true to mark as on hand, false to mark as not on hand (default: true).", default: true }
+          },
+          required: ["foods"]
+        },
+      },
+      {
+        name: "update_pantry_from_text",
+        description: "Update the pantry from a free-text list like 'I have eggs, rice, 2 onions'. Foods are matched by name; quantities are ignored.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            text: { type: "string", description: "Free-text list of foods, separated by commas, 'and' or new lines." },
+            onhand: { type: "boolean", description: "true to mark the listed foods as on hand, false to mark them as used up (default: true).", default: true },
+            replace: { type: "boolean", description: "Also mark every other on-hand food as not on hand, so the list becomes the whole pantry (default: false).", default: false }
+          },
+          required: ["text"]
+        },
+      },
+      {
+        name: "suggest_recipes_from_pantry",
+        description: "Find recipes that can be cooked with what is on hand: recipes using on-hand foods, ranked by the number of missing ingredients.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            max_missing: { type: "integer", minimum: 0, description: "Maximum number of missing ingredients (default: 2).", default: 2 },
+            query: { type: "string", description: "Optional search text to narrow the recipes (e.g. 'soup')." },
+            limit: { type: "integer", description: "Maximum number of recipes to return (default: 10).", default: 10 }
+          },
+          required: []
+        },
+      },
+      {
+        name: "log_cooked_recipe",
+        description: "Record in Tandoor's cook log that a recipe was cooked, with optional date, servings, rating and comment.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "integer"], description: "The recipe name or ID." },
+            date: { type: "string", format: "date", description: "Date it was cooked (YYYY-MM-DD, default: today)." },
+            servings: { type: "integer", description: "Number of servings cooked (default: the recipe's servings)." },
+            rating: { type: "integer", minimum: 1, maximum: 5, description: "Rating from 1 to 5." },
+            comment: { type: "string", description: "Optional comment (e.g. 'needed more salt')." }
+          },
+          required: ["recipe"]
+        },
+      },
+      {
+        name: "get_cook_log",
+        description: "List the cook history (newest first), optionally filtered by recipe and date range.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            recipe: { type: ["string", "integer"], description: "Only show entries for this recipe (name or ID)." },
+            from_date: { type: "string", format: "date", description: "Only entries cooked on or after this date (YYYY-MM-DD)." },
+            to_date: { type: "string", format: "date", description: "Only entries cooked on or before this date (YYYY-MM-DD)." },
+            limit: { type: "integer", description: "Maximum number of entries to show (default: 50).", default: 50 }
+          },
+          required: []
+        },
+      },
+      {
+        name: "get_cooking_stats",
+        description: "Summarize the cook log: most cooked recipes, best rated recipes, recipes not cooked in a number of days, and the average rating.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: { type: "string", format: "date", description: "Only count entries cooked on or after this date (YYYY-MM-DD)." },
+            to_date: { type: "string", format: "date", description: "Only count entries cooked on or before this date (YYYY-MM-DD)." },
+            not_cooked_days: { type: "integer", description: "List recipes not cooked in more than this many days (default: 30).", default: 30 },
+            limit: { type: "integer", description: "Number of recipes per list (default: 10).", default: 10 }
+          },
+          required: []
+        },
+      },
+      {
+        name: "log_cooked_from_meal_plans",
+        description: "Add cook log entries for past meal plan entries in a date range, skipping entries that are already logged for the same recipe and date.",
+        inputSchema: {
+          type: "object",
+          properties: {
+            from_date: { type: "string", format: "date", description: "Start date (YYYY-MM-DD, inclusive)." },
+            to_date: { type: "string", format: "date", description: "End date (YYYY-MM-DD, inclusive, default: today). Future entries are never logged." },
+            meal_type: { type: "string", description: "Only log entries of this meal type (e.g., 'Dinner')." }
+          },
+          required: ["from_date"]
+        },
+      }
+    ])),
+  };
+}
+
+// --- Tool Implementation ---
+// What every tool returns: the readable text and the same outcome as typed data
+interface ToolResult {
+  text: string;
+  data: ToolData;
+}
+
+function toolResult(text: string, data: ToolData): ToolResult {
+  return { text, data };
+}
+
+function pageInfo(result: PagedResult<unknown>): PageInfo {
+  const info: PageInfo = { count: result.count, page: result.page, page_size: result.page_size, has_more: result.has_more, truncated: result.truncated };
+  if (result.scanned) info.checked = result.scanned.checked;
+  return info;
+}
+
+function parseOutputMode(value: unknown): OutputMode {
+  if (value === undefined) return 'both';
+  if (!OUTPUT_MODES.includes(value as OutputMode)) {
+    throw new McpError(ErrorCode.InvalidParams, `output must be one of: ${OUTPUT_MODES.join(', ')}.`);
+  }
+  return value as OutputMode;
+}
+
+// Shapes the MCP response for the requested output. The protocol version of the pinned SDK (2024-11-05) does not define
+// structuredContent and most clients drop it, so the JSON stays in the text content unless `text` is asked for.
+function formatToolOutput(result: ToolResult, output: OutputMode) {
+  const summary = { type: "text", text: result.text };
+  const json = { type: "text", text: JSON.stringify(result.data, null, 2) };
+  const content = output === 'text' ? [summary] : output === 'json' ? [json] : [summary, json];
+  return { content, structuredContent: result.data };
+}
+
+async function handleToolCall(request: CallToolRequest) {
+  console.error(`[Info] Received tool call: ${request.params.name}`);
+  const output = parseOutputMode(request.params.arguments?.output);
+  const result = request.params.arguments?.dry_run === true && MUTATING_TOOLS.has(request.params.name)
+    ? await dryRunTool(request)
+    : await callTool(request);
+  return formatToolOutput(result, output);
+}
+
+// Runs a mutating tool with writes recorded instead of sent, and reports what would have been sent
+async function dryRunTool(request: CallToolRequest): Promise<ToolResult> {
+  const { result, requests } = await runDryRun(() => callTool(request));
+  const placeholders = requests.some(r => r.method === 'POST') ? '\nNegative IDs in the simulated result stand for objects that would be created.' : '';
+  const text = `DRY RUN: nothing was changed in Tandoor. ${requests.length} write request(s) would be sent:\n\n${describeRecordedRequests(requests)}\n\nSimulated result:${placeholders}\n${result.text}`;
+  return toolResult(text, { ...result.data, dry_run: { requests } });
+}
+
+async function callTool(request: CallToolRequest): Promise<ToolResult> {
+  try {
+    switch (request.params.name) {
+      // --- create_tandoor_recipe ---
+      case "create_tandoor_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+            throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const name = args.name as string;
+        const description = args.description as string | undefined;
+        const servings = args.servings as number | undefined;
+        const keywords = args.keywords as string[] | undefined;
+        const working_time = args.working_time as number | undefined;
+        const waiting_time = args.waiting_time as number | undefined;
+        const source_url = args.source_url as string | undefined;
+        const stepsInput = args.steps as RecipeStepArgument[] | undefined;
+        const ingredients_block = args.ingredients_block as string | undefined;
+        const instructions_block = args.instructions_block as string | undefined;
+        const split_steps = args.split_steps as boolean | undefined;
+
+        if (!name) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing required argument: name.");
+        }
+
+        let stepArguments: RecipeStepArgument[];
+        if (stepsInput && Array.isArray(stepsInput) && stepsInput.length > 0) {
+          if (stepsInput.some(step => !step || typeof step.instruction !== 'string')) {
+            throw new McpError(ErrorCode.InvalidParams, "Every entry in steps needs an instruction (string).");
+          }
+          stepArguments = stepsInput;
+        } else {
+          if (!ingredients_block || !instructions_block) {
+            throw new McpError(ErrorCode.InvalidParams, "Provide either steps (array) or both ingredients_block and instructions_block.");
+          }
+          // Ingredients go on the first step, matching how Tandoor shows single-list recipes
+          const instructions = split_steps ? splitInstructionBlock(instructions_block) : [instructions_block];
+          stepArguments = instructions.map((instruction, index) => ({
+            instruction,
+            ingredients: index === 0 ? ingredients_block.split('\n') : [],
+          }));
+        }
+
+        // Parse each ingredient line into amount / unit / food / note and match against existing units and foods
+        const steps = await buildSteps(stepArguments);
+
+        const recipePayload: TandoorRecipeInput = {
+          name: name,
+          description: description,
+          servings: servings,
+          steps: steps,
+        };
+        if (keywords && keywords.length > 0) recipePayload.keywords = keywords.map(k => ({ name: k }));
+        if (working_time !== undefined) recipePayload.working_time = working_time;
+        if (waiting_time !== undefined) recipePayload.waiting_time = waiting_time;
+        if (source_url) recipePayload.source_url = source_url;
+
+        console.error(`[API] POST /api/recipe/ - Payload: ${JSON.stringify(recipePayload)}`);
+        const response = await apiClient.post('/api/recipe/', recipePayload);
+        console.error(`[API] POST /api/recipe/ - Status: ${response.status}`);
+
+        const newRecipeId = response.data?.id;
+        const successMsg = `Successfully created recipe "${name}" in Tandoor (ID: ${newRecipeId || 'unknown'}) with ${steps.length} step(s).`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { created: [{ type: 'recipe', id: newRecipeId, name }] });
+      }
+
+      // --- import_recipe ---
+      case "import_recipe": {
+        const args = request.params.arguments || {};
+        const sourceUrl = args.url as string | undefined;
+        const html = args.html as string | undefined;
+        const parser = (args.parser as string | undefined) || 'auto';
+
+        if (!sourceUrl && !html) {
+          throw new McpError(ErrorCode.InvalidParams, "Provide either url or html.");
+        }
+        if (!['auto', 'tandoor', 'local'].includes(parser)) {
+          throw new McpError(ErrorCode.InvalidParams, "parser must be one of: auto, tandoor, local.");
+        }
+        if (sourceUrl) {
+          try {
+            checkPageUrl(sourceUrl);
+          } catch (err: any) {
+            throw new McpError(ErrorCode.InvalidParams, err.message);
+          }
+        }
+
+        let recipePayload: TandoorRecipeInput | undefined;
+        let imageUrl: string | undefined;
+        let importedWith = '';
+
+        // 1. Tandoor's own importer (handles many sites without JSON-LD, too)
+        if (parser !== 'local') {
+          const sourcePayload: Record<string, string> = {};
+          if (sourceUrl) sourcePayload.url = sourceUrl;
+          if (html) sourcePayload.data = html;
+          try {
+            console.error(`[API] POST /api/recipe-from-source/ - Payload: ${JSON.stringify({ url: sourceUrl, data: html ? `<${html.length} chars>` : undefined })}`);
+            const response = await apiClient.post('/api/recipe-from-source/', sourcePayload);
+            console.error(`[API] POST /api/recipe-from-source/ - Status: ${response.status}`);
+            if (response.data?.recipe_json?.name) {
+              recipePayload = tandoorSourceToRecipePayload(response.data.recipe_json);
+              imageUrl = response.data.recipe_json.image || response.data.recipe_images?.[0];
+              importedWith = "Tandoor's importer";
+            } else if (parser === 'tandoor') {
+              throw new McpError(ErrorCode.InvalidParams, `Tandoor could not extract a recipe: ${JSON.stringify(response.data?.msg || response.data)}`);
+            }
+          } catch (err: any) {
+            if (parser === 'tandoor') throw err;
+            console.warn(`[Warning] Tandoor recipe-from-source failed, falling back to local parser: ${err.message}`);
+          }
+        }
+
+        // 2. Local schema.org parser
+        if (!recipePayload) {
+          let source = html;
+          if (!source && sourceUrl) {
+            console.error(`[Fetch] GET ${sourceUrl} - Downloading recipe page`);
+            try {
+              const page = await fetchPage(sourceUrl);
+              console.error(`[Fetch] GET ${page.url} - Status: ${page.status}`);
+              source = page.html;
+            } catch (err: any) {
+              if (err instanceof PageFetchError) throw new McpError(ErrorCode.InvalidParams, err.message);
+              throw toMcpError(err, `Failed to download ${sourceUrl}`);
+            }
+          }
+          const { draft, warnings } = parseRecipeFromSource(source as string, sourceUrl);
+          for (const warning of warnings) console.warn(`[Warning] ${warning}`);
+          if (!draft) {
+            const skipped = warnings.length > 0 ? ` ${warnings.join(' ')}` : '';
+            throw new McpError(ErrorCode.InvalidParams, `No schema.org Recipe data found in the source.${skipped}`);
+          }
+          recipePayload = await draftToRecipePayload(draft);
+          imageUrl = draft.image;
+          importedWith = 'the schema.org parser';
+        }
+
+        // 3. Overrides
+        if (args.name) recipePayload.name = args.name as string;
+        if (args.servings !== undefined) recipePayload.servings = args.servings as number;
+        const extraKeywords = (args.keywords as string[] | undefined) || [];
+        if (extraKeywords.length > 0) {
+          recipePayload.keywords = [...(recipePayload.keywords || []), ...extraKeywords.map(k => ({ name: k }))];
+        }
+        if (sourceUrl && !recipePayload.source_url) recipePayload.source_url = sourceUrl;
+
+        console.error(`[API] POST /api/recipe/ - Payload: ${JSON.stringify(recipePayload)}`);
+        const response = await apiClient.post('/api/recipe/', recipePayload);
+        console.error(`[API] POST /api/recipe/ - Status: ${response.status}`);
+        const newRecipeId = response.data?.id;
+
+        let imageNote = '';
+        if (imageUrl && newRecipeId && args.import_image !== false) {
+          const imageEndpoint = `/api/recipe/${newRecipeId}/image/`;
+          try {
+            console.error(`[API] PUT ${imageEndpoint} - Setting image from ${imageUrl}`);
+            const imageResponse = await apiClient.put(imageEndpoint, { image_url: imageUrl });
+            console.error(`[API] PUT ${imageEndpoint} - Status: ${imageResponse.status}`);
+            imageNote = ' Image imported.';
+          } catch (err: any) {
+            console.warn(`[Warning] Could not set recipe image: ${err.message}`);
+            imageNote = ` Image could not be imported (${err.message}).`;
+          }
+        }
+
+        const ingredientCount = recipePayload.steps.reduce((sum, step) => sum + step.ingredients.length, 0);
+        const successMsg = `Successfully imported recipe "${recipePayload.name}" with ${importedWith} (ID: ${newRecipeId || 'unknown'}): ${recipePayload.steps.length} step(s), ${ingredientCount} ingredient(s).${imageNote}`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, {
+          created: [{ type: 'recipe', id: newRecipeId, name: recipePayload.name }],
+          details: { imported_with: importedWith, steps: recipePayload.steps.length, ingredients: ingredientCount, image_imported: imageNote === ' Image imported.' },
+        });
+      }
+
+      // --- update_tandoor_recipe ---
+      case "update_tandoor_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || (typeof args.recipe !== 'string' && typeof args.recipe !== 'number')) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe (name or ID).");
+        }
+
+        let recipeId: number;
+        try {
+          recipeId = await resolveRecipeId(args.recipe as string | number);
+        } catch (err: any) {
+          throw new McpError(ErrorCode.InvalidParams, err.message);
+        }
+
+        const payload: Partial<TandoorRecipeInput> = {};
+        if (args.name !== undefined) payload.name = args.name as string;
+        if (args.description !== undefined) payload.description = args.description as string;
+        if (args.servings !== undefined) payload.servings = args.servings as number;
+        if (args.working_time !== undefined) payload.working_time = args.working_time as number;
+        if (args.waiting_time !== undefined) payload.waiting_time = args.waiting_time as number;
+        if (args.source_url !== undefined) payload.source_url = args.source_url as string;
+        if (args.keywords !== undefined) {
+          payload.keywords = (args.keywords as string[]).map(k => ({ name: k }));
+        }
+
+        const stepsInput = args.steps as RecipeStepArgument[] | undefined;
+        const ingredientsBlock = args.ingredients_block as string | undefined;
+        if (stepsInput && Array.isArray(stepsInput) && stepsInput.length > 0) {
+          if (stepsInput.some(step => !step || typeof step.instruction !== 'string')) {
+            throw new McpError(ErrorCode.InvalidParams, "Every entry in steps needs an instruction (string).");
+          }
+          payload.steps = await buildSteps(stepsInput);
+        } else if (ingredientsBlock) {
+          // Keep all steps, only replace the ingredients of the first one
+          const url = `/api/recipe/${recipeId}/`;
+          console.error(`[API] GET ${url} - Fetching current steps`);
+          const current = await apiClient.get(url);
+          console.error(`[API] GET ${url} - Status: ${current.status}`);
+          const existing = copyRecipeForCreate(current.data, current.data.name).steps;
+          const [firstStep] = await buildSteps([{ instruction: existing[0]?.instruction || '', ingredients: ingredientsBlock.split('\n') }]);
+          payload.steps = existing.length > 0
+            ? [{ ...existing[0], ingredients: firstStep.ingredients }, ...existing.slice(1)]
+            : [firstStep];
+        }
+
+        if (Object.keys(payload).length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "No fields provided to update.");
+        }
+
+        const url = `/api/recipe/${recipeId}/`;
+        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+        const response = await apiClient.patch(url, payload);
+        console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+
+        const successMsg = `Successfully updated recipe "${response.data?.name || recipeId}" (ID: ${recipeId}). Updated fields: ${Object.keys(payload).join(', ')}.`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { updated: [{ type: 'recipe', id: recipeId, name: response.data?.name }], details: { fields: Object.keys(payload) } });
+      }
+
+      // --- duplicate_tandoor_recipe ---
+      case "duplicate_tandoor_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || (typeof args.recipe !== 'string' && typeof args.recipe !== 'number') || !args.new_name) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: recipe (name or ID), new_name.");
+        }
+
+        let recipeId: number;
+        try {
+          recipeId = await resolveRecipeId(args.recipe as string | number);
+        } catch (err: any) {
+          throw new McpError(ErrorCode.InvalidParams, err.message);
+        }
+
+        const sourceUrl = `/api/recipe/${recipeId}/`;
+        console.error(`[API] GET ${sourceUrl} - Fetching recipe to duplicate`);
+        const source = await apiClient.get(sourceUrl);
+        console.error(`[API] GET ${sourceUrl} - Status: ${source.status}`);
+
+        const newName = args.new_name as string;
+        const recipePayload = copyRecipeForCreate(source.data, newName);
+        if (args.description !== undefined) recipePayload.description = args.description as string;
+        if (args.servings !== undefined) recipePayload.servings = args.servings as number;
+
+        console.error(`[API] POST /api/recipe/ - Payload: ${JSON.stringify(recipePayload)}`);
+        const response = await apiClient.post('/api/recipe/', recipePayload);
+        console.error(`[API] POST /api/recipe/ - Status: ${response.status}`);
+
+        const successMsg = `Successfully duplicated recipe "${source.data.name}" (ID: ${recipeId}) as "${newName}" (ID: ${response.data?.id || 'unknown'}).`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { created: [{ type: 'recipe', id: response.data?.id, name: newName }], details: { source_recipe_id: recipeId } });
+      }
+
+      // --- delete_tandoor_recipe ---
+      case "delete_tandoor_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || (typeof args.recipe !== 'string' && typeof args.recipe !== 'number')) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe (name or ID).");
+        }
+        if (args.confirm !== true && args.dry_run !== true) {
+          throw new McpError(ErrorCode.InvalidParams, "Deleting a recipe is permanent. Set confirm: true to proceed.");
+        }
+
+        let recipeId: number;
+        try {
+          recipeId = await resolveRecipeId(args.recipe as string | number, { exact_only: true });
+        } catch (err: any) {
+          throw new McpError(ErrorCode.InvalidParams, err.message);
+        }
+
+        const url = `/api/recipe/${recipeId}/`;
+        console.error(`[API] DELETE ${url}`);
+        try {
+          const response = await apiClient.delete(url);
+          console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+        } catch (err: any) {
+          if (axios.isAxiosError(err) && err.response?.status === 404) {
+            throw new McpError(ErrorCode.InvalidParams, `Recipe with ID ${recipeId} not found.`);
+          }
+          throw err;
+        }
+
+        const successMsg = `Successfully deleted recipe ID ${recipeId}.`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { deleted: [{ type: 'recipe', id: recipeId }] });
+      }
+
+      // --- get_recipe_books ---
+      case "get_recipe_books": {
+        const args = request.params.arguments || {};
+        const query = args.query as string | undefined;
+        const url = '/api/recipe-book/' + (query ? `?query=${encodeURIComponent(query)}` : '');
+        try {
+          const paged = await fetchPaged<TandoorRecipeBook>(url, paginationFromArgs(args), 'recipe books');
+          const books = paged.results;
+          const resultText = books.length > 0
+            ? `Found Recipe Books (${describePage(paged)}):\n${books.map(b => `ID: ${b.id} - Name: ${b.name}${b.description ? ' - ' + b.description : ''}`).join('\n')}`
+            : 'No recipe books found.';
+          return toolResult(resultText, { items: books.map(toTaxonomyItem), page: pageInfo(paged) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch recipe books:`, err);
+          throw toMcpError(err, `Failed to fetch recipe books`);
+        }
+      }
+
+      // --- create_recipe_book ---
+      case "create_recipe_book": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.name !== 'string' || !args.name.trim()) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: name.");
+        }
+        const existing = await findExistingByName('recipe book', args.name);
+        if (existing) {
+          throw new McpError(ErrorCode.InvalidParams, `A recipe book named "${existing.name}" already exists (ID: ${existing.id}).`);
+        }
+
+        const payload = { name: args.name.trim(), description: (args.description as string | undefined) ?? '', shared: [] };
+        const url = '/api/recipe-book/';
+        console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+        try {
+          const response = await apiClient.post(url, payload);
+          console.error(`[API] POST ${url} - Status: ${response.status}`);
+          return toolResult(`Successfully created recipe book "${response.data.name}" (ID: ${response.data.id}).`, { created: [{ type: 'recipe_book', id: response.data.id, name: response.data.name }] });
+        } catch (err: any) {
+          console.error(`[Error] Failed to create recipe book:`, err);
+          throw toMcpError(err, `Failed to create recipe book`);
+        }
+      }
+
+      // --- update_recipe_book ---
+      case "update_recipe_book": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const book = await resolveArgument('recipe book', args.book);
+        const payload: Record<string, unknown> = {};
+        if (args.name !== undefined) payload.name = args.name;
+        if (args.description !== undefined) payload.description = args.description;
+        if (Object.keys(payload).length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "No fields to update. Provide name and/or description.");
+        }
+
+        const url = `/api/recipe-book/${book.id}/`;
+        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+        try {
+          const response = await apiClient.patch(url, payload);
+          console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+          const text = `Successfully updated recipe book ID ${book.id}: "${response.data.name}"${response.data.description ? ` - ${response.data.description}` : ''}.`;
+          return toolResult(text, { updated: [{ type: 'recipe_book', id: book.id, name: response.data.name }], items: [toTaxonomyItem(response.data)] });
+        } catch (err: any) {
+          console.error(`[Error] Failed to update recipe book ${book.id}:`, err);
+          throw toMcpError(err, `Failed to update recipe book`);
+        }
+      }
+
+      // --- delete_recipe_book ---
+      case "delete_recipe_book": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        if (args.confirm !== true && args.dry_run !== true) {
+          throw new McpError(ErrorCode.InvalidParams, "Deleting a recipe book is permanent. Set confirm: true to proceed.");
+        }
+        const book = await resolveArgument('recipe book', args.book, { exact_only: true });
+
+        const url = `/api/recipe-book/${book.id}/`;
+        console.error(`[API] DELETE ${url}`);
+        const response = await apiClient.delete(url);
+        console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+
+        const successMsg = `Successfully deleted recipe book "${book.name}" (ID: ${book.id}).`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { deleted: [{ type: 'recipe_book', id: book.id, name: book.name }] });
+      }
+
+      // --- add_recipes_to_book ---
+      case "add_recipes_to_book": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const book = await resolveArgument('recipe book', args.book);
+        const { recipes, errors } = await resolveRecipeList(args.recipes);
+        const inBook = new Set((await fetchBookEntries(book.id)).map(entry => entry.recipe));
+
+        const added: { recipe: ResolvedEntity; entryId: number }[] = [];
+        const skipped: SkippedItem[] = [];
+        for (const recipe of recipes) {
+          if (inBook.has(recipe.id)) {
+            skipped.push({ item: `${recipe.name} (ID: ${recipe.id})`, reason: 'already in the book' });
+            continue;
+          }
+          const url = '/api/recipe-book-entry/';
+          const payload = { book: book.id, recipe: recipe.id };
+          console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+          try {
+            const response = await apiClient.post(url, payload);
+            console.error(`[API] POST ${url} - Status: ${response.status}`);
+            added.push({ recipe, entryId: response.data?.id });
+          } catch (err: any) {
+            console.error(`[Error] Failed to add recipe ${recipe.id} to book ${book.id}:`, err);
+            errors.push(toToolError(recipe.name, err));
+          }
+        }
+
+        let finalText = `Added ${added.length} recipes to book "${book.name}" (ID: ${book.id}).`;
+        if (added.length > 0) finalText += `\n${added.map(({ recipe }) => `- ${recipe.name} (ID: ${recipe.id})`).join('\n')}`;
+        if (skipped.length > 0) finalText += `\n\nAlready in the book:\n${skipped.map(item => `- ${item.item}`).join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nErrors encountered:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, {
+          created: added.map(({ recipe, entryId }) => ({ type: 'recipe_book_entry', id: entryId, name: recipe.name })),
+          skipped,
+          errors,
+          details: { book: { id: book.id, name: book.name }, recipe_ids: added.map(({ recipe }) => recipe.id) },
+        });
+      }
+
+      // --- remove_recipes_from_book ---
+      case "remove_recipes_from_book": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const book = await resolveArgument('recipe book', args.book, { exact_only: true });
+        const { recipes, errors } = await resolveRecipeList(args.recipes, { exact_only: true });
+        const entries = await fetchBookEntries(book.id);
+
+        const removed: ResolvedEntity[] = [];
+        const deleted: EntityRef[] = [];
+        const notInBook: SkippedItem[] = [];
+        for (const recipe of recipes) {
+          const recipeEntries = entries.filter(entry => entry.recipe === recipe.id);
+          if (recipeEntries.length === 0) {
+            notInBook.push({ item: `${recipe.name} (ID: ${recipe.id})`, reason: 'not in the book' });
+            continue;
+          }
+          try {
+            for (const entry of recipeEntries) {
+              const url = `/api/recipe-book-entry/${entry.id}/`;
+              console.error(`[API] DELETE ${url}`);
+              const response = await apiClient.delete(url);
+              console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+              deleted.push({ type: 'recipe_book_entry', id: entry.id, name: recipe.name });
+            }
+            removed.push(recipe);
+          } catch (err: any) {
+            console.error(`[Error] Failed to remove recipe ${recipe.id} from book ${book.id}:`, err);
+            errors.push({ item: recipe.name, error: err.message });
+          }
+        }
+
+        let finalText = `Removed ${removed.length} recipes from book "${book.name}" (ID: ${book.id}).`;
+        if (removed.length > 0) finalText += `\n${removed.map(recipe => `- ${recipe.name} (ID: ${recipe.id})`).join('\n')}`;
+        if (notInBook.length > 0) finalText += `\n\nNot in the book:\n${notInBook.map(item => `- ${item.item}`).join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nErrors encountered:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, {
+          deleted,
+          skipped: notInBook,
+          errors,
+          details: { book: { id: book.id, name: book.name }, recipe_ids: removed.map(recipe => recipe.id) },
+        });
+      }
+
+      // --- create_tandoor_meal_plan ---
+      case "create_tandoor_meal_plan": {
+        const args = request.params.arguments;
+         if (!args || typeof args !== 'object' || args === null) {
+            throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const recipesInput = args.recipes as (string | number)[];
+        const startDate = args.start_date as string;
+        const mealTypeName = args.meal_type as string;
+        const title = args.title as string | undefined;
+        const servings = args.servings as number ?? 1; // Default to 1 serving
+        const note = args.note as string | undefined;
+        const endDate = args.end_date as string | undefined;
+
+
+        if (!recipesInput || !Array.isArray(recipesInput) || recipesInput.length === 0 || !startDate || !mealTypeName) {
+            throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: recipes (array), start_date, meal_type.");
+        }
+         // Validate date format (basic)
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+            throw new McpError(ErrorCode.InvalidParams, "Invalid start_date format. Use YYYY-MM-DD.");
+        }
+        if (endDate !== undefined) {
+            if (!/^\d{4}-\d{2}-\d{2}$/.test(endDate)) {
+                throw new McpError(ErrorCode.InvalidParams, "Invalid end_date format. Use YYYY-MM-DD.");
+            }
+            if (endDate < startDate) {
+                throw new McpError(ErrorCode.InvalidParams, "end_date must not be before start_date.");
+            }
+        }
+
+        const atomic = args.atomic === true;
+
+        // 1. Find Meal Type ID
+        const mealType = await resolveMealType(mealTypeName);
+
+        // 2. Resolve the recipes, a few at a time
+        const resolved = await mapSettled(recipesInput, recipeRef => resolveByName('recipe', recipeRef));
+        const unresolved: MealPlanCreationResult['failed'] = [];
+        const payloads: TandoorMealPlanInput[] = [];
+        resolved.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            const recipe = outcome.value;
+            payloads.push(buildMealPlanPayload(
+              { id: recipe.id, name: recipe.name, keywords: recipe.data?.keywords || [] },
+              mealType,
+              startDate,
+              servings,
+              { title, note, end_date: endDate }
+            ));
+          } else if (outcome.status === 'rejected') {
+            unresolved.push({ recipe: String(recipesInput[index]), error: outcome.reason.message });
+          }
+        });
+        if (payloads.length === 0 || (atomic && unresolved.length > 0)) {
+          const prefix = payloads.length === 0 ? 'Could not resolve any recipe.' : 'Nothing was created (atomic mode); fix these recipes first.';
+          throw new McpError(ErrorCode.InvalidParams, `${prefix}\n${unresolved.map(failure => `- ${failure.recipe}: ${failure.error}`).join('\n')}`);
+        }
+
+        // 3. Create Meal Plan Entries
+        const result = await createMealPlanEntries(payloads, atomic, unresolved);
+        return mealPlanCreationResult(result);
+      }
+
+      // --- generate_meal_plan ---
+      case "generate_meal_plan": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.from_date !== 'string') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing required argument: from_date.");
+        }
+        const fromDate = args.from_date;
+        const toDate = (args.to_date as string | undefined) ?? (DATE_REGEX.test(fromDate) ? addDays(fromDate, 6) : '');
+        if (!DATE_REGEX.test(fromDate) || !DATE_REGEX.test(toDate)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
+        }
+        if (toDate < fromDate) {
+          throw new McpError(ErrorCode.InvalidParams, "to_date must not be before from_date.");
+        }
+        const servings = (args.servings as number | undefined) ?? 2;
+        const noRepeatDays = (args.no_repeat_days as number | undefined) ?? 7;
+        const skipPlanned = args.skip_planned !== false;
+        const mealTypeNames = (args.meal_types as string[] | undefined) ?? ['Dinner'];
+        if (!Array.isArray(mealTypeNames) || mealTypeNames.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "meal_types must be a non-empty array of meal type names.");
+        }
+        const mealTypes: TandoorMealType[] = [];
+        for (const name of mealTypeNames) {
+          mealTypes.push(await resolveMealType(name));
+        }
+
+        // 1. Candidate recipes matching the hard constraints
+        const searchArgs: Record<string, unknown> = { query: args.query, max_total_time: args.max_total_time, rating: args.min_rating };
+        for (const [argName, param] of [['keywords', 'keywords_and'], ['exclude_keywords', 'keywords_or_not']] as const) {
+          const refs = args[argName];
+          if (refs === undefined) continue;
+          if (!Array.isArray(refs)) {
+            throw new McpError(ErrorCode.InvalidParams, `${argName} must be an array of keyword names or IDs.`);
+          }
+          const ids: number[] = [];
+          for (const ref of refs) ids.push((await resolveArgument('keyword', ref)).id);
+          searchArgs[param] = ids;
+        }
+        const search = await searchRecipes(searchArgs, { all: true });
+
+        // 2. Recipes to avoid: excluded explicitly, cooked recently, or already planned recently / in the range
+        const excluded = new Set<number>();
+        if (args.exclude_recipes !== undefined) {
+          const { recipes, errors } = await resolveRecipeList(args.exclude_recipes);
+          if (errors.length > 0) {
+            throw new McpError(ErrorCode.InvalidParams, `Could not resolve exclude_recipes:\n${describeToolErrors(errors)}`);
+          }
+          recipes.forEach(recipe => excluded.add(recipe.id));
+        }
+        const historyStart = addDays(fromDate, -noRepeatDays);
+        const existingPlans = await fetchMealPlansInRange(historyStart, toDate);
+        const filledSlots = new Set<string>();
+        for (const plan of existingPlans) {
+          const planDate = String(plan.from_date).split('T')[0];
+          if (plan.recipe?.id) excluded.add(plan.recipe.id);
+          if (planDate >= fromDate && plan.meal_type?.id) filledSlots.add(`${planDate}|${plan.meal_type.id}`);
+        }
+        const candidates: PlanCandidate[] = search.results.filter(recipe => {
+          if (excluded.has(recipe.id)) return false;
+          const lastCooked = recipe.last_cooked ? String(recipe.last_cooked).split('T')[0] : null;
+          return !(noRepeatDays > 0 && lastCooked && lastCooked >= historyStart);
+        });
+
+        // 3. Fill the open slots
+        const slots = mealSlots(fromDate, toDate, mealTypes.map(mealType => mealType.name))
+          .filter(slot => !skipPlanned || !filledSlots.has(`${slot.date}|${mealTypes.find(mealType => mealType.name === slot.meal_type)!.id}`));
+        if (slots.length === 0) {
+          return toolResult(`Every slot from ${fromDate} to ${toDate} already has a meal plan entry. Use skip_planned: false to plan them anyway.`, { details: { from_date: fromDate, to_date: toDate, entries: [] } });
+        }
+        if (candidates.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, `No recipes match the constraints (${search.results.length} matched the search, all of them excluded as recent or unwanted). Relax the constraints or lower no_repeat_days.`);
+        }
+        const seed = (args.seed as number | undefined) ?? seedFromString(`${fromDate}|${toDate}|${mealTypeNames.join(',')}`);
+        const plan = generateMealPlan(candidates, { slots, servings, seed, prefer_rating: args.prefer_rating as number | undefined });
+
+        const lines = plan.entries.map(entry => `${entry.date} ${entry.meal_type}: ${entry.recipe_name} (ID: ${entry.recipe_id})`);
+        const commitEntries = plan.entries.map(entry => ({ date: entry.date, meal_type: entry.meal_type, recipe: entry.recipe_id, servings: entry.servings, title: entry.recipe_name }));
+        const notes: string[] = [`Picked from ${candidates.length} candidate recipes (seed ${seed}).`];
+        if (plan.repeated) notes.push(`Note: there were fewer candidates than meals, so some recipes repeat.`);
+        if (skipPlanned && filledSlots.size > 0) notes.push(`Slots that already have a meal plan entry were left out.`);
+        if (search.truncated) notes.push(`Note: only the first ${search.results.length} of ${search.count} matching recipes were considered.`);
+        const text = `Draft meal plan ${fromDate} to ${toDate} (${servings} servings each, not saved yet):\n\n${lines.join('\n')}\n\n${notes.join('\n')}\n\nTo save it, call commit_meal_plan with:\n${JSON.stringify({ entries: commitEntries }, null, 2)}`;
+        // details.entries is the draft in the form commit_meal_plan accepts
+        return toolResult(text, { details: { from_date: fromDate, to_date: toDate, seed, candidate_count: candidates.length, repeated: plan.repeated, entries: commitEntries } });
+      }
+
+      // --- commit_meal_plan ---
+      case "commit_meal_plan": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || !Array.isArray(args.entries) || args.entries.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: entries (non-empty array).");
+        }
+
+        // 1. Validate and resolve every entry before creating anything
+        const mealTypes = new Map<string, TandoorMealType>();
+        const recipes = new Map<string, { id: number; name: string; keywords?: TandoorKeyword[] }>();
+        const payloads: TandoorMealPlanInput[] = [];
+        const problems: string[] = [];
+        for (const [index, value] of args.entries.entries()) {
+          const label = `Entry ${index + 1}`;
+          const entry = parseCommitMealPlanEntry(value);
+          if (typeof entry === 'string') {
+            problems.push(`${label}: ${entry}`);
+            continue;
+          }
+          try {
+            const mealTypeKey = String(entry.meal_type).toLowerCase();
+            if (!mealTypes.has(mealTypeKey)) mealTypes.set(mealTypeKey, await resolveMealType(entry.meal_type));
+            const recipeKey = String(entry.recipe).toLowerCase();
+            if (!recipes.has(recipeKey)) {
+              const recipe = await resolveArgument('recipe', entry.recipe);
+              recipes.set(recipeKey, { id: recipe.id, name: recipe.name, keywords: recipe.data?.keywords || [] });
+            }
+            payloads.push(buildMealPlanPayload(recipes.get(recipeKey)!, mealTypes.get(mealTypeKey)!, entry.date, entry.servings ?? 1, { title: entry.title, note: entry.note, end_date: entry.end_date }));
+          } catch (err: any) {
+            problems.push(`${label}: ${err.message}`);
+          }
+        }
+        if (problems.length > 0) {
+          throw new McpError(ErrorCode.InvalidParams, `Nothing was created; fix these entries first:\n${problems.join('\n')}`);
+        }
+
+        // 2. Create the entries
+        const result = await createMealPlanEntries(payloads, args.atomic === true);
+        return mealPlanCreationResult(result);
+      }
+
+      // --- update_tandoor_meal_plan ---
+      case "update_tandoor_meal_plan": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.entry_id !== 'number') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: entry_id (number).");
+        }
+        const entryId = args.entry_id;
+        const startDate = args.start_date as string | undefined;
+        const endDate = args.end_date as string | undefined;
+        for (const [field, value] of [['start_date', startDate], ['end_date', endDate]]) {
+          if (value !== undefined && !DATE_REGEX.test(value)) {
+            throw new McpError(ErrorCode.InvalidParams, `Invalid ${field} format. Use YYYY-MM-DD.`);
+          }
+        }
+
+        const payload: Record<string, any> = {};
+        if (startDate !== undefined || endDate !== undefined) {
+          const plan = await fetchMealPlan(entryId);
+          const newStart = startDate ?? String(plan.from_date).split('T')[0];
+          Object.assign(payload, shiftedMealPlanDates(plan, newStart));
+          if (endDate !== undefined) {
+            if (endDate < newStart) {
+              throw new McpError(ErrorCode.InvalidParams, "end_date must not be before the entry's start date.");
             }
+            payload.to_date = `${endDate}T00:00:00`;
+          }
+        }
+        if (args.meal_type !== undefined) {
+          const mealType = await resolveMealType(args.meal_type as string);
+          payload.meal_type = { id: mealType.id, name: mealType.name };
+        }
+        if (args.recipe !== undefined) {
+          let recipeId: number;
+          try {
+            recipeId = await resolveRecipeId(args.recipe as string | number);
+          } catch (err: any) {
+            throw new McpError(ErrorCode.InvalidParams, err.message);
+          }
+          const recipeResponse = await apiClient.get(`/api/recipe/${recipeId}/`);
+          payload.recipe = { id: recipeId, name: recipeResponse.data.name || "Recipe", keywords: recipeResponse.data.keywords || [] };
         }
+        if (args.servings !== undefined) payload.servings = String(args.servings); // API expects string
+        if (args.title !== undefined) payload.title = args.title as string;
+        if (args.note !== undefined) payload.note = args.note as string;
 
-        if (errors.length > 0 && recipeIds.length === 0) {
-             throw new McpError(ErrorCode.InternalError, `Could not resolve any recipe IDs. Errors: ${errors.join('; ')}`);
+        if (Object.keys(payload).length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "No fields provided to update.");
         }
 
-        // 3. Create Meal Plan Entries
-        const results: string[] = [];
-        for (const recipeId of recipeIds) {
-            // Get recipe details to include in the payload
-            console.error(`[API] GET /api/recipe/${recipeId}/ - Fetching recipe details`);
-            let recipeName = "Recipe";
-            let recipeKeywords = [];
+        const url = `/api/meal-plan/${entryId}/`;
+        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+        const response = await apiClient.patch(url, payload);
+        console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+
+        const successMsg = `Successfully updated meal plan entry ID ${entryId}. Updated fields: ${Object.keys(payload).join(', ')}.`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { updated: [{ type: 'meal_plan', id: entryId }], details: { fields: Object.keys(payload) } });
+      }
+
+      // --- move_tandoor_meal_plan ---
+      case "move_tandoor_meal_plan": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.entry_id !== 'number') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: entry_id (number).");
+        }
+        const entryId = args.entry_id;
+        const newDate = args.new_date as string | undefined;
+        const swapWith = args.swap_with as number | undefined;
+
+        if (swapWith !== undefined) {
+          if (swapWith === entryId) {
+            throw new McpError(ErrorCode.InvalidParams, "swap_with must be a different entry than entry_id.");
+          }
+          const first = await fetchMealPlan(entryId);
+          const second = await fetchMealPlan(swapWith);
+          const firstStart = String(first.from_date).split('T')[0];
+          const secondStart = String(second.from_date).split('T')[0];
+
+          const firstPayload = { ...shiftedMealPlanDates(first, secondStart), meal_type: second.meal_type };
+          const secondPayload = { ...shiftedMealPlanDates(second, firstStart), meal_type: first.meal_type };
+
+          const patchPlan = async (id: number, payload: Record<string, unknown>) => {
+            const url = `/api/meal-plan/${id}/`;
+            console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+            const response = await apiClient.patch(url, payload);
+            console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+          };
+          try {
+            await patchPlan(entryId, firstPayload);
+          } catch (err: any) {
+            console.error(`[Error] Failed to move meal plan entry ${entryId}:`, err);
+            throw toMcpError(err, `Failed to swap meal plan entries ${entryId} and ${swapWith}`);
+          }
+          try {
+            await patchPlan(swapWith, secondPayload);
+          } catch (err: any) {
+            // Like an atomic meal plan commit: undo the first move, so the two entries do not end up in one slot
+            console.error(`[Error] Failed to move meal plan entry ${swapWith}, restoring entry ${entryId}:`, err);
+            const errors: ToolError[] = [{ item: String(swapWith), error: err.message }];
+            let restoreError: string | undefined;
             try {
-                const recipeResponse = await apiClient.get(`/api/recipe/${recipeId}/`);
-                console.error(`[API] GET /api/recipe/${recipeId}/ - Status: ${recipeResponse.status}`);
-                recipeName = recipeResponse.data.name || "Recipe";
-                recipeKeywords = recipeResponse.data.keywords || [];
-            } catch (err: any) {
-                console.error(`[Warning] Could not fetch recipe details: ${err.message}`);
+              await patchPlan(entryId, { from_date: first.from_date, to_date: first.to_date ?? null, meal_type: first.meal_type });
+            } catch (restoreErr: any) {
+              console.error(`[Error] Failed to restore meal plan entry ${entryId}:`, restoreErr);
+              restoreError = restoreErr.message;
+              errors.push({ item: String(entryId), error: `restoring the original date failed: ${restoreError}` });
             }
+            const restored = restoreError === undefined;
+            const text = restored
+              ? `Could not swap meal plan entries ${entryId} and ${swapWith}: moving entry ${swapWith} failed (${err.message}). Entry ${entryId} was moved back to ${firstStart} (${first.meal_type?.name}); nothing changed.`
+              : `Could not swap meal plan entries ${entryId} and ${swapWith}: moving entry ${swapWith} failed (${err.message}), and moving entry ${entryId} back to ${firstStart} failed too (${restoreError}). Both entries are now on ${secondStart} (${second.meal_type?.name}); move entry ${entryId} back by hand.`;
+            return toolResult(text, {
+              updated: restored ? [] : [{ type: 'meal_plan', id: entryId }],
+              meal_plans: [toMealPlanEntry(restored ? first : { ...first, ...firstPayload }), toMealPlanEntry(second)],
+              errors,
+              details: { status: restored ? 'rolled_back' : 'partial' },
+            });
+          }
 
-            const mealPlanPayload: TandoorMealPlanInput = {
-                recipe: { 
-                    id: recipeId,
-                    name: recipeName,
-                    keywords: recipeKeywords
-                },
-                meal_type: { 
-                    id: mealTypeId,
-                    name: mealType.name
-                },
-                from_date: `${startDate}T00:00:00`, // Append time to match date-time format
-                servings: String(servings), // API expects string
-                title: title,
-                note: note,
-            };
-            // Log the exact payload being sent
-            console.error(`[API] POST /api/meal-plan/ - Payload for Recipe ID ${recipeId}: ${JSON.stringify(mealPlanPayload)}`);
-            try {
-                // console.error(`[API] POST /api/meal-plan/ - Payload: ${JSON.stringify(mealPlanPayload)}`); // Removed redundant log
-                const planResponse = await apiClient.post('/api/meal-plan/', mealPlanPayload);
-                console.error(`[API] POST /api/meal-plan/ - Status: ${planResponse.status}`);
-                results.push(`Added recipe ID ${recipeId} to meal plan for ${startDate} (${mealTypeName}).`);
-                console.error(`[Info] Added recipe ID ${recipeId} to meal plan.`);
-            } catch (err: any) {
-                 // Log the detailed error response from the API
-                 const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
-                 const errorMsg = `Failed to add recipe ID ${recipeId} to meal plan: ${err.message} - API Response: ${errorDetail}`;
-                 errors.push(errorMsg);
-                 console.error(`[Error] ${errorMsg}`); // Log the detailed error
+          const successMsg = `Swapped meal plan entries ${entryId} (now ${secondStart}, ${second.meal_type?.name}) and ${swapWith} (now ${firstStart}, ${first.meal_type?.name}).`;
+          console.error(`[Info] ${successMsg}`);
+          return toolResult(successMsg, {
+            updated: [{ type: 'meal_plan', id: entryId }, { type: 'meal_plan', id: swapWith }],
+            meal_plans: [toMealPlanEntry({ ...first, ...firstPayload }), toMealPlanEntry({ ...second, ...secondPayload })],
+          });
+        }
+
+        if (!newDate || !DATE_REGEX.test(newDate)) {
+          throw new McpError(ErrorCode.InvalidParams, "Provide new_date (YYYY-MM-DD) or swap_with.");
+        }
+        const plan = await fetchMealPlan(entryId);
+        const payload: Record<string, any> = shiftedMealPlanDates(plan, newDate);
+        if (args.meal_type !== undefined) {
+          const mealType = await resolveMealType(args.meal_type as string);
+          payload.meal_type = { id: mealType.id, name: mealType.name };
+        }
+
+        const url = `/api/meal-plan/${entryId}/`;
+        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+        const response = await apiClient.patch(url, payload);
+        console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+
+        const successMsg = `Moved meal plan entry ID ${entryId} from ${String(plan.from_date).split('T')[0]} to ${newDate}${payload.meal_type ? ` (${payload.meal_type.name})` : ''}.`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { updated: [{ type: 'meal_plan', id: entryId }], meal_plans: [toMealPlanEntry({ ...plan, ...payload })] });
+      }
+
+      // --- delete_tandoor_meal_plan ---
+      case "delete_tandoor_meal_plan": {
+        const args = request.params.arguments || {};
+        const entryIds = args.entry_ids as number[] | undefined;
+        const fromDate = args.from_date as string | undefined;
+        const toDate = args.to_date as string | undefined;
+        const mealTypeId = args.meal_type_id as number | undefined;
+
+        let idsToDelete: number[];
+        if (entryIds && Array.isArray(entryIds) && entryIds.length > 0) {
+          idsToDelete = entryIds;
+        } else if (fromDate && toDate) {
+          if (!DATE_REGEX.test(fromDate) || !DATE_REGEX.test(toDate)) {
+            throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
+          }
+          idsToDelete = (await fetchMealPlansInRange(fromDate, toDate, mealTypeId)).map(plan => plan.id);
+        } else {
+          throw new McpError(ErrorCode.InvalidParams, "Provide entry_ids (array) or both from_date and to_date.");
+        }
+
+        if (idsToDelete.length === 0) {
+          return toolResult("No meal plan entries found to delete.", { deleted: [] });
+        }
+        // A range can match more entries than the caller expects, so it needs the same confirmation as other bulk deletes
+        if (!entryIds?.length && args.confirm !== true && args.dry_run !== true) {
+          throw new McpError(ErrorCode.InvalidParams, `Deleting every entry from ${fromDate} to ${toDate} removes ${idsToDelete.length} meal plan entr${idsToDelete.length === 1 ? 'y' : 'ies'} (IDs: ${idsToDelete.join(', ')}). Set confirm: true to proceed.`);
+        }
+
+        const deleted: number[] = [];
+        const errors: ToolError[] = [];
+        for (const id of idsToDelete) {
+          const url = `/api/meal-plan/${id}/`;
+          console.error(`[API] DELETE ${url}`);
+          try {
+            const response = await apiClient.delete(url);
+            console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+            deleted.push(id);
+          } catch (err: any) {
+            const errorMsg = axios.isAxiosError(err) && err.response?.status === 404
+              ? `Meal plan entry with ID ${id} not found.`
+              : `Failed to delete meal plan entry ID ${id}: ${err.message}`;
+            errors.push({ item: String(id), error: errorMsg });
+            console.error(`[Error] ${errorMsg}`);
+          }
+        }
+
+        let finalText = deleted.length > 0
+          ? `Deleted ${deleted.length} meal plan entr${deleted.length === 1 ? 'y' : 'ies'}: ${deleted.join(', ')}.`
+          : 'No meal plan entries were deleted.';
+        if (errors.length > 0) {
+          finalText += `\n\nErrors encountered:\n${errors.map(error => error.error).join('\n')}`;
+        }
+        return toolResult(finalText, { deleted: deleted.map(id => ({ type: 'meal_plan', id })), errors });
+      }
+
+      // --- get_recipes ---
+      case "get_recipes": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        
+        const limit = args.limit as number || 10; // Default to 10 if not provided
+        const format = parseRecipeFormat(args.format, 'compact');
+        const pagination = paginationFromArgs(args, limit);
+
+        // A book given by name narrows the search like books_and
+        let searchArgs: Record<string, unknown> = args;
+        if (args.book !== undefined) {
+          const book = await resolveArgument('recipe book', args.book);
+          searchArgs = { ...args, books_and: [...((args.books_and as number[] | undefined) ?? []), book.id] };
+        }
+        
+        try {
+          const paged = await searchRecipes(searchArgs, pagination);
+          const recipes = paged.results;
+          
+          // Search results lack steps; the markdown format needs the full recipe. A recipe whose details cannot be
+          // fetched is shown as a summary instead of failing the whole search.
+          let rendered: string[];
+          if (format === 'markdown') {
+            const details = await mapSettled(recipes, async recipe => {
+              const detailUrl = `/api/recipe/${recipe.id}/`;
+              console.error(`[API] GET ${detailUrl} - Fetching recipe details`);
+              const detail = await apiClient.get(detailUrl);
+              console.error(`[API] GET ${detailUrl} - Status: ${detail.status}`);
+              return detail.data as TandoorRecipe;
+            });
+            rendered = details.map((outcome, index) => {
+              if (outcome.status === 'fulfilled') return renderRecipe(outcome.value, format);
+              const reason = outcome.status === 'rejected' ? outcome.reason?.message ?? outcome.reason : 'not fetched';
+              console.warn(`[Warning] Could not fetch details of recipe ID ${recipes[index].id}: ${reason}`);
+              return `${renderRecipe(recipes[index], 'compact')}\n(Details could not be loaded: ${reason})`;
+            });
+          } else {
+            rendered = recipes.map(recipe => renderRecipe(recipe, format));
+          }
+
+          const resultText = rendered.length > 0
+            ? `Found recipes (${describePage(paged)}):\n\n${rendered.join(format === 'markdown' ? '\n\n---\n\n' : '\n\n')}`
+            : 'No recipes found matching the criteria.';
+            
+          return toolResult(resultText, { recipes: recipes.map(toRecipeSummary), page: pageInfo(paged) });
+        } catch (err: any) {
+          if (err instanceof McpError) throw err;
+          console.error(`[Error] Failed to search recipes:`, err);
+          throw toMcpError(err, `Failed to search recipes`);
+        }
+      }
+      
+      // --- get_meal_plans ---
+      case "get_meal_plans": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        
+        const fromDate = args.from_date as string | undefined;
+        const toDate = args.to_date as string | undefined;
+        const mealTypeId = args.meal_type_id as number | undefined;
+        
+        // Validate date format
+        if (fromDate && !DATE_REGEX.test(fromDate)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid from_date format. Use YYYY-MM-DD.");
+        }
+        if (toDate && !DATE_REGEX.test(toDate)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid to_date format. Use YYYY-MM-DD.");
+        }
+        
+        try {
+          const mealPlans: MealPlanEntry[] = (await fetchMealPlansInRange(fromDate, toDate, mealTypeId)).map(toMealPlanEntry);
+          
+          const resultText = mealPlans.length > 0
+            ? `Found ${mealPlans.length} meal plans:\n\n${mealPlans.map(p => 
+                `ID: ${p.id}${p.title ? ' - ' + p.title : ''}\nRecipe: ${p.recipe?.name || 'Unknown Recipe'} (ID: ${p.recipe?.id})\nMeal Type: ${p.meal_type || 'Unknown Meal Type'}\nDate: ${p.from_date}${p.to_date ? ' to ' + p.to_date : ''}\nServings: ${p.servings}${p.note ? '\nNote: ' + p.note : ''}`
+              ).join('\n\n')}`
+            : 'No meal plans found matching the criteria.';
+            
+          return toolResult(resultText, { meal_plans: mealPlans });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch meal plans:`, err);
+          throw toMcpError(err, `Failed to fetch meal plans`);
+        }
+      }
+      
+      // --- get_recipe_details ---
+      case "get_recipe_details": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.recipe_id !== 'number') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe_id (number).");
+        }
+        const recipeId = args.recipe_id;
+        // JSON stays the default so clients that parse the raw recipe keep working
+        const format = parseRecipeFormat(args.format, 'json');
+        const url = `/api/recipe/${recipeId}/`;
+        console.error(`[API] GET ${url} - Fetching recipe details`);
+        try {
+          const response = await apiClient.get(url);
+          console.error(`[API] GET ${url} - Status: ${response.status}`);
+          return toolResult(renderRecipe(response.data, format), { recipe: toRecipeData(response.data) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch recipe details for ID ${recipeId}:`, err);
+          throw toMcpError(err, `Failed to fetch recipe details`);
+        }
+      }
+
+      // --- scale_recipe ---
+      case "scale_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || (typeof args.recipe !== 'string' && typeof args.recipe !== 'number')) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe (name or ID).");
+        }
+        const targetServings = args.servings as number | undefined;
+        const ingredientName = args.ingredient as string | undefined;
+        const ingredientAmount = args.ingredient_amount as number | undefined;
+        const ingredientUnit = args.ingredient_unit as string | undefined;
+        const unitSystem = args.unit_system as string | undefined;
+
+        if (targetServings !== undefined && (typeof targetServings !== 'number' || targetServings <= 0)) {
+          throw new McpError(ErrorCode.InvalidParams, "servings must be a positive number.");
+        }
+        if (ingredientName !== undefined && (typeof ingredientAmount !== 'number' || ingredientAmount <= 0)) {
+          throw new McpError(ErrorCode.InvalidParams, "ingredient_amount (positive number) is required when scaling by ingredient.");
+        }
+        if (ingredientName !== undefined && targetServings !== undefined) {
+          throw new McpError(ErrorCode.InvalidParams, "Scale either by servings or by ingredient and ingredient_amount, not both.");
+        }
+        if (unitSystem !== undefined && !['original', 'metric', 'imperial'].includes(unitSystem)) {
+          throw new McpError(ErrorCode.InvalidParams, "unit_system must be one of: original, metric, imperial.");
+        }
+
+        let recipeId: number;
+        try {
+          recipeId = await resolveRecipeId(args.recipe as string | number);
+        } catch (err: any) {
+          throw new McpError(ErrorCode.InvalidParams, err.message);
+        }
+        const url = `/api/recipe/${recipeId}/`;
+        console.error(`[API] GET ${url} - Fetching recipe to scale`);
+        const response = await apiClient.get(url);
+        console.error(`[API] GET ${url} - Status: ${response.status}`);
+        const recipe: TandoorRecipe = response.data;
+        const baseServings = Number(recipe.servings) || 1;
+
+        let factor = 1;
+        let scaleNote = '';
+        if (ingredientName !== undefined) {
+          const ingredients = (recipe.steps || [])
+            .flatMap(step => step.ingredients || [])
+            .filter((ing): ing is TandoorIngredient & { food: TandoorFood } => !!ing.food && !ing.is_header);
+          const wanted = ingredientName.toLowerCase();
+          const match = ingredients.find(ing => ing.food.name.toLowerCase() === wanted)
+            ?? ingredients.find(ing => ing.food.name.toLowerCase().includes(wanted) || wanted.includes(ing.food.name.toLowerCase()));
+          if (!match || !Number(match.amount)) {
+            throw new McpError(ErrorCode.InvalidParams, `Ingredient "${ingredientName}" with an amount not found in recipe "${recipe.name}". Ingredients: ${ingredients.map(ing => ing.food.name).join(', ')}.`);
+          }
+          let target = ingredientAmount as number;
+          if (ingredientUnit && !match.unit) {
+            throw new McpError(ErrorCode.InvalidParams, `${match.food.name} has no unit in recipe "${recipe.name}" (${Number(match.amount)}), so ingredient_unit ${ingredientUnit} cannot be applied. Leave out ingredient_unit to scale by count.`);
+          }
+          if (ingredientUnit && match.unit && ingredientUnit.toLowerCase() !== match.unit.name.toLowerCase()) {
+            const converted = convertAmount(target, ingredientUnit, match.unit.name);
+            if (converted === null) {
+              throw new McpError(ErrorCode.InvalidParams, `Cannot convert ${ingredientUnit} to the recipe's unit (${match.unit.name}) for ${match.food.name}.`);
             }
+            target = converted;
+          }
+          factor = target / Number(match.amount);
+          scaleNote = `Scaled by ${match.food.name}: ${[ingredientAmount, ingredientUnit].filter(Boolean).join(' ')} instead of ${[Number(match.amount), match.unit?.name].filter(Boolean).join(' ')} (x${Number(factor.toFixed(3))}).`;
+        } else if (targetServings !== undefined) {
+          factor = targetServings / baseServings;
+          scaleNote = `Scaled from ${baseServings} to ${targetServings} servings (x${Number(factor.toFixed(3))}).`;
+        }
+
+        const text = renderRecipeMarkdown(recipe, {
+          factor,
+          servings: targetServings,
+          unit_system: unitSystem === 'metric' || unitSystem === 'imperial' ? unitSystem as UnitSystem : undefined,
+          round: args.round !== false,
+        });
+        // The JSON amounts are scaled but keep the recipe's own units
+        return toolResult(scaleNote ? `${scaleNote}\n\n${text}` : text, {
+          recipe: toRecipeData(recipe, factor),
+          details: { factor: Number(factor.toFixed(3)), base_servings: baseServings, servings: targetServings ?? Number((baseServings * factor).toFixed(2)) },
+        });
+      }
+
+      // --- get_meal_types ---
+      case "get_meal_types": {
+        const args = request.params.arguments || {};
+        const url = '/api/meal-type/';
+        try {
+          const paged = await fetchPaged<TandoorMealType>(url, paginationFromArgs(args), 'meal types');
+          const mealTypes = paged.results;
+          const resultText = mealTypes.length > 0
+            ? `Available Meal Types (${describePage(paged)}):\n${mealTypes.map(mt => `ID: ${mt.id} - Name: ${mt.name}`).join('\n')}`
+            : 'No meal types found.';
+          return toolResult(resultText, { items: mealTypes.map(toTaxonomyItem), page: pageInfo(paged) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch meal types:`, err);
+          throw toMcpError(err, `Failed to fetch meal types`);
+        }
+      }
+
+      // --- get_keywords ---
+      case "get_keywords": {
+        const args = request.params.arguments || {};
+        const query = args.query as string | undefined;
+        const root = args.root as number | undefined;
+        const tree = args.tree as number | undefined;
+        
+        let url = '/api/keyword/';
+        const queryParams: string[] = [];
+        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
+        if (root !== undefined) queryParams.push(`root=${root}`);
+        if (tree !== undefined) queryParams.push(`tree=${tree}`);
+        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+
+        try {
+          const paged = await fetchPaged<TandoorKeyword>(url, paginationFromArgs(args), 'keywords');
+          const keywords = paged.results;
+          const resultText = keywords.length > 0
+            ? `Found Keywords (${describePage(paged)}):\n${keywords.map(k => `ID: ${k.id} - Name: ${k.name}${k.description ? ' - ' + k.description : ''}`).join('\n')}`
+            : 'No keywords found.';
+          return toolResult(resultText, { items: keywords.map(toTaxonomyItem), page: pageInfo(paged) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch keywords:`, err);
+          throw toMcpError(err, `Failed to fetch keywords`);
+        }
+      }
+
+      // --- get_foods ---
+      case "get_foods": {
+        const args = request.params.arguments || {};
+        const query = args.query as string | undefined;
+        const root = args.root as number | undefined;
+        const tree = args.tree as number | undefined;
+        
+        let url = '/api/food/';
+        const queryParams: string[] = [];
+        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
+        if (root !== undefined) queryParams.push(`root=${root}`);
+        if (tree !== undefined) queryParams.push(`tree=${tree}`);
+        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+
+        try {
+          const paged = await fetchPaged<TandoorFood>(url, paginationFromArgs(args), 'foods');
+          const foods = paged.results;
+          const resultText = foods.length > 0
+            ? `Found Foods (${describePage(paged)}):\n${foods.map(f => `ID: ${f.id} - Name: ${f.name}${f.description ? ' - ' + f.description : ''}`).join('\n')}`
+            : 'No foods found.';
+          return toolResult(resultText, { items: foods.map(toTaxonomyItem), page: pageInfo(paged) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch foods:`, err);
+          throw toMcpError(err, `Failed to fetch foods`);
+        }
+      }
+
+      // --- get_units ---
+      case "get_units": {
+        const args = request.params.arguments || {};
+        const query = args.query as string | undefined;
+        
+        let url = '/api/unit/';
+        const queryParams: string[] = [];
+        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
+        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+
+        try {
+          const paged = await fetchPaged<TandoorUnit>(url, paginationFromArgs(args), 'units');
+          const units = paged.results;
+          const resultText = units.length > 0
+            ? `Found Units (${describePage(paged)}):\n${units.map(u => `ID: ${u.id} - Name: ${u.name}${u.description ? ' - ' + u.description : ''}`).join('\n')}`
+            : 'No units found.';
+          return toolResult(resultText, { items: units.map(toTaxonomyItem), page: pageInfo(paged) });
+        } catch (err: any) {
+          console.error(`[Error] Failed to fetch units:`, err);
+          throw toMcpError(err, `Failed to fetch units`);
+        }
+      }
+
+      // --- clear_cache ---
+      case "clear_cache": {
+        const args = request.params.arguments || {};
+        const groups = args.groups as CacheGroup[] | undefined;
+        if (groups !== undefined && (!Array.isArray(groups) || groups.some(group => !CACHE_GROUPS.includes(group)))) {
+          throw new McpError(ErrorCode.InvalidParams, `groups must be a list of: ${CACHE_GROUPS.join(', ')}.`);
+        }
+        const cleared = clearCache(groups);
+        const stats = cacheStats();
+        console.error(`[Info] Cleared ${cleared} cached responses${groups ? ` (${groups.join(', ')})` : ''}`);
+        const total = stats.hits + stats.misses;
+        const hitRate = total > 0 ? ` (${Math.round((stats.hits / total) * 100)}% hit rate)` : '';
+        const text = `Cleared ${cleared} cached responses${groups ? ` for ${groups.join(', ')}` : ''}. ${stats.entries} remain cached.\nSince the server started: ${stats.hits} cache hits, ${stats.misses} misses${hitRate}.`;
+        return toolResult(text, { details: { cleared, groups: groups ?? CACHE_GROUPS, ...stats } });
+      }
+
+      // --- create_food / create_unit / create_keyword ---
+      case "create_food":
+      case "create_unit":
+      case "create_keyword": {
+        const kind = request.params.name.replace('create_', '') as TaxonomyKind;
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.name !== 'string' || !args.name.trim()) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: name.");
+        }
+        const existing = await findExistingByName(kind, args.name, typeof args.plural_name === 'string' ? [args.plural_name] : []);
+        if (existing) {
+          throw new McpError(ErrorCode.InvalidParams, `A ${kind} named "${existing.name}" already exists (ID: ${existing.id}). Use update_${kind} to change it.`);
+        }
+
+        // Resolve the parent first, so an unknown parent fails before anything (even a supermarket category) is created
+        const parent = kind !== 'unit' && args.parent !== undefined ? await resolveTreeParent(kind, args.parent) : null;
+        const payload = await buildTaxonomyFields(kind, args);
+        const url = `/api/${kind}/`;
+        console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+        let created: TaxonomyEntry;
+        try {
+          const response = await apiClient.post(url, payload);
+          console.error(`[API] POST ${url} - Status: ${response.status}`);
+          created = response.data;
+        } catch (err: any) {
+          console.error(`[Error] Failed to create ${kind}:`, err);
+          throw toMcpError(err, `Failed to create ${kind}`);
+        }
+
+        let moved = '';
+        const errors: ToolError[] = [];
+        if (parent) {
+          try {
+            moved = `\nTree: ${await moveInTree(kind as 'food' | 'keyword', created.id, parent)}.`;
+          } catch (err: any) {
+            // The entry exists now, so report the partial success instead of failing the whole call
+            console.error(`[Error] Failed to move ${kind} ${created.id} under ${parent.id}:`, err);
+            moved = `\nWarning: created (ID: ${created.id}), but moving it under "${parent.name}" (ID: ${parent.id}) failed: ${err.message}`;
+            errors.push({ item: `move under ${parent.name}`, error: err.message });
+          }
+        }
+        return toolResult(`Successfully created ${kind}:\n${describeTaxonomyEntry(kind, created)}${moved}`, {
+          created: [{ type: kind, id: created.id, name: created.name }],
+          items: [toTaxonomyItem(created)],
+          errors,
+        });
+      }
+
+      // --- update_food / update_unit / update_keyword ---
+      case "update_food":
+      case "update_unit":
+      case "update_keyword": {
+        const kind = request.params.name.replace('update_', '') as TaxonomyKind;
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        const entry = await resolveArgument(kind, args[kind]);
+        const moveParent = kind !== 'unit' && args.parent !== undefined;
+        // Resolved before the PATCH, so an unknown parent or a self-parent changes nothing
+        const parent = moveParent ? await resolveTreeParent(kind as 'food' | 'keyword', args.parent, entry.id) : null;
+        const payload = await buildTaxonomyFields(kind, args);
+        if (Object.keys(payload).length === 0 && !moveParent) {
+          throw new McpError(ErrorCode.InvalidParams, `No fields to update. Provide at least one field to change.`);
+        }
+
+        let updated: TaxonomyEntry | undefined = entry.data;
+        if (Object.keys(payload).length > 0) {
+          const url = `/api/${kind}/${entry.id}/`;
+          console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+          try {
+            const response = await apiClient.patch(url, payload);
+            console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+            updated = response.data;
+          } catch (err: any) {
+            console.error(`[Error] Failed to update ${kind} ${entry.id}:`, err);
+            throw toMcpError(err, `Failed to update ${kind}`);
+          }
+        }
+        let moved = '';
+        const errors: ToolError[] = [];
+        if (moveParent) {
+          const target = parent ? `under "${parent.name}" (ID: ${parent.id})` : 'to the top level';
+          try {
+            moved = `\nTree: ${await moveInTree(kind as 'food' | 'keyword', entry.id, parent)}.`;
+          } catch (err: any) {
+            // The other fields may already be saved, so report the partial success instead of failing the whole call
+            console.error(`[Error] Failed to move ${kind} ${entry.id} ${target}:`, err);
+            const saved = Object.keys(payload).length > 0 ? 'updated' : 'not changed';
+            moved = `\nWarning: ${saved}, but moving it ${target} failed: ${err.message}`;
+            errors.push({ item: `move ${target}`, error: err.message });
+          }
         }
+        const heading = errors.length > 0 && Object.keys(payload).length === 0 ? `Could not move ${kind}` : `Successfully updated ${kind}`;
+        return toolResult(`${heading}:\n${describeTaxonomyEntry(kind, updated ?? entry)}${moved}`, {
+          updated: errors.length > 0 && Object.keys(payload).length === 0 ? [] : [{ type: kind, id: entry.id, name: (updated ?? entry).name }],
+          items: [toTaxonomyItem(updated ?? entry)],
+          errors,
+        });
+      }
 
-        let finalText = results.join('\n');
-        if (errors.length > 0) {
-            finalText += `\n\nErrors encountered:\n${errors.join('\n')}`;
+      // --- delete_food / delete_unit / delete_keyword ---
+      case "delete_food":
+      case "delete_unit":
+      case "delete_keyword": {
+        const kind = request.params.name.replace('delete_', '') as TaxonomyKind;
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        if (args.confirm !== true && args.dry_run !== true) {
+          throw new McpError(ErrorCode.InvalidParams, `Deleting a ${kind} is permanent. Set confirm: true to proceed.`);
+        }
+        const entry = await resolveArgument(kind, args[kind], { exact_only: true });
+
+        const url = `/api/${kind}/${entry.id}/`;
+        console.error(`[API] DELETE ${url}`);
+        try {
+          const response = await apiClient.delete(url);
+          console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+        } catch (err: any) {
+          console.error(`[Error] Failed to delete ${kind} ${entry.id}:`, err);
+          // Tandoor refuses to delete entries that are still used (e.g. a food in a recipe)
+          const hint = kind === 'keyword' ? '' : ` If it is still in use, merge it into another ${kind} with merge_${kind}s instead.`;
+          throw toMcpError(err, `Failed to delete ${kind} "${entry.name}"`, hint);
         }
 
-        return { content: [{ type: "text", text: finalText }] };
+        const successMsg = `Successfully deleted ${kind} "${entry.name}" (ID: ${entry.id}).`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { deleted: [{ type: kind, id: entry.id, name: entry.name }] });
       }
 
-      // --- get_recipes ---
-      case "get_recipes": {
+      // --- merge_foods / merge_units ---
+      case "merge_foods":
+      case "merge_units": {
+        const kind = request.params.name === 'merge_foods' ? 'food' : 'unit';
         const args = request.params.arguments;
         if (!args || typeof args !== 'object' || args === null) {
           throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
         }
-        
-        const query = args.query as string | undefined;
-        const keywords = args.keywords as number[] | undefined;
-        const foods = args.foods as number[] | undefined;
-        const rating = args.rating as number | undefined;
-        const limit = args.limit as number || 10; // Default to 10 if not provided
-        
-        // Construct query parameters
-        const params: Record<string, string | number> = { page_size: limit };
-        
-        if (query) {
-          params.query = query;
-        }
-        
-        // Build URL with query parameters
-        let url = '/api/recipe/';
-        const queryParams: string[] = [];
-        
-        // Add basic params
-        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
-        if (rating !== undefined) queryParams.push(`rating=${rating}`);
-        if (limit) queryParams.push(`page_size=${limit}`);
-        
-        // Handle array parameters (keywords, foods)
-        if (keywords && Array.isArray(keywords) && keywords.length > 0) {
-          keywords.forEach(k => queryParams.push(`keywords_or=${k}`));
+        if (args.confirm !== true && args.dry_run !== true) {
+          throw new McpError(ErrorCode.InvalidParams, `Merging deletes the source ${kind} after moving its references. Set confirm: true to proceed.`);
         }
-        
-        if (foods && Array.isArray(foods) && foods.length > 0) {
-          foods.forEach(f => queryParams.push(`foods_or=${f}`));
+        const source = await resolveArgument(kind, args.source, { exact_only: true });
+        const target = await resolveArgument(kind, args.target, { exact_only: true });
+        if (source.id === target.id) {
+          throw new McpError(ErrorCode.InvalidParams, `Source and target are the same ${kind} ("${source.name}", ID: ${source.id}).`);
         }
-        
-        // Add query parameters to URL
-        if (queryParams.length > 0) {
-          url += '?' + queryParams.join('&');
+
+        // Tandoor's merge endpoint rewrites every reference (ingredients, shopping list, conversions, ...) to the target
+        const url = `/api/${kind}/${source.id}/merge/${target.id}/`;
+        console.error(`[API] PUT ${url} - Merging ${kind} "${source.name}" into "${target.name}"`);
+        try {
+          const response = await apiClient.put(url);
+          console.error(`[API] PUT ${url} - Status: ${response.status}`);
+        } catch (err: any) {
+          console.error(`[Error] Failed to merge ${kind} ${source.id} into ${target.id}:`, err);
+          throw toMcpError(err, `Failed to merge ${kind}`);
         }
+
+        const successMsg = `Successfully merged ${kind} "${source.name}" (ID: ${source.id}) into "${target.name}" (ID: ${target.id}).`;
+        console.error(`[Info] ${successMsg}`);
+        return toolResult(successMsg, { deleted: [{ type: kind, id: source.id, name: source.name }], updated: [{ type: kind, id: target.id, name: target.name }] });
+      }
+
+      // --- get_shopping_list ---
+      case "get_shopping_list": {
+        const args = request.params.arguments || {};
+        const checked = args.checked as string || "recent"; // Default to recent
         
-        console.error(`[API] GET ${url} - Searching for recipes`);
-        
+        const url = `/api/shopping-list-entry/?checked=${encodeURIComponent(checked)}`;
         try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          
-          const recipes = response.data.results || [];
-          const count = response.data.count || 0;
-          
-          // Format the results
-          const formattedRecipes = recipes.map((recipe: any) => ({
-            id: recipe.id,
-            name: recipe.name,
-            description: recipe.description || '',
-            rating: recipe.rating || 'Not rated',
-            servings: recipe.servings || 0,
-            keywords: (recipe.keywords || []).map((k: any) => ({ id: k.id, name: k.label }))
-          }));
-          
-          const resultText = formattedRecipes.length > 0
-            ? `Found ${count} recipes (showing ${formattedRecipes.length}):\n\n${formattedRecipes.map((r: { id: number; name: string; description: string; rating: string }) => 
-                `ID: ${r.id} - ${r.name}${r.description ? '\nDescription: ' + r.description : ''}${r.rating ? '\nRating: ' + r.rating : ''}`
-              ).join('\n\n')}`
-            : 'No recipes found matching the criteria.';
-            
-          return { content: [{ type: "text", text: resultText }] };
+          const list = await fetchPaged<TandoorShoppingEntry>(url, { all: true }, 'shopping list');
+          const items = list.results;
+          const errors: ToolError[] = list.truncated ? [{ item: 'shopping list', error: `only ${items.length} of ${list.count} entries could be fetched` }] : [];
+          const truncatedNote = list.truncated ? `\n\nNote: only the first ${items.length} of ${list.count} entries are shown.` : '';
+          if (args.aggregate === true && items.length > 0) {
+            const aggregated = aggregateShoppingEntries(items, await fetchUnitConversions());
+            const text = `Shopping List (${checked}, ${items.length} entries merged into ${aggregated.length} items):\n\n${formatAggregatedShoppingList(aggregated)}${truncatedNote}`;
+            return toolResult(text, { shopping_items: items.map(toShoppingItem), details: { aggregated }, errors });
+          }
+          const resultText = items.length > 0
+            ? `Shopping List Items (${checked}):\n${items.map(item => 
+                `ID: ${item.id} - ${item.amount} ${item.unit?.name || '?'} ${item.food?.name || '?'} ${item.checked ? '[Checked]' : ''}${item.note ? ' (Note: ' + item.note + ')' : ''}`
+              ).join('\n')}${truncatedNote}`
+            : `No shopping list items found (filter: ${checked}).`;
+          return toolResult(resultText, { shopping_items: items.map(toShoppingItem), errors });
         } catch (err: any) {
-          console.error(`[Error] Failed to search recipes:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to search recipes: ${err.message}`);
+          console.error(`[Error] Failed to fetch shopping list:`, err);
+          throw toMcpError(err, `Failed to fetch shopping list`);
         }
       }
-      
-      // --- get_meal_plans ---
-      case "get_meal_plans": {
+
+      // --- add_shopping_list_item ---
+      case "add_shopping_list_item": {
         const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null) {
-          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        if (!args || typeof args !== 'object' || args === null || !args.food_name_or_id || !args.amount || !args.unit_name_or_id) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: food_name_or_id, amount, unit_name_or_id.");
         }
         
-        const fromDate = args.from_date as string | undefined;
-        const toDate = args.to_date as string | undefined;
-        const mealTypeId = args.meal_type_id as number | undefined;
-        
-        // Build URL with query parameters
-        let url = '/api/meal-plan/';
-        const queryParams: string[] = [];
+        const foodRef = args.food_name_or_id as string | number;
+        const amount = args.amount as string;
+        const unitRef = args.unit_name_or_id as string | number;
+        const note = args.note as string | undefined;
         
-        if (fromDate) {
-          // Validate date format
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(fromDate)) {
-            throw new McpError(ErrorCode.InvalidParams, "Invalid from_date format. Use YYYY-MM-DD.");
+        const createMissing = args.create_missing === true;
+
+        // Resolve food and unit (names or IDs)
+        let food: ResolvedEntity<TandoorFood>;
+        let unit: ResolvedEntity<TandoorUnit>;
+        try {
+          food = await resolveByName('food', foodRef, { create: createMissing });
+          unit = await resolveByName('unit', unitRef, { create: createMissing });
+        } catch (err: any) {
+          if (err instanceof NameResolutionError) {
+            throw new McpError(ErrorCode.InvalidParams, err.message);
           }
-          queryParams.push(`from_date=${fromDate}`);
+          throw toMcpError(err, `Error looking up food/unit`);
         }
-        
-        if (toDate) {
-          // Validate date format
-          if (!/^\d{4}-\d{2}-\d{2}$/.test(toDate)) {
-            throw new McpError(ErrorCode.InvalidParams, "Invalid to_date format. Use YYYY-MM-DD.");
-          }
-          queryParams.push(`to_date=${toDate}`);
+        const foodId = food.id;
+        const unitId = unit.id;
+        const foodName = food.name;
+        const unitName = unit.name;
+
+        if (food.data?.food_onhand && args.include_onhand !== true) {
+          console.error(`[Info] Skipping shopping list item: food "${foodName}" (ID ${foodId}) is on hand`);
+          const text = `Not added: ${foodName} (ID: ${foodId}) is marked as on hand. Use include_onhand: true to add it anyway, or set_food_onhand to mark it as not on hand.`;
+          return toolResult(text, { skipped: [{ item: `${foodName} (ID: ${foodId})`, reason: 'on hand' }] });
         }
-        
-        if (mealTypeId !== undefined) {
-          queryParams.push(`meal_type=${mealTypeId}`);
+
+        // Create payload with objects including id and name
+        const payload = {
+          food: { id: foodId, name: foodName || 'Unknown' }, // Include name
+          amount: amount,
+          unit: { id: unitId, name: unitName || 'Unknown' }, // Include name
+          note: note
+        };
+
+        const url = '/api/shopping-list-entry/';
+        console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+        try {
+          const response = await apiClient.post(url, payload);
+          console.error(`[API] POST ${url} - Status: ${response.status}`);
+          const newItem: TandoorShoppingEntry = response.data;
+          const successMsg = `Successfully added item to shopping list (ID: ${newItem.id}): ${newItem.amount} ${newItem.unit?.name || '?'} ${newItem.food?.name || '?'}.`;
+          return toolResult(successMsg, { created: [{ type: 'shopping_item', id: newItem.id, name: foodName }], shopping_items: [toShoppingItem(newItem)] });
+        } catch (err: any) {
+          console.error(`[Error] Failed to add shopping list item:`, err);
+          throw toMcpError(err, `Failed to add shopping list item`);
         }
-        
-        // Add query parameters to URL
-        if (queryParams.length > 0) {
-          url += '?' + queryParams.join('&');
+      }
+
+      // --- update_shopping_list_item ---
+      case "update_shopping_list_item": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.item_id !== 'number') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: item_id (number).");
         }
         
-        console.error(`[API] GET ${url} - Fetching meal plans`);
-        
+        const itemId = args.item_id;
+        const payload: Record<string, any> = {};
+        if (args.amount !== undefined) payload.amount = args.amount as string;
+        if (args.unit_id !== undefined) payload.unit = args.unit_id as number;
+        if (args.checked !== undefined) payload.checked = args.checked as boolean;
+        if (args.note !== undefined) payload.note = args.note as string;
+
+        if (Object.keys(payload).length === 0) {
+           throw new McpError(ErrorCode.InvalidParams, "No fields provided to update.");
+        }
+
+        const url = `/api/shopping-list-entry/${itemId}/`;
+        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
         try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          
-          const mealPlans = response.data || [];
-          
-          // Format the results
-          const formattedMealPlans = mealPlans.map((plan: any) => ({
-            id: plan.id,
-            title: plan.title || '',
-            recipe: {
-              id: plan.recipe?.id,
-              name: plan.recipe?.name || 'Unknown Recipe'
-            },
-            meal_type: {
-              id: plan.meal_type?.id,
-              name: plan.meal_type?.name || 'Unknown Meal Type'
-            },
-            from_date: plan.from_date,
-            servings: plan.servings,
-            note: plan.note || ''
-          }));
-          
-          const resultText = formattedMealPlans.length > 0
-            ? `Found ${formattedMealPlans.length} meal plans:\n\n${formattedMealPlans.map((p: { id: number; title: string; recipe: { name: string; id: number }; meal_type: { name: string }; from_date: string; servings: string; note: string }) => 
-                `ID: ${p.id}${p.title ? ' - ' + p.title : ''}\nRecipe: ${p.recipe.name} (ID: ${p.recipe.id})\nMeal Type: ${p.meal_type.name}\nDate: ${p.from_date.split('T')[0]}\nServings: ${p.servings}${p.note ? '\nNote: ' + p.note : ''}`
-              ).join('\n\n')}`
-            : 'No meal plans found matching the criteria.';
-            
-          return { content: [{ type: "text", text: resultText }] };
+          const response = await apiClient.patch(url, payload);
+          console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+          const updatedItem: TandoorShoppingEntry = response.data;
+          const successMsg = `Successfully updated shopping list item ID ${itemId}.`;
+          return toolResult(successMsg, { updated: [{ type: 'shopping_item', id: itemId }], shopping_items: [toShoppingItem(updatedItem)] });
         } catch (err: any) {
-          console.error(`[Error] Failed to fetch meal plans:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch meal plans: ${err.message}`);
+          console.error(`[Error] Failed to update shopping list item ${itemId}:`, err);
+          throw toMcpError(err, `Failed to update shopping list item`);
         }
       }
-      
-      // --- get_recipe_details ---
-      case "get_recipe_details": {
+
+      // --- remove_shopping_list_item ---
+      case "remove_shopping_list_item": {
         const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null || typeof args.recipe_id !== 'number') {
-          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe_id (number).");
+        if (!args || typeof args !== 'object' || args === null || typeof args.item_id !== 'number') {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: item_id (number).");
         }
-        const recipeId = args.recipe_id;
-        const url = `/api/recipe/${recipeId}/`;
-        console.error(`[API] GET ${url} - Fetching recipe details`);
+        
+        const itemId = args.item_id;
+        const url = `/api/shopping-list-entry/${itemId}/`;
+        console.error(`[API] DELETE ${url}`);
         try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          // Return the full recipe data as JSON string
-          return { content: [{ type: "text", text: JSON.stringify(response.data, null, 2) }] };
+          const response = await apiClient.delete(url);
+          console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+          const successMsg = `Successfully removed shopping list item ID ${itemId}.`;
+          return toolResult(successMsg, { deleted: [{ type: 'shopping_item', id: itemId }] });
         } catch (err: any) {
-          console.error(`[Error] Failed to fetch recipe details for ID ${recipeId}:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch recipe details: ${err.message}`);
+          console.error(`[Error] Failed to remove shopping list item ${itemId}:`, err);
+          // Handle 404 Not Found specifically
+          if (axios.isAxiosError(err) && err.response?.status === 404) {
+             throw new McpError(ErrorCode.InvalidParams, `Shopping list item with ID ${itemId} not found.`);
+          }
+          throw toMcpError(err, `Failed to remove shopping list item`);
         }
       }
 
-      // --- get_meal_types ---
-      case "get_meal_types": {
-        const url = '/api/meal-type/';
-        console.error(`[API] GET ${url} - Fetching meal types`);
-        try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          const mealTypes = response.data.results || [];
-          const resultText = mealTypes.length > 0
-            ? `Available Meal Types:\n${mealTypes.map((mt: any) => `ID: ${mt.id} - Name: ${mt.name}`).join('\n')}`
-            : 'No meal types found.';
-          return { content: [{ type: "text", text: resultText }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to fetch meal types:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch meal types: ${err.message}`);
+      // --- add_shopping_list_items ---
+      case "add_shopping_list_items": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid arguments object.");
+        }
+        let items: ShoppingItemInput[];
+        if (typeof args.text === 'string' && args.text.trim()) {
+          items = parseGroceryText(args.text);
+        } else if (Array.isArray(args.items) && args.items.length > 0) {
+          items = args.items as ShoppingItemInput[];
+        } else {
+          throw new McpError(ErrorCode.InvalidParams, "Provide items (non-empty array) or text (grocery list).");
+        }
+        const createMissing = args.create_missing === true;
+        const includeOnhand = args.include_onhand === true;
+
+        const added: string[] = [];
+        const addedItems: TandoorShoppingEntry[] = [];
+        const skipped: SkippedItem[] = [];
+        const errors: ToolError[] = [];
+        for (const item of items) {
+          const label = [item.amount, item.unit, item.food].filter(part => part !== undefined && part !== null && part !== '').join(' ');
+          try {
+            if (typeof item.food !== 'string' && typeof item.food !== 'number') {
+              throw new Error('Missing food.');
+            }
+            const food = await resolveShoppingFood(item.food, createMissing);
+            if (food.data?.food_onhand && !includeOnhand) {
+              skipped.push({ item: label, reason: `${food.name} is on hand` });
+              continue;
+            }
+            const unit = item.unit !== undefined && item.unit !== null && item.unit !== '' ? await resolveShoppingUnit(item.unit, createMissing) : null;
+            const payload = {
+              food: { id: food.id, name: food.name },
+              amount: String(item.amount ?? 1),
+              unit: unit ? { id: unit.id, name: unit.name } : null,
+              note: item.note,
+            };
+            const url = '/api/shopping-list-entry/';
+            console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
+            const response = await apiClient.post(url, payload);
+            console.error(`[API] POST ${url} - Status: ${response.status}`);
+            const entry: TandoorShoppingEntry = { ...payload, ...response.data };
+            addedItems.push(entry);
+            added.push(`- ${describeShoppingEntry(entry)} (ID: ${entry.id})${food.created ? ' [new food]' : ''}`);
+          } catch (err: any) {
+            console.error(`[Error] Failed to add shopping list item "${label}":`, err);
+            errors.push(toToolError(label, err));
+          }
         }
+
+        let finalText = `Added ${added.length} of ${items.length} items to the shopping list.`;
+        if (added.length > 0) finalText += `\n${added.join('\n')}`;
+        if (skipped.length > 0) finalText += `\n\nSkipped (on hand, use include_onhand: true to add anyway):\n${skipped.map(item => `- ${item.item}: ${item.reason}`).join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nFailed:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, {
+          created: addedItems.map(entry => ({ type: 'shopping_item', id: entry.id, name: entry.food?.name })),
+          shopping_items: addedItems.map(toShoppingItem),
+          skipped,
+          errors,
+        });
       }
 
-      // --- get_keywords ---
-      case "get_keywords": {
+      // --- update_shopping_list_items ---
+      case "update_shopping_list_items": {
+        const args = request.params.arguments;
+        const actions = ['check', 'uncheck', 'delete'];
+        if (!args || typeof args !== 'object' || args === null || !actions.includes(args.action as string)) {
+          throw new McpError(ErrorCode.InvalidParams, `Missing or invalid required argument: action (${actions.join(', ')}).`);
+        }
+        const action = args.action as 'check' | 'uncheck' | 'delete';
+        const itemIds = args.item_ids as number[] | undefined;
+        if (itemIds !== undefined && (!Array.isArray(itemIds) || itemIds.some(id => typeof id !== 'number'))) {
+          throw new McpError(ErrorCode.InvalidParams, "item_ids must be an array of entry IDs.");
+        }
+        if (itemIds === undefined && args.checked === undefined && args.category === undefined && args.recipe === undefined && args.food === undefined) {
+          throw new McpError(ErrorCode.InvalidParams, "Select entries with item_ids or at least one filter (checked, category, recipe, food).");
+        }
+
+        // Resolve the filters to IDs before touching anything; deleting only accepts exact names
+        const resolveOptions: ResolveOptions = { exact_only: action === 'delete' };
+        const filters: ((entry: TandoorShoppingEntry) => boolean)[] = [];
+        if (typeof args.checked === 'boolean') {
+          const checked = args.checked;
+          filters.push(entry => !!entry.checked === checked);
+        }
+        if (args.category !== undefined) {
+          const category = await resolveArgument('supermarket category', args.category, resolveOptions);
+          filters.push(entry => entry.food?.supermarket_category?.id === category.id);
+        }
+        if (args.recipe !== undefined) {
+          const recipe = await resolveArgument('recipe', args.recipe, resolveOptions);
+          filters.push(entry => {
+            const linked = entry.recipe_mealplan?.recipe;
+            return (typeof linked === 'object' ? linked?.id : linked) === recipe.id;
+          });
+        }
+        if (args.food !== undefined) {
+          const food = await resolveArgument('food', args.food, resolveOptions);
+          filters.push(entry => entry.food?.id === food.id);
+        }
+
+        const errors: ToolError[] = [];
+        const list = await fetchPaged<TandoorShoppingEntry>('/api/shopping-list-entry/?checked=both', { all: true }, 'shopping list');
+        const allEntries = list.results;
+        if (list.truncated) {
+          errors.push({ item: 'shopping list', error: `only ${allEntries.length} of ${list.count} entries could be checked against the selection` });
+        }
+
+        if (itemIds) {
+          const known = new Set(allEntries.map(entry => entry.id));
+          itemIds.filter(id => !known.has(id)).forEach(id => errors.push({ item: `ID ${id}`, error: 'not found on the shopping list' }));
+        }
+        const selected = allEntries.filter(entry => (!itemIds || itemIds.includes(entry.id)) && filters.every(filter => filter(entry)));
+        if (selected.length === 0 && errors.length === 0) {
+          return toolResult("No shopping list entries match the selection.", { shopping_items: [] });
+        }
+        // Filters can match more entries than the caller expects, so deleting by filter needs confirmation
+        if (action === 'delete' && !itemIds && selected.length > 0 && args.confirm !== true && args.dry_run !== true) {
+          const preview = selected.slice(0, 20).map(entry => `${describeShoppingEntry(entry)} (ID: ${entry.id})`).join(', ');
+          const more = selected.length > 20 ? `, and ${selected.length - 20} more` : '';
+          throw new McpError(ErrorCode.InvalidParams, `Deleting by filter removes ${selected.length} shopping list entr${selected.length === 1 ? 'y' : 'ies'}: ${preview}${more}. Set confirm: true to proceed.`);
+        }
+
+        const done: string[] = [];
+        const changed: TandoorShoppingEntry[] = [];
+        let unchangedCount = 0;
+        for (const entry of selected) {
+          const label = `${describeShoppingEntry(entry)} (ID: ${entry.id})`;
+          const url = `/api/shopping-list-entry/${entry.id}/`;
+          try {
+            if (action === 'delete') {
+              console.error(`[API] DELETE ${url}`);
+              const response = await apiClient.delete(url);
+              console.error(`[API] DELETE ${url} - Status: ${response.status}`);
+            } else {
+              const checked = action === 'check';
+              if (!!entry.checked === checked) {
+                unchangedCount++;
+                continue;
+              }
+              const payload = { checked };
+              console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+              const response = await apiClient.patch(url, payload);
+              console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+            }
+            done.push(`- ${label}`);
+            changed.push(action === 'delete' ? entry : { ...entry, checked: action === 'check' });
+          } catch (err: any) {
+            console.error(`[Error] Failed to ${action} shopping list entry ${entry.id}:`, err);
+            errors.push(toToolError(label, err));
+          }
+        }
+
+        const verb = action === 'delete' ? 'Deleted' : action === 'check' ? 'Checked' : 'Unchecked';
+        let finalText = `${verb} ${done.length} of ${selected.length} selected shopping list entries.`;
+        if (unchangedCount > 0) finalText += ` ${unchangedCount} already ${action === 'check' ? 'checked' : 'unchecked'}.`;
+        if (done.length > 0) finalText += `\n${done.join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nFailed:\n${describeToolErrors(errors)}`;
+        const refs: EntityRef[] = changed.map(entry => ({ type: 'shopping_item', id: entry.id, name: entry.food?.name }));
+        return toolResult(finalText, {
+          ...(action === 'delete' ? { deleted: refs } : { updated: refs, shopping_items: changed.map(toShoppingItem) }),
+          errors,
+          details: { action, selected: selected.length, unchanged: unchangedCount },
+        });
+      }
+
+      // --- add_meal_plan_to_shopping_list ---
+      case "add_meal_plan_to_shopping_list": {
         const args = request.params.arguments || {};
-        const query = args.query as string | undefined;
-        const root = args.root as number | undefined;
-        const tree = args.tree as number | undefined;
-        
-        let url = '/api/keyword/';
-        const queryParams: string[] = [];
-        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
-        if (root !== undefined) queryParams.push(`root=${root}`);
-        if (tree !== undefined) queryParams.push(`tree=${tree}`);
-        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+        const fromDate = args.from_date as string | undefined;
+        const toDate = args.to_date as string | undefined;
+        const mealPlanIds = args.meal_plan_ids as number[] | undefined;
+        const includeOnhand = args.include_onhand === true;
 
-        console.error(`[API] GET ${url} - Fetching keywords`);
-        try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          const keywords = response.data.results || response.data || []; // Handle paginated and non-paginated
-          const resultText = keywords.length > 0
-            ? `Found Keywords:\n${keywords.map((k: any) => `ID: ${k.id} - Name: ${k.name}${k.description ? ' - ' + k.description : ''}`).join('\n')}`
-            : 'No keywords found.';
-          return { content: [{ type: "text", text: resultText }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to fetch keywords:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch keywords: ${err.message}`);
+        // 1. Collect meal plan entries
+        let mealPlans: TandoorMealPlan[];
+        if (mealPlanIds && Array.isArray(mealPlanIds) && mealPlanIds.length > 0) {
+          mealPlans = [];
+          for (const id of mealPlanIds) {
+            mealPlans.push(await fetchMealPlan(id));
+          }
+        } else if (fromDate && toDate) {
+          if (!DATE_REGEX.test(fromDate) || !DATE_REGEX.test(toDate)) {
+            throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
+          }
+          mealPlans = await fetchMealPlansInRange(fromDate, toDate);
+        } else {
+          throw new McpError(ErrorCode.InvalidParams, "Provide meal_plan_ids (array) or both from_date and to_date.");
+        }
+
+        const plansWithRecipe = mealPlans.filter(plan => plan.recipe?.id);
+        if (plansWithRecipe.length === 0) {
+          return toolResult("No meal plan entries with recipes found.", { shopping_items: [] });
+        }
+
+        // 2. Add each plan's ingredients, linked through a shopping list recipe like Tandoor does natively. Plans that are
+        // already on the list are skipped, so running this twice for the same week does not add everything twice.
+        const onList = await fetchMealPlansOnShoppingList();
+        const recipeCache = new Map<number, TandoorRecipe>();
+        const sections: string[] = [];
+        const errors: ToolError[] = [];
+        const addedItems: TandoorShoppingEntry[] = [];
+        const skipped: SkippedItem[] = [];
+
+        for (const plan of plansWithRecipe) {
+          const recipeId = plan.recipe!.id;
+          const planLabel = `${String(plan.from_date).split('T')[0]} ${plan.meal_type?.name || ''} - ${plan.recipe!.name} (meal plan ID ${plan.id})`;
+          const listRecipeOnList = onList.get(plan.id);
+          if (listRecipeOnList !== undefined) {
+            sections.push(`${planLabel}: already on the shopping list (shopping list recipe ID ${listRecipeOnList}), skipped.`);
+            skipped.push({ item: planLabel, reason: `already on the shopping list (shopping list recipe ID ${listRecipeOnList})` });
+            continue;
+          }
+          try {
+            if (!recipeCache.has(recipeId)) {
+              const recipeUrl = `/api/recipe/${recipeId}/`;
+              console.error(`[API] GET ${recipeUrl} - Fetching recipe ingredients`);
+              const recipeResponse = await apiClient.get(recipeUrl);
+              console.error(`[API] GET ${recipeUrl} - Status: ${recipeResponse.status}`);
+              recipeCache.set(recipeId, recipeResponse.data);
+            }
+            const recipe = recipeCache.get(recipeId)!;
+            const planServings = Number(plan.servings) || recipe.servings || 1;
+            const factor = recipe.servings ? planServings / recipe.servings : 1;
+
+            const listRecipePayload = { recipe: recipeId, mealplan: plan.id, servings: String(planServings) };
+            console.error(`[API] POST /api/shopping-list-recipe/ - Payload: ${JSON.stringify(listRecipePayload)}`);
+            const listRecipeResponse = await apiClient.post('/api/shopping-list-recipe/', listRecipePayload);
+            console.error(`[API] POST /api/shopping-list-recipe/ - Status: ${listRecipeResponse.status}`);
+            const listRecipeId = listRecipeResponse.data.id;
+            onList.set(plan.id, listRecipeId); // The same ID passed twice is only added once
+
+            const lines: string[] = [];
+            for (const step of recipe.steps || []) {
+              for (const ing of step.ingredients || []) {
+                if (ing.is_header || !ing.food) continue;
+                if (ing.food.ignore_shopping) {
+                  lines.push(`  - Skipped ${ing.food.name} (ignored for shopping)`);
+                  skipped.push({ item: `${ing.food.name} for ${planLabel}`, reason: 'ignored for shopping' });
+                  continue;
+                }
+                if (ing.food.food_onhand && !includeOnhand) {
+                  lines.push(`  - Skipped ${ing.food.name} (on hand)`);
+                  skipped.push({ item: `${ing.food.name} for ${planLabel}`, reason: 'on hand' });
+                  continue;
+                }
+
+                const amount = formatAmount((Number(ing.amount) || 0) * factor);
+                const entryPayload = {
+                  food: { id: ing.food.id, name: ing.food.name },
+                  unit: ing.unit ? { id: ing.unit.id, name: ing.unit.name } : null,
+                  amount: amount,
+                  list_recipe: listRecipeId,
+                  ingredient: ing.id,
+                };
+                console.error(`[API] POST /api/shopping-list-entry/ - Payload: ${JSON.stringify(entryPayload)}`);
+                try {
+                  const entryResponse = await apiClient.post('/api/shopping-list-entry/', entryPayload);
+                  console.error(`[API] POST /api/shopping-list-entry/ - Status: ${entryResponse.status}`);
+                  lines.push(`  - Added ${[amount, ing.unit?.name, ing.food.name].filter(Boolean).join(' ')} (ID: ${entryResponse.data.id})`);
+                  addedItems.push({ ...entryPayload, ...entryResponse.data });
+                } catch (err: any) {
+                  const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
+                  const errorMsg = `Failed to add ${ing.food.name} for ${planLabel}: ${err.message} - API Response: ${errorDetail}`;
+                  errors.push({ item: `${ing.food.name} for ${planLabel}`, error: errorMsg });
+                  console.error(`[Error] ${errorMsg}`);
+                }
+              }
+            }
+            sections.push(`${planLabel}, ${planServings} serving(s):\n${lines.length > 0 ? lines.join('\n') : '  (no ingredients)'}`);
+          } catch (err: any) {
+            const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
+            const errorMsg = `Failed to add ingredients for ${planLabel}: ${err.message} - API Response: ${errorDetail}`;
+            errors.push({ item: planLabel, error: errorMsg });
+            console.error(`[Error] ${errorMsg}`);
+          }
+        }
+
+        let finalText = `Added ${addedItems.length} item(s) to the shopping list from ${plansWithRecipe.length} meal plan entr${plansWithRecipe.length === 1 ? 'y' : 'ies'} (${skipped.length} skipped).\n\n${sections.join('\n\n')}`;
+        if (errors.length > 0) {
+          finalText += `\n\nErrors encountered:\n${errors.map(error => error.error).join('\n')}`;
         }
+        return toolResult(finalText, {
+          created: addedItems.map(entry => ({ type: 'shopping_item', id: entry.id, name: entry.food?.name })),
+          shopping_items: addedItems.map(toShoppingItem),
+          meal_plans: plansWithRecipe.map(toMealPlanEntry),
+          skipped,
+          errors,
+        });
       }
 
-      // --- get_foods ---
-      case "get_foods": {
-        const args = request.params.arguments || {};
-        const query = args.query as string | undefined;
-        const root = args.root as number | undefined;
-        const tree = args.tree as number | undefined;
-        
-        let url = '/api/food/';
-        const queryParams: string[] = [];
-        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
-        if (root !== undefined) queryParams.push(`root=${root}`);
-        if (tree !== undefined) queryParams.push(`tree=${tree}`);
-        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+      // --- consolidate_shopping_list ---
+      case "consolidate_shopping_list": {
+        const list = await fetchPaged<TandoorShoppingEntry>('/api/shopping-list-entry/?checked=false', { all: true }, 'unchecked shopping list entries');
+        const entries = list.results;
+        // Entries added for a recipe or meal plan are only merged with entries of the same link, so removing the meal
+        // plan later still removes exactly its own items
+        const byListRecipe = new Map<number | null, TandoorShoppingEntry[]>();
+        for (const entry of entries) {
+          const link = entry.list_recipe ?? null;
+          byListRecipe.set(link, [...(byListRecipe.get(link) || []), entry]);
+        }
+        const conversions = await fetchUnitConversions();
+        const aggregated = Array.from(byListRecipe.values()).flatMap(group => aggregateShoppingEntries(group, conversions));
 
-        console.error(`[API] GET ${url} - Fetching foods`);
-        try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          const foods = response.data.results || response.data || []; // Handle paginated and non-paginated
-          const resultText = foods.length > 0
-            ? `Found Foods:\n${foods.map((f: any) => `ID: ${f.id} - Name: ${f.name}${f.description ? ' - ' + f.description : ''}`).join('\n')}`
-            : 'No foods found.';
-          return { content: [{ type: "text", text: resultText }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to fetch foods:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch foods: ${err.message}`);
+        const results: string[] = [];
+        const merges: { food: string; kept_id: number; removed_ids: number[]; amount: number; unit: string | null }[] = [];
+        const errors: ToolError[] = [];
+        if (list.truncated) {
+          errors.push({ item: 'shopping list', error: `only ${entries.length} of ${list.count} entries could be fetched, so duplicates among the rest were not merged` });
         }
-      }
+        for (const item of aggregated) {
+          for (const merged of item.amounts) {
+            if (merged.entry_ids.length < 2) continue;
+            // Keep an entry that already uses the target unit, so the PATCH only changes the amount where possible
+            const keeperId = merged.entry_ids.find(id => entries.find(e => e.id === id)?.unit?.id === merged.unit_id) ?? merged.entry_ids[0];
+            const removeIds = merged.entry_ids.filter(id => id !== keeperId);
+            const payload: Record<string, any> = { amount: formatAmount(merged.amount) };
+            if (merged.unit_id !== null) payload.unit = merged.unit_id;
 
-      // --- get_units ---
-      case "get_units": {
-        const args = request.params.arguments || {};
-        const query = args.query as string | undefined;
-        
-        let url = '/api/unit/';
-        const queryParams: string[] = [];
-        if (query) queryParams.push(`query=${encodeURIComponent(query)}`);
-        if (queryParams.length > 0) url += '?' + queryParams.join('&');
+            try {
+              const url = `/api/shopping-list-entry/${keeperId}/`;
+              console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
+              const response = await apiClient.patch(url, payload);
+              console.error(`[API] PATCH ${url} - Status: ${response.status}`);
+              for (const id of removeIds) {
+                const deleteUrl = `/api/shopping-list-entry/${id}/`;
+                console.error(`[API] DELETE ${deleteUrl}`);
+                const deleteResponse = await apiClient.delete(deleteUrl);
+                console.error(`[API] DELETE ${deleteUrl} - Status: ${deleteResponse.status}`);
+              }
+              results.push(`Merged ${merged.entry_ids.length} entries of ${item.food} into entry ID ${keeperId}: ${[payload.amount, merged.unit].filter(Boolean).join(' ')} (removed IDs: ${removeIds.join(', ')}).`);
+              merges.push({ food: item.food, kept_id: keeperId, removed_ids: removeIds, amount: Number(payload.amount), unit: merged.unit });
+            } catch (err: any) {
+              const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
+              const errorMsg = `Failed to merge entries of ${item.food} (IDs: ${merged.entry_ids.join(', ')}): ${err.message} - API Response: ${errorDetail}`;
+              errors.push({ item: item.food, error: errorMsg });
+              console.error(`[Error] ${errorMsg}`);
+            }
+          }
+        }
 
-        console.error(`[API] GET ${url} - Fetching units`);
-        try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          const units = response.data.results || response.data || []; // Handle paginated and non-paginated
-          const resultText = units.length > 0
-            ? `Found Units:\n${units.map((u: any) => `ID: ${u.id} - Name: ${u.name}${u.description ? ' - ' + u.description : ''}`).join('\n')}`
-            : 'No units found.';
-          return { content: [{ type: "text", text: resultText }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to fetch units:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch units: ${err.message}`);
+        let finalText = results.length > 0 ? results.join('\n') : 'No duplicate shopping list entries to merge.';
+        if (errors.length > 0) {
+          finalText += `\n\nErrors encountered:\n${errors.map(error => error.error).join('\n')}`;
         }
+        return toolResult(finalText, {
+          updated: merges.map(merge => ({ type: 'shopping_item', id: merge.kept_id, name: merge.food })),
+          deleted: merges.flatMap(merge => merge.removed_ids.map(id => ({ type: 'shopping_item' as const, id, name: merge.food }))),
+          errors,
+          details: { merges },
+        });
       }
 
-      // --- get_shopping_list ---
-      case "get_shopping_list": {
-        const args = request.params.arguments || {};
-        const checked = args.checked as string || "recent"; // Default to recent
-        
-        let url = '/api/shopping-list-entry/';
-        const queryParams: string[] = [`checked=${checked}`];
-        url += '?' + queryParams.join('&');
-
-        console.error(`[API] GET ${url} - Fetching shopping list`);
-        try {
-          const response = await apiClient.get(url);
-          console.error(`[API] GET ${url} - Status: ${response.status}`);
-          const items = response.data || [];
-          const resultText = items.length > 0
-            ? `Shopping List Items (${checked}):\n${items.map((item: any) => 
-                `ID: ${item.id} - ${item.amount} ${item.unit?.name || '?'} ${item.food?.name || '?'} ${item.checked ? '[Checked]' : ''}${item.note ? ' (Note: ' + item.note + ')' : ''}`
-              ).join('\n')}`
-            : `No shopping list items found (filter: ${checked}).`;
-          return { content: [{ type: "text", text: resultText }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to fetch shopping list:`, err);
-          throw new McpError(ErrorCode.InternalError, `Failed to fetch shopping list: ${err.message}`);
+      // --- get_pantry ---
+      case "get_pantry": {
+        const pantry = await fetchPantry();
+        if (pantry.results.length === 0) {
+          return toolResult("No foods are marked as on hand.", { items: [] });
         }
+        const lines = pantry.results.map(food => `- ${food.name} (ID: ${food.id})${food.supermarket_category?.name ? ` [${food.supermarket_category.name}]` : ''}`);
+        const truncated = pantry.truncated ? `\n\nNote: only the first ${MAX_ALL_RESULTS} foods were checked.` : '';
+        return toolResult(`${pantry.results.length} foods on hand:\n${lines.join('\n')}${truncated}`, { items: pantry.results.map(toTaxonomyItem), details: { truncated: pantry.truncated } });
       }
 
-      // --- add_shopping_list_item ---
-      case "add_shopping_list_item": {
+      // --- set_food_onhand ---
+      case "set_food_onhand": {
         const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null || !args.food_name_or_id || !args.amount || !args.unit_name_or_id) {
-          throw new McpError(ErrorCode.InvalidParams, "Missing required arguments: food_name_or_id, amount, unit_name_or_id.");
+        if (!args || typeof args !== 'object' || args === null || !Array.isArray(args.foods) || args.foods.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: foods (non-empty array of names or IDs).");
         }
-        
-        const foodRef = args.food_name_or_id as string | number;
-        const amount = args.amount as string;
-        const unitRef = args.unit_name_or_id as string | number;
-        const note = args.note as string | undefined;
-        
-        let foodId: number;
-        let unitId: number;
-        let foodName: string = ''; // Store names after lookup
-        let unitName: string = '';
-
-        // Resolve Food ID
-        if (typeof foodRef === 'number') {
-          foodId = foodRef;
-        } else {
-          console.error(`[API] GET /api/food/?query=${encodeURIComponent(foodRef)} - Looking up food ID`);
+        const onhand = args.onhand !== false;
+        const updated: EntityRef[] = [];
+        const errors: ToolError[] = [];
+        for (const foodRef of args.foods as (string | number)[]) {
           try {
-            const foodSearch = await apiClient.get(`/api/food/?query=${encodeURIComponent(foodRef)}`);
-            if (!foodSearch.data.results || foodSearch.data.results.length === 0) {
-              throw new McpError(ErrorCode.InvalidParams, `Food named "${foodRef}" not found.`);
-            }
-            if (foodSearch.data.results.length > 1) {
-              console.warn(`[Warning] Multiple foods found for "${foodRef}". Using first match.`);
-            }
-            foodId = foodSearch.data.results[0].id;
-            foodName = foodSearch.data.results[0].name; // Store the name
-            console.error(`[Info] Found Food ID: ${foodId} and Name: "${foodName}" for "${foodRef}"`);
+            const food = await resolveByName('food', foodRef);
+            await setFoodOnhand(food.id, onhand);
+            updated.push({ type: 'food', id: food.id, name: food.name });
           } catch (err: any) {
-            throw new McpError(ErrorCode.InternalError, `Error looking up food "${foodRef}": ${err.message}`);
+            console.error(`[Error] Failed to update on-hand status of food ${foodRef}:`, err);
+            errors.push({ item: String(foodRef), error: err.message });
           }
         }
+        let finalText = `Marked ${updated.length} foods as ${onhand ? 'on hand' : 'not on hand'}.`;
+        if (updated.length > 0) finalText += `\n${updated.map(food => `- ${food.name} (ID: ${food.id})`).join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nErrors encountered:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, { updated, errors, details: { onhand } });
+      }
 
-        // Resolve Unit ID
-        if (typeof unitRef === 'number') {
-          unitId = unitRef;
-        } else {
-          console.error(`[API] GET /api/unit/?query=${encodeURIComponent(unitRef)} - Looking up unit ID`);
-          try {
-            const unitSearch = await apiClient.get(`/api/unit/?query=${encodeURIComponent(unitRef)}`);
-             if (!unitSearch.data.results || unitSearch.data.results.length === 0) {
-              throw new McpError(ErrorCode.InvalidParams, `Unit named "${unitRef}" not found.`);
+      // --- update_pantry_from_text ---
+      case "update_pantry_from_text": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || typeof args.text !== 'string' || !args.text.trim()) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: text.");
+        }
+        const onhand = args.onhand !== false;
+        const replace = args.replace === true;
+        if (replace && !onhand) {
+          throw new McpError(ErrorCode.InvalidParams, "replace can only be used with onhand: true.");
+        }
+        const items = parsePantryText(args.text);
+        if (items.length === 0) {
+          throw new McpError(ErrorCode.InvalidParams, "No foods found in text.");
+        }
+
+        const matched: ResolvedEntity[] = [];
+        const unmatched: SkippedItem[] = [];
+        for (const item of items) {
+          let names = item.parts;
+          if (item.parts.length > 1) {
+            // "mac and cheese" is one food when a food has exactly that name, otherwise each part is matched on its own
+            try {
+              const whole = await resolveByName('food', item.food, { exact_only: true });
+              names = [];
+              if (!matched.some(m => m.id === whole.id)) matched.push(whole);
+            } catch (err: any) {
+              if (!(err instanceof NameResolutionError)) throw err;
             }
-             if (unitSearch.data.results.length > 1) {
-              console.warn(`[Warning] Multiple units found for "${unitRef}". Using first match.`);
+          }
+          for (const name of names) {
+            try {
+              const food = await resolvePantryFood(name);
+              if (!matched.some(m => m.id === food.id)) matched.push(food);
+            } catch (err: any) {
+              if (!(err instanceof NameResolutionError)) throw err;
+              unmatched.push({ item: name, reason: err.message });
             }
-            unitId = unitSearch.data.results[0].id;
-            unitName = unitSearch.data.results[0].name; // Store the name
-            console.error(`[Info] Found Unit ID: ${unitId} and Name: "${unitName}" for "${unitRef}"`);
+          }
+        }
+
+        const updated: EntityRef[] = [];
+        const errors: ToolError[] = [];
+        for (const food of matched) {
+          try {
+            await setFoodOnhand(food.id, onhand);
+            updated.push({ type: 'food', id: food.id, name: food.name });
           } catch (err: any) {
-            throw new McpError(ErrorCode.InternalError, `Error looking up unit "${unitRef}": ${err.message}`);
+            console.error(`[Error] Failed to update on-hand status of food ${food.id}:`, err);
+            errors.push({ item: food.name, error: err.message });
           }
         }
 
-        // If IDs were provided directly, we need to fetch the names
-        if (typeof foodRef === 'number' && !foodName) {
+        const cleared: EntityRef[] = [];
+        if (replace) {
+          const keep = new Set(matched.map(food => food.id));
+          for (const food of (await fetchPantry()).results) {
+            if (keep.has(food.id)) continue;
             try {
-                const foodDetails = await apiClient.get(`/api/food/${foodId}/`);
-                foodName = foodDetails.data.name;
+              await setFoodOnhand(food.id, false);
+              cleared.push({ type: 'food', id: food.id, name: food.name });
             } catch (err: any) {
-                 console.warn(`[Warning] Could not fetch name for food ID ${foodId}: ${err.message}`);
-                 // Proceed without name, API might still accept or fail clearly
+              console.error(`[Error] Failed to clear on-hand status of food ${food.id}:`, err);
+              errors.push({ item: food.name, error: err.message });
             }
+          }
         }
-         if (typeof unitRef === 'number' && !unitName) {
-            try {
-                const unitDetails = await apiClient.get(`/api/unit/${unitId}/`);
-                unitName = unitDetails.data.name;
-            } catch (err: any) {
-                 console.warn(`[Warning] Could not fetch name for unit ID ${unitId}: ${err.message}`);
-                 // Proceed without name
-            }
+
+        const describeFoods = (foods: EntityRef[]) => foods.map(food => `- ${food.name} (ID: ${food.id})`).join('\n');
+        let finalText = `Marked ${updated.length} foods as ${onhand ? 'on hand' : 'not on hand'}.`;
+        if (updated.length > 0) finalText += `\n${describeFoods(updated)}`;
+        if (replace) finalText += `\n\nNo longer on hand (${cleared.length}):${cleared.length > 0 ? `\n${describeFoods(cleared)}` : ' none'}`;
+        if (unmatched.length > 0) finalText += `\n\nNot matched (use the exact name or set_food_onhand with an ID):\n${unmatched.map(item => `- ${item.item}: ${item.reason}`).join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nErrors encountered:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, {
+          updated: [...updated, ...cleared],
+          skipped: unmatched,
+          errors,
+          details: { onhand, no_longer_on_hand: cleared.map(food => food.id) },
+        });
+      }
+
+      // --- suggest_recipes_from_pantry ---
+      case "suggest_recipes_from_pantry": {
+        const args = request.params.arguments || {};
+        const maxMissing = (args.max_missing as number | undefined) ?? 2;
+        const limit = (args.limit as number | undefined) ?? 10;
+        const pantry = await fetchPantry();
+        if (pantry.results.length === 0) {
+          return toolResult("No foods are marked as on hand. Use update_pantry_from_text or set_food_onhand first.", { recipes: [] });
         }
 
+        // Recipes using at least one on-hand food, least recently cooked first so forgotten dishes come up.
+        // Large pantries are searched in chunks of food IDs and the results merged.
+        const foodIds = pantry.results.map(food => food.id);
+        const searches: PagedResult<TandoorRecipe>[] = [];
+        for (let start = 0; start < foodIds.length; start += PANTRY_FOODS_PER_QUERY) {
+          const chunk = foodIds.slice(start, start + PANTRY_FOODS_PER_QUERY);
+          searches.push(await searchRecipes({ query: args.query, foods_or: chunk, sort_order: 'lastcooked' }, { page_size: MAX_PANTRY_CANDIDATES }));
+        }
+        const candidates = new Map<number, TandoorRecipe>();
+        for (const search of searches) {
+          for (const recipe of search.results) candidates.set(recipe.id, recipe);
+        }
+        const neverCookedFirst = (recipe: TandoorRecipe) => recipe.last_cooked ? String(recipe.last_cooked) : '';
+        const overviews = Array.from(candidates.values())
+          .sort((a, b) => neverCookedFirst(a).localeCompare(neverCookedFirst(b)))
+          .slice(0, MAX_PANTRY_CANDIDATES);
+        const skippedCandidates = candidates.size > overviews.length || searches.some(search => search.has_more);
 
-        // Create payload with objects including id and name
-        const payload = {
-          food: { id: foodId, name: foodName || 'Unknown' }, // Include name
-          amount: amount,
-          unit: { id: unitId, name: unitName || 'Unknown' }, // Include name
-          note: note
+        const details = await mapSettled(overviews, async overview => {
+          const url = `/api/recipe/${overview.id}/`;
+          console.error(`[API] GET ${url} - Checking ingredients against pantry`);
+          const response = await apiClient.get(url);
+          console.error(`[API] GET ${url} - Status: ${response.status}`);
+          return response.data as TandoorRecipe;
+        });
+        const ranked: { recipe: TandoorRecipe; onhand: string[]; missing: string[] }[] = [];
+        const errors: ToolError[] = [];
+        details.forEach((outcome, index) => {
+          if (outcome.status === 'fulfilled') {
+            const coverage = pantryCoverage(outcome.value);
+            if (coverage.missing.length <= maxMissing) ranked.push({ recipe: outcome.value, ...coverage });
+          } else if (outcome.status === 'rejected') {
+            console.error(`[Error] Failed to check recipe ${overviews[index].id} against the pantry:`, outcome.reason);
+            errors.push({ item: overviews[index].name, error: outcome.reason?.message ?? String(outcome.reason) });
+          }
+        });
+        ranked.sort((a, b) => a.missing.length - b.missing.length || b.onhand.length - a.onhand.length);
+        const failed = errors.length > 0 ? `\n\nCould not check ${errors.length} recipes: ${errors.map(e => `${e.item} (${e.error})`).join('; ')}` : '';
+
+        if (ranked.length === 0) {
+          return toolResult(`No recipes found with at most ${maxMissing} missing ingredients (checked ${overviews.length - errors.length} recipes using on-hand foods).${failed}`, { recipes: [], errors });
+        }
+        const top = ranked.slice(0, limit);
+        const shown = top.map(({ recipe, onhand, missing }) =>
+          `ID: ${recipe.id} - ${recipe.name}\nOn hand: ${onhand.join(', ') || 'none'}\nMissing: ${missing.join(', ') || 'nothing'}`
+        );
+        const checked = skippedCandidates ? ` Checked the ${overviews.length} least recently cooked recipes using on-hand foods; more recipes match.` : '';
+        return toolResult(`Found ${ranked.length} recipes with at most ${maxMissing} missing ingredients.${checked}\n\n${shown.join('\n\n')}${failed}`, {
+          recipes: top.map(({ recipe }) => toRecipeSummary(recipe)),
+          errors,
+          details: { matches: ranked.length, coverage: top.map(({ recipe, onhand, missing }) => ({ recipe_id: recipe.id, on_hand: onhand, missing })) },
+        });
+      }
+
+      // --- log_cooked_recipe ---
+      case "log_cooked_recipe": {
+        const args = request.params.arguments;
+        if (!args || typeof args !== 'object' || args === null || (typeof args.recipe !== 'string' && typeof args.recipe !== 'number')) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: recipe (name or ID).");
+        }
+        const date = (args.date as string | undefined) ?? todayDate();
+        if (!DATE_REGEX.test(date)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid date format. Use YYYY-MM-DD.");
+        }
+        const rating = args.rating as number | undefined;
+        if (rating !== undefined && (!Number.isInteger(rating) || rating < 1 || rating > 5)) {
+          throw new McpError(ErrorCode.InvalidParams, "rating must be an integer from 1 to 5.");
+        }
+        const servings = args.servings as number | undefined;
+        if (servings !== undefined && (!Number.isInteger(servings) || servings < 1)) {
+          throw new McpError(ErrorCode.InvalidParams, "servings must be a positive integer.");
+        }
+
+        let recipe: ResolvedEntity;
+        try {
+          recipe = await resolveByName('recipe', args.recipe as string | number);
+        } catch (err: any) {
+          if (err instanceof NameResolutionError) {
+            throw new McpError(ErrorCode.InvalidParams, err.message);
+          }
+          throw err;
+        }
+
+        const payload: Record<string, unknown> = {
+          recipe: recipe.id,
+          created_at: `${date}T12:00:00`,
+          comment: (args.comment as string | undefined) ?? null,
         };
+        if (servings !== undefined) payload.servings = servings;
+        if (rating !== undefined) payload.rating = rating;
 
-        const url = '/api/shopping-list-entry/';
+        const url = '/api/cook-log/';
         console.error(`[API] POST ${url} - Payload: ${JSON.stringify(payload)}`);
         try {
           const response = await apiClient.post(url, payload);
           console.error(`[API] POST ${url} - Status: ${response.status}`);
-          const newItem = response.data;
-          const successMsg = `Successfully added item to shopping list (ID: ${newItem.id}): ${newItem.amount} ${newItem.unit?.name || '?'} ${newItem.food?.name || '?'}.`;
-          return { content: [{ type: "text", text: successMsg }] };
+          const entry: CookLogEntry = response.data;
+          const names = new Map([[recipe.id, recipe.name]]);
+          return toolResult(`Logged cooked recipe:\n${formatCookLogEntry(entry, names)}`, {
+            created: [{ type: 'cook_log', id: entry.id, name: recipe.name }],
+            cook_log: [toCookLogItem(entry, recipe.name)],
+          });
         } catch (err: any) {
-          console.error(`[Error] Failed to add shopping list item:`, err);
-          const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
-          throw new McpError(ErrorCode.InternalError, `Failed to add shopping list item: ${err.message} - API Response: ${errorDetail}`);
+          console.error(`[Error] Failed to create cook log entry:`, err);
+          throw toMcpError(err, `Failed to log cooked recipe`);
         }
       }
 
-      // --- update_shopping_list_item ---
-      case "update_shopping_list_item": {
-        const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null || typeof args.item_id !== 'number') {
-          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: item_id (number).");
+      // --- get_cook_log ---
+      case "get_cook_log": {
+        const args = request.params.arguments || {};
+        const fromDate = args.from_date as string | undefined;
+        const toDate = args.to_date as string | undefined;
+        const limit = (args.limit as number | undefined) ?? 50;
+        if ((fromDate && !DATE_REGEX.test(fromDate)) || (toDate && !DATE_REGEX.test(toDate))) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
         }
-        
-        const itemId = args.item_id;
-        const payload: Record<string, any> = {};
-        if (args.amount !== undefined) payload.amount = args.amount as string;
-        if (args.unit_id !== undefined) payload.unit = args.unit_id as number;
-        if (args.checked !== undefined) payload.checked = args.checked as boolean;
-        if (args.note !== undefined) payload.note = args.note as string;
 
-        if (Object.keys(payload).length === 0) {
-           throw new McpError(ErrorCode.InvalidParams, "No fields provided to update.");
+        let recipeId: number | undefined;
+        if (args.recipe !== undefined) {
+          try {
+            recipeId = (await resolveByName('recipe', args.recipe as string | number)).id;
+          } catch (err: any) {
+            if (err instanceof NameResolutionError) {
+              throw new McpError(ErrorCode.InvalidParams, err.message);
+            }
+            throw err;
+          }
         }
 
-        const url = `/api/shopping-list-entry/${itemId}/`;
-        console.error(`[API] PATCH ${url} - Payload: ${JSON.stringify(payload)}`);
-        try {
-          const response = await apiClient.patch(url, payload);
-          console.error(`[API] PATCH ${url} - Status: ${response.status}`);
-          const updatedItem = response.data;
-          const successMsg = `Successfully updated shopping list item ID ${itemId}.`;
-          return { content: [{ type: "text", text: successMsg }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to update shopping list item ${itemId}:`, err);
-           const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
-          throw new McpError(ErrorCode.InternalError, `Failed to update shopping list item: ${err.message} - API Response: ${errorDetail}`);
+        // The cook log API cannot filter by date, so fetch the history and filter here
+        const log = await fetchCookLog(recipeId);
+        const entries = log.results.filter(entry => (!fromDate || cookLogDate(entry) >= fromDate) && (!toDate || cookLogDate(entry) <= toDate));
+        if (entries.length === 0) {
+          return toolResult("No cook log entries found matching the criteria.", { cook_log: [] });
         }
+        const shown = entries.slice(0, limit);
+        const names = await fetchRecipeNames(shown.map(entry => entry.recipe));
+        const more = entries.length > shown.length ? ` (showing the newest ${shown.length}, use limit to see more)` : '';
+        const truncated = log.truncated ? `\n\nNote: only ${log.results.length} of ${log.count} cook log entries could be fetched, so entries may be missing.` : '';
+        const text = `Found ${entries.length} cook log entries${more}:\n\n${shown.map(entry => formatCookLogEntry(entry, names)).join('\n')}${truncated}`;
+        return toolResult(text, {
+          cook_log: shown.map(entry => toCookLogItem(entry, names.get(entry.recipe) || 'Unknown recipe')),
+          details: { total: entries.length, truncated: log.truncated },
+        });
       }
 
-      // --- remove_shopping_list_item ---
-      case "remove_shopping_list_item": {
+      // --- get_cooking_stats ---
+      case "get_cooking_stats": {
+        const args = request.params.arguments || {};
+        const fromDate = args.from_date as string | undefined;
+        const toDate = args.to_date as string | undefined;
+        const notCookedDays = (args.not_cooked_days as number | undefined) ?? 30;
+        const limit = (args.limit as number | undefined) ?? 10;
+        if ((fromDate && !DATE_REGEX.test(fromDate)) || (toDate && !DATE_REGEX.test(toDate))) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
+        }
+
+        const log = await fetchCookLog();
+        const entries = log.results.filter(entry => (!fromDate || cookLogDate(entry) >= fromDate) && (!toDate || cookLogDate(entry) <= toDate));
+        if (entries.length === 0) {
+          return toolResult("No cook log entries found for the given period.", { details: { total_entries: 0 } });
+        }
+
+        // Counts and ratings come from the period, last cooked dates from the whole log
+        const stats = summarizeCookLog(entries, { today: todayDate(), not_cooked_days: notCookedDays, limit, history: log.results });
+        const names = await fetchRecipeNames([...stats.most_cooked, ...stats.top_rated, ...stats.not_cooked_recently].map(r => r.recipe_id));
+        const period = fromDate || toDate ? ` (${fromDate || 'start'} to ${toDate || 'today'})` : '';
+        const sections = [
+          `Cooking stats${period}: ${stats.total_entries} cook log entries, ${stats.distinct_recipes} different recipes${stats.average_rating !== null ? `, average rating ${stats.average_rating}/5` : ''}.`,
+          `Most cooked:\n${stats.most_cooked.map(r => formatRecipeCookStats(r, names)).join('\n')}`,
+          `Best rated:\n${stats.top_rated.length > 0 ? stats.top_rated.map(r => formatRecipeCookStats(r, names)).join('\n') : '- No ratings yet'}`,
+          `Not cooked in more than ${notCookedDays} days:\n${stats.not_cooked_recently.length > 0 ? stats.not_cooked_recently.map(r => formatRecipeCookStats(r, names)).join('\n') : '- None'}`,
+        ];
+        if (log.truncated) {
+          sections.push(`Note: only ${log.results.length} of ${log.count} cook log entries could be fetched, so these stats are incomplete.`);
+        }
+        return toolResult(sections.join('\n\n'), { details: { ...stats, recipe_names: Object.fromEntries(names), truncated: log.truncated } });
+      }
+
+      // --- log_cooked_from_meal_plans ---
+      case "log_cooked_from_meal_plans": {
         const args = request.params.arguments;
-        if (!args || typeof args !== 'object' || args === null || typeof args.item_id !== 'number') {
-          throw new McpError(ErrorCode.InvalidParams, "Missing or invalid required argument: item_id (number).");
+        if (!args || typeof args !== 'object' || args === null || !args.from_date) {
+          throw new McpError(ErrorCode.InvalidParams, "Missing required argument: from_date.");
         }
-        
-        const itemId = args.item_id;
-        const url = `/api/shopping-list-entry/${itemId}/`;
-        console.error(`[API] DELETE ${url}`);
-        try {
-          const response = await apiClient.delete(url);
-          console.error(`[API] DELETE ${url} - Status: ${response.status}`);
-          const successMsg = `Successfully removed shopping list item ID ${itemId}.`;
-          return { content: [{ type: "text", text: successMsg }] };
-        } catch (err: any) {
-          console.error(`[Error] Failed to remove shopping list item ${itemId}:`, err);
-          const errorDetail = err.response?.data ? JSON.stringify(err.response.data) : 'No response data';
-          // Handle 404 Not Found specifically
-          if (axios.isAxiosError(err) && err.response?.status === 404) {
-             throw new McpError(ErrorCode.InvalidParams, `Shopping list item with ID ${itemId} not found.`);
+        const today = todayDate();
+        const fromDate = args.from_date as string;
+        const toDate = (args.to_date as string | undefined) ?? today;
+        const mealTypeName = args.meal_type as string | undefined;
+        if (!DATE_REGEX.test(fromDate) || !DATE_REGEX.test(toDate)) {
+          throw new McpError(ErrorCode.InvalidParams, "Invalid from_date/to_date format. Use YYYY-MM-DD.");
+        }
+        const mealType = mealTypeName ? await resolveMealType(mealTypeName) : undefined;
+
+        const plans = (await fetchMealPlansInRange(fromDate, toDate, mealType?.id)).filter(plan => plan.recipe?.id && String(plan.from_date).split('T')[0] <= today);
+        if (plans.length === 0) {
+          return toolResult("No past meal plan entries with recipes found in that range.", { created: [] });
+        }
+
+        const logged = new Set((await fetchCookLog()).results.map(entry => `${entry.recipe}|${cookLogDate(entry)}`));
+        const results: string[] = [];
+        const created: EntityRef[] = [];
+        const skipped: SkippedItem[] = [];
+        const errors: ToolError[] = [];
+        for (const plan of plans) {
+          const recipe = plan.recipe!;
+          const date = String(plan.from_date).split('T')[0];
+          const key = `${recipe.id}|${date}`;
+          if (logged.has(key)) {
+            skipped.push({ item: `${date}: ${recipe.name} (meal plan ID ${plan.id})`, reason: 'already logged' });
+            continue;
+          }
+          const payload = { recipe: recipe.id, servings: Math.round(Number(plan.servings)) || 1, created_at: `${date}T12:00:00`, comment: null };
+          const logUrl = '/api/cook-log/';
+          console.error(`[API] POST ${logUrl} - Payload: ${JSON.stringify(payload)}`);
+          try {
+            const logResponse = await apiClient.post(logUrl, payload);
+            console.error(`[API] POST ${logUrl} - Status: ${logResponse.status}`);
+            logged.add(key);
+            results.push(`- ${date}: ${recipe.name} (cook log ID ${logResponse.data.id}, from meal plan ID ${plan.id})`);
+            created.push({ type: 'cook_log', id: logResponse.data.id, name: recipe.name });
+          } catch (err: any) {
+            console.error(`[Error] Failed to log meal plan ${plan.id}:`, err);
+            errors.push(toToolError(`Meal plan ID ${plan.id} (${recipe.name})`, err));
           }
-          throw new McpError(ErrorCode.InternalError, `Failed to remove shopping list item: ${err.message} - API Response: ${errorDetail}`);
         }
+
+        let finalText = `Logged ${results.length} meal plan entries as cooked${skipped.length > 0 ? ` (${skipped.length} already logged)` : ''}.`;
+        if (results.length > 0) finalText += `\n\n${results.join('\n')}`;
+        if (errors.length > 0) finalText += `\n\nErrors encountered:\n${describeToolErrors(errors)}`;
+        return toolResult(finalText, { created, skipped, errors });
       }
 
       default:
@@ -938,26 +4365,278 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
   } catch (error: any) {
       console.error(`[Error] Tool call failed: ${request.params.name}`, error);
-      // Handle Axios errors specifically
-      if (axios.isAxiosError(error)) {
-          const status = error.response?.status;
-          const data = error.response?.data;
-          const message = `Tandoor API Error (${status || 'Network Error'}): ${JSON.stringify(data) || error.message}`;
-          console.error(`[API Error] ${message}`);
-          throw new McpError(ErrorCode.InternalError, message);
-      }
-      // Handle McpErrors
-      if (error instanceof McpError) {
-          throw error;
+      // 401/403 become auth errors, 404 not found, 400 invalid params with Tandoor's field messages
+      const mcpError = toMcpError(error);
+      if (axios.isAxiosError(error)) console.error(`[API Error] ${mcpError.message}`);
+      throw mcpError;
+  }
+}
+
+// --- Resources ---
+async function listResources() {
+  console.error("[Info] Listing resources");
+  return { resources: RESOURCES };
+}
+
+async function listResourceTemplates() {
+  console.error("[Info] Listing resource templates");
+  return { resourceTemplates: RESOURCE_TEMPLATES };
+}
+
+async function handleReadResource(request: ReadResourceRequest) {
+  const uri = request.params.uri;
+  console.error(`[Info] Reading resource: ${uri}`);
+  const ref = parseResourceUri(uri);
+  if (!ref) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}. Available: ${RESOURCES.map(r => r.uri).concat(RESOURCE_TEMPLATES.map(t => t.uriTemplate)).join(', ')}`);
+  }
+  try {
+    const { mimeType, text } = await readResource(ref);
+    return { contents: [{ uri, mimeType, text }] };
+  } catch (err: any) {
+    if (err instanceof McpError) throw err;
+    console.error(`[Error] Failed to read resource ${uri}:`, err);
+    throw toMcpError(err, `Failed to read resource ${uri}`);
+  }
+}
+
+function jsonResource(data: unknown): { mimeType: string; text: string } {
+  return { mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+}
+
+// Compact meal plan entries for resources and prompts
+async function mealPlanWeekData(fromDate: string, toDate: string) {
+  const plans = await fetchMealPlansInRange(fromDate, toDate);
+  const entries = plans.map(toMealPlanEntry).sort((a, b) => a.from_date.localeCompare(b.from_date));
+  return { from_date: fromDate, to_date: toDate, entries };
+}
+
+async function readTaxonomy(taxonomy: TaxonomyResource) {
+  // Meal types and supermarket categories only have the fields shared with recipe books (name, description)
+  const paged = await fetchPaged<TaxonomyEntry | TandoorRecipeBook>(`/api/${TAXONOMY_ENDPOINTS[taxonomy]}/`, { all: true }, taxonomy.replace('-', ' '));
+  const items = paged.results;
+  let results: unknown[];
+  switch (taxonomy) {
+    case 'keywords':
+      results = buildKeywordTree(items as TandoorKeyword[]);
+      break;
+    case 'units':
+      results = (items as TandoorUnit[]).map(unit => ({ id: unit.id, name: unit.name, plural_name: unit.plural_name || null }));
+      break;
+    case 'foods':
+      results = (items as TandoorFood[]).map(food => ({
+        id: food.id,
+        name: food.name,
+        plural_name: food.plural_name || null,
+        supermarket_category: food.supermarket_category?.name ?? null,
+        on_hand: !!food.food_onhand,
+      }));
+      break;
+    default:
+      results = items.map(item => ({ id: item.id, name: item.name, ...(item.description ? { description: item.description } : {}) }));
+  }
+  return { count: paged.count, truncated: paged.truncated, results };
+}
+
+async function readResource(ref: ResourceRef): Promise<{ mimeType: string; text: string }> {
+  switch (ref.kind) {
+    case 'recipe': {
+      const url = `/api/recipe/${ref.id}/`;
+      console.error(`[API] GET ${url} - Fetching recipe for resource`);
+      try {
+        const response = await apiClient.get(url);
+        console.error(`[API] GET ${url} - Status: ${response.status}`);
+        return { mimeType: 'text/markdown', text: renderRecipe(response.data, 'markdown') };
+      } catch (err: any) {
+        if (axios.isAxiosError(err) && err.response?.status === 404) {
+          throw new McpError(ErrorCode.InvalidParams, `Recipe with ID ${ref.id} not found.`);
+        }
+        throw err;
       }
-      // Handle generic errors
-      throw new McpError(ErrorCode.InternalError, `Tool execution failed: ${error.message}`);
+    }
+    case 'meal-plan-week':
+    case 'current-week': {
+      const week = weekRange(ref.kind === 'current-week' ? todayDate() : ref.date);
+      return jsonResource(await mealPlanWeekData(week.from, week.to));
+    }
+    case 'shopping-list': {
+      const { results: entries } = await fetchPaged<TandoorShoppingEntry>('/api/shopping-list-entry/?checked=recent', { all: true }, 'shopping list for resource');
+      return jsonResource(entries.map(entry => ({
+        id: entry.id,
+        food: entry.food?.name ?? null,
+        amount: entry.amount !== undefined && entry.amount !== null ? Number(entry.amount) : null,
+        unit: entry.unit?.name ?? null,
+        checked: !!entry.checked,
+        category: entry.food?.supermarket_category?.name ?? null,
+        recipe: entry.recipe_mealplan?.recipe_name ?? null,
+        note: entry.note || null,
+      })));
+    }
+    case 'taxonomy':
+      return jsonResource(await readTaxonomy(ref.taxonomy));
   }
-});
+}
+
+// --- Prompts ---
+async function listPrompts() {
+  console.error("[Info] Listing prompts");
+  return { prompts: PROMPTS };
+}
+
+function promptDate(args: Record<string, string>, field: string, fallback: string): string {
+  const value = args[field];
+  if (value === undefined || value === '') return fallback;
+  if (!DATE_REGEX.test(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${field}: ${value}. Use YYYY-MM-DD.`);
+  }
+  return value;
+}
+
+function promptInteger(args: Record<string, string>, field: string, fallback: number): number {
+  const value = args[field];
+  if (value === undefined || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new McpError(ErrorCode.InvalidParams, `${field} must be a positive integer.`);
+  }
+  return number;
+}
+
+// The meal plans of a range as a prompt message; the prompt still works (with a note) when Tandoor cannot be reached
+async function mealPlanMessage(label: string, fromDate: string, toDate: string) {
+  let text: string;
+  try {
+    text = `${label} (${fromDate} to ${toDate}):\n${JSON.stringify(await mealPlanWeekData(fromDate, toDate), null, 2)}`;
+  } catch (err: any) {
+    console.warn(`[Warning] Could not load meal plans for prompt: ${err.message}`);
+    text = `${label} (${fromDate} to ${toDate}) could not be loaded (${err.message}). Fetch it with get_meal_plans.`;
+  }
+  return { role: "user" as const, content: { type: "text" as const, text } };
+}
+
+async function handleGetPrompt(request: GetPromptRequest) {
+  const name = request.params.name;
+  const args = request.params.arguments || {};
+  console.error(`[Info] Getting prompt: ${name}`);
+  const today = todayDate();
+  const nextMonday = weekRange(addDays(today, 7)).from;
+
+  switch (name) {
+    case 'plan_week': {
+      const startDate = promptDate(args, 'start_date', nextMonday);
+      const days = promptInteger(args, 'days', 7);
+      const endDate = addDays(startDate, days - 1);
+      const previous = { from: addDays(startDate, -days), to: addDays(startDate, -1) };
+      const mealTypes = (args.meal_types || 'Dinner').split(',').map(type => type.trim()).filter(Boolean);
+      const text = planWeekText({
+        start_date: startDate,
+        end_date: endDate,
+        previous_start_date: previous.from,
+        previous_end_date: previous.to,
+        servings: promptInteger(args, 'servings', 2),
+        meal_types: mealTypes,
+        preferences: args.preferences,
+      });
+      return {
+        description: `Plan meals from ${startDate} to ${endDate}`,
+        messages: [await mealPlanMessage("Last week's meal plan", previous.from, previous.to), { role: "user", content: { type: "text", text } }],
+      };
+    }
+    case 'shop_for_week': {
+      const startDate = promptDate(args, 'start_date', nextMonday);
+      const endDate = addDays(startDate, promptInteger(args, 'days', 7) - 1);
+      return {
+        description: `Shopping list for the meals from ${startDate} to ${endDate}`,
+        messages: [
+          await mealPlanMessage('Planned meals', startDate, endDate),
+          { role: "user", content: { type: "text", text: shopForWeekText({ start_date: startDate, end_date: endDate }) } },
+        ],
+      };
+    }
+    case 'review_week': {
+      const startDate = promptDate(args, 'start_date', weekRange(today).from);
+      const endDate = addDays(startDate, 6);
+      return {
+        description: `Review the meals from ${startDate} to ${endDate}`,
+        messages: [
+          await mealPlanMessage('Planned meals', startDate, endDate),
+          { role: "user", content: { type: "text", text: reviewWeekText({ start_date: startDate, end_date: endDate }) } },
+        ],
+      };
+    }
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}. Available: ${PROMPTS.map(p => p.name).join(', ')}`);
+  }
+}
+
+// --- MCP Server Setup ---
+// One server per connection: stdio has a single one, the HTTP transport creates one per session with that
+// session's Tandoor token, which every handler then uses for its API requests.
+function createServer(token?: string): Server {
+  const server = new Server(
+    {
+      name: "tandoor-mcp-server",
+      version: "0.1.0",
+      description: "A Model Context Protocol Server to interact with Tandoor, a self-hosted recipe manager."
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
+  const withToken = <A extends unknown[], R>(handler: (...args: A) => Promise<R>) => (...args: A) => runWithToken(token, () => handler(...args));
+  server.setRequestHandler(ListToolsRequestSchema, withToken(listTools));
+  server.setRequestHandler(CallToolRequestSchema, withToken(handleToolCall));
+  server.setRequestHandler(ListResourcesRequestSchema, withToken(listResources));
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, withToken(listResourceTemplates));
+  server.setRequestHandler(ReadResourceRequestSchema, withToken(handleReadResource));
+  server.setRequestHandler(ListPromptsRequestSchema, withToken(listPrompts));
+  server.setRequestHandler(GetPromptRequestSchema, withToken(handleGetPrompt));
+  return server;
+}
+
+// Cheap authenticated request, so a session with a wrong token is refused when it opens
+async function verifyToken(token: string): Promise<string | undefined> {
+  const url = '/api/meal-type/?page_size=1';
+  try {
+    await runWithToken(token, () => apiClient.get(url));
+    return undefined;
+  } catch (err: any) {
+    const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+    if (status === 401 || status === 403) {
+      console.error(`[API] GET ${url} - Status: ${status} (session token rejected)`);
+      return `Tandoor rejected the API token (${status}). Check the token.`;
+    }
+    throw err;
+  }
+}
 
 // --- Server Start ---
 async function main() {
   console.error("[Setup] Initializing Tandoor MCP server...");
+  if (TRANSPORT === 'sse') {
+    const httpServer = await startHttpServer({
+      host: HTTP_HOST,
+      port: HTTP_PORT,
+      createServer,
+      defaultToken: TANDOOR_API_TOKEN,
+      allowedHosts: HTTP_ALLOWED_HOSTS,
+      verifyToken,
+    });
+    process.on('SIGINT', () => {
+      console.error('[Shutdown] Received SIGINT, closing HTTP server.');
+      httpServer.close();
+      process.exit(0);
+    });
+    console.error(`[Setup] Tandoor MCP server listening on http://${HTTP_HOST}:${HTTP_PORT} (SSE: /sse, messages: /messages, health: /health).`);
+    if (!TANDOOR_API_TOKEN) console.error("[Info] No TANDOOR_API_TOKEN set: every session must send its own token.");
+    return;
+  }
+
+  const server = createServer();
   const transport = new StdioServerTransport();
   server.onerror = (error) => console.error('[MCP Error]', error); // Add basic MCP error logging
   process.on('SIGINT', async () => {
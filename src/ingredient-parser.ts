@@ -0,0 +1,270 @@
+// --- Ingredient Line Parser ---
+// Turns free-text ingredient lines ("1 1/2 cups flour, sifted") into amount / unit / food / note parts.
+// Pure functions only, no API access, so the result can be matched against Tandoor units/foods afterwards.
+
+export interface ParsedIngredient {
+  original: string;
+  amount: number | null; // null when the line has no quantity (e.g. "salt to taste")
+  amount_max?: number; // upper bound for ranges like "2-3"
+  unit: string | null; // canonical unit name (e.g. "tbsp"), or null
+  food: string;
+  note: string | null;
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  '½': 1 / 2, '⅓': 1 / 3, '⅔': 2 / 3, '¼': 1 / 4, '¾': 3 / 4,
+  '⅕': 1 / 5, '⅖': 2 / 5, '⅗': 3 / 5, '⅘': 4 / 5, '⅙': 1 / 6, '⅚': 5 / 6,
+  '⅛': 1 / 8, '⅜': 3 / 8, '⅝': 5 / 8, '⅞': 7 / 8,
+};
+
+// Canonical unit name -> accepted spellings (lowercase, without trailing dot)
+const UNIT_ALIASES: Record<string, string[]> = {
+  'g': ['g', 'gr', 'gram', 'grams', 'gramme', 'grammes'],
+  'kg': ['kg', 'kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'],
+  'mg': ['mg', 'milligram', 'milligrams'],
+  'ml': ['ml', 'milliliter', 'milliliters', 'millilitre', 'millilitres'],
+  'cl': ['cl', 'centiliter', 'centiliters', 'centilitre', 'centilitres'],
+  'dl': ['dl', 'deciliter', 'deciliters', 'decilitre', 'decilitres'],
+  'l': ['l', 'liter', 'liters', 'litre', 'litres'],
+  'tsp': ['tsp', 'tsps', 't', 'teaspoon', 'teaspoons'],
+  'tbsp': ['tbsp', 'tbsps', 'tbs', 'tbl', 'tblsp', 'T', 'tablespoon', 'tablespoons'],
+  'cup': ['cup', 'cups', 'c'],
+  'fl oz': ['fl oz', 'fl. oz', 'fluid ounce', 'fluid ounces'],
+  'oz': ['oz', 'ounce', 'ounces'],
+  'lb': ['lb', 'lbs', 'pound', 'pounds'],
+  'pint': ['pt', 'pint', 'pints'],
+  'quart': ['qt', 'quart', 'quarts'],
+  'gallon': ['gal', 'gallon', 'gallons'],
+  'pinch': ['pinch', 'pinches'],
+  'dash': ['dash', 'dashes'],
+  'clove': ['clove', 'cloves'],
+  'can': ['can', 'cans', 'tin', 'tins'],
+  'slice': ['slice', 'slices'],
+  'piece': ['piece', 'pieces', 'pc', 'pcs'],
+  'bunch': ['bunch', 'bunches'],
+  'handful': ['handful', 'handfuls'],
+  'sprig': ['sprig', 'sprigs'],
+  'stick': ['stick', 'sticks'],
+  'package': ['package', 'packages', 'pkg', 'pack', 'packs', 'packet', 'packets'],
+  'jar': ['jar', 'jars'],
+  'bottle': ['bottle', 'bottles'],
+};
+
+// Phrases that belong in the note rather than in the food name; longest first, so "or to taste" wins over "to taste"
+const TRAILING_NOTES = [
+  'to taste', 'or to taste', 'as needed', 'if needed', 'optional', 'for garnish', 'to garnish',
+  'for serving', 'to serve', 'divided', 'plus more', 'at room temperature', 'room temperature',
+].sort((a, b) => b.length - a.length);
+
+// "T" (tablespoon) and "t" (teaspoon) are only distinguishable by case; everything else is matched case-insensitively
+const CASE_SENSITIVE_UNITS: Record<string, string> = { 'T': 'tbsp', 't': 'tsp' };
+
+const UNIT_LOOKUP: Map<string, string> = new Map(
+  Object.entries(UNIT_ALIASES).flatMap(([canonical, aliases]) =>
+    aliases
+      .filter(alias => CASE_SENSITIVE_UNITS[alias] === undefined)
+      .map(alias => [alias.toLowerCase(), canonical] as [string, string])
+  )
+);
+
+const FRACTION_CHARS = Object.keys(UNICODE_FRACTIONS).join('');
+// A single number: "1 1/2", "1½", "½", "1/2", "1.5", "1,5", "2"
+const NUMBER_PATTERN = `(?:\\d+\\s+\\d+\\s*/\\s*\\d+|\\d+\\s*[${FRACTION_CHARS}]|[${FRACTION_CHARS}]|\\d+\\s*/\\s*\\d+|\\d+(?:[.,]\\d+)?)`;
+const QUANTITY_REGEX = new RegExp(`^(${NUMBER_PATTERN})(?:\\s*(?:-|–|to)\\s*(${NUMBER_PATTERN}))?`);
+
+/**
+ * Parses a single quantity token ("1 1/2", "½", "1,5") into a number. Returns null if it is not a number.
+ */
+export function parseQuantity(text: string): number | null {
+  const value = text.trim();
+  if (!value) return null;
+
+  let match = value.match(new RegExp(`^(\\d+)\\s*([${FRACTION_CHARS}])$`));
+  if (match) return parseInt(match[1], 10) + UNICODE_FRACTIONS[match[2]];
+  if (UNICODE_FRACTIONS[value] !== undefined) return UNICODE_FRACTIONS[value];
+
+  match = value.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (match) {
+    const denominator = parseInt(match[3], 10);
+    return denominator === 0 ? null : parseInt(match[1], 10) + parseInt(match[2], 10) / denominator;
+  }
+
+  match = value.match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (match) {
+    const denominator = parseInt(match[2], 10);
+    return denominator === 0 ? null : parseInt(match[1], 10) / denominator;
+  }
+
+  if (/^\d+(?:[.,]\d+)?$/.test(value)) return parseFloat(value.replace(',', '.'));
+  return null;
+}
+
+/**
+ * Maps a unit spelling ("Tablespoons", "g.", "fl oz") to its canonical name, or null if it is not a known unit.
+ */
+export function normalizeUnit(text: string): string | null {
+  const value = text.trim().replace(/\.$/, '');
+  if (!value) return null;
+  if (CASE_SENSITIVE_UNITS[value] !== undefined) return CASE_SENSITIVE_UNITS[value];
+  return UNIT_LOOKUP.get(value.toLowerCase()) ?? null;
+}
+
+/**
+ * Formats an amount for the Tandoor API (which expects a string), avoiding float noise like 0.30000000000000004.
+ */
+export function formatAmount(amount: number): string {
+  return String(Number(amount.toFixed(3)));
+}
+
+function splitNote(text: string): { food: string; notes: string[] } {
+  const notes: string[] = [];
+  let food = text;
+
+  // Parenthesised remarks: "butter (softened)"
+  food = food.replace(/\(([^)]*)\)/g, (_, inner: string) => {
+    if (inner.trim()) notes.push(inner.trim());
+    return ' ';
+  });
+
+  // Everything after the first comma: "onion, finely chopped"
+  const commaIndex = food.indexOf(',');
+  if (commaIndex !== -1) {
+    const rest = food.slice(commaIndex + 1).trim();
+    if (rest) notes.push(rest);
+    food = food.slice(0, commaIndex);
+  }
+
+  // Trailing phrases: "salt to taste"
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const lower = food.trim().toLowerCase();
+    for (const phrase of TRAILING_NOTES) {
+      if (lower.endsWith(' ' + phrase) || lower === phrase) {
+        food = food.trim().slice(0, food.trim().length - phrase.length);
+        notes.unshift(phrase);
+        changed = true;
+        break;
+      }
+    }
+  }
+
+  return { food: food.replace(/\s+/g, ' ').trim(), notes };
+}
+
+/**
+ * Parses one ingredient line into its parts.
+ *
+ * Examples:
+ *   "1 1/2 cups flour, sifted" -> { amount: 1.5, unit: "cup", food: "flour", note: "sifted" }
+ *   "200g pasta"               -> { amount: 200, unit: "g", food: "pasta", note: null }
+ *   "2-3 cloves garlic"        -> { amount: 2, amount_max: 3, unit: "clove", food: "garlic", note: "2-3" }
+ *   "Salt to taste"            -> { amount: null, unit: null, food: "Salt", note: "to taste" }
+ *   "2 cups"                   -> { amount: 2, unit: "cup", food: "", note: null }
+ */
+export function parseIngredientLine(line: string): ParsedIngredient {
+  const original = line.trim();
+  // Strip list markers ("- ", "* ", "• ")
+  let rest = original.replace(/^[-*•·]\s+/, '');
+
+  let amount: number | null = null;
+  let amountMax: number | undefined;
+  let rangeText: string | undefined;
+
+  const quantityMatch = rest.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    amount = parseQuantity(quantityMatch[1]);
+    if (quantityMatch[2]) {
+      const max = parseQuantity(quantityMatch[2]);
+      if (max !== null && amount !== null && max > amount) {
+        amountMax = max;
+        rangeText = quantityMatch[0].replace(/\s+/g, ' ').trim();
+      }
+    }
+    rest = rest.slice(quantityMatch[0].length).trim();
+  }
+
+  let unit: string | null = null;
+  if (amount !== null) {
+    // Try two-word units first ("fl oz"), then single words, also when glued to the number ("200g").
+    // A unit may stand alone ("2 cups"); the food is then empty.
+    const words = rest.split(/\s+/).filter(Boolean);
+    const twoWords = words.slice(0, 2).join(' ');
+    if (words.length >= 2 && normalizeUnit(twoWords)) {
+      unit = normalizeUnit(twoWords);
+      rest = words.slice(2).join(' ');
+    } else if (words.length >= 1 && normalizeUnit(words[0])) {
+      unit = normalizeUnit(words[0]);
+      rest = words.slice(1).join(' ');
+    }
+    // "of" after a unit: "1 cup of flour"
+    if (unit) rest = rest.replace(/^of\s+/i, '');
+  }
+
+  const { food, notes } = splitNote(rest);
+  if (rangeText) notes.unshift(rangeText);
+
+  const parsed: ParsedIngredient = {
+    original,
+    amount,
+    unit,
+    // Without a unit an empty food means nothing was recognised, so the whole line is kept as the food
+    food: food || (unit ? '' : original),
+    note: notes.length > 0 ? notes.join(', ') : null,
+  };
+  if (amountMax !== undefined) parsed.amount_max = amountMax;
+  return parsed;
+}
+
+/**
+ * Parses a multi-line ingredient block, skipping empty lines.
+ */
+export function parseIngredientBlock(block: string): ParsedIngredient[] {
+  return block
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(parseIngredientLine);
+}
+
+/**
+ * Returns every known spelling of a canonical unit (e.g. "tbsp" -> ["tbsp", "tablespoon", ...]), used when matching
+ * parsed units against the units that already exist in Tandoor.
+ */
+export function unitAliases(canonical: string): string[] {
+  const aliases = UNIT_ALIASES[canonical] ?? [];
+  return Array.from(new Set([canonical, ...aliases].map(alias => alias.toLowerCase())));
+}
+
+// Lead-in phrases dropped from pantry lists ("I have eggs", "we've got some rice")
+const PANTRY_LEAD_IN = /^(?:(?:i|we)\s+(?:have|had|got|'ve got|'ve)|i've got|we've got|i've|we've|have|got|there (?:is|are)|also|plus)\s+/i;
+const PANTRY_QUANTIFIER = /^(?:some|a few|a couple of|a bit of|a little|lots of|plenty of|a lot of|an?|the)\s+/i;
+
+// One item of a pantry list. "mac and cheese" can be one food or two, so items joined by "and"/"&" keep both readings.
+export interface PantryItem {
+  food: string; // The whole item, e.g. "mac and cheese"
+  parts: string[]; // The item split on "and"/"&" (["mac", "cheese"]); just [food] when there is nothing to split
+}
+
+function cleanPantryName(text: string): string {
+  let item = text.trim().replace(/[.!]+$/, '').trim();
+  item = item.replace(/^(?:and|&)\s+/i, '').replace(PANTRY_LEAD_IN, '').replace(PANTRY_QUANTIFIER, '').trim();
+  if (!item) return '';
+  return parseIngredientLine(item).food.replace(PANTRY_QUANTIFIER, '').trim();
+}
+
+/**
+ * Splits a free-text pantry list into food names, dropping quantities and filler words. Commas, semicolons and line
+ * breaks always separate items; "and"/"&" only yields `parts`, so the caller can try the whole name first.
+ * Example: "I have eggs, mac and cheese, 2 onions." -> eggs, mac and cheese (parts: mac, cheese), onions
+ */
+export function parsePantryText(text: string): PantryItem[] {
+  const items: PantryItem[] = [];
+  for (const segment of text.split(/\n|,|;/)) {
+    const food = cleanPantryName(segment);
+    if (!food || items.some(i => i.food.toLowerCase() === food.toLowerCase())) continue;
+    const parts = segment.split(/\s+and\s+|\s+&\s+/i).map(cleanPantryName).filter(part => part.length > 0);
+    items.push({ food, parts: parts.length > 1 ? parts : [food] });
+  }
+  return items;
+}
@@ -0,0 +1,34 @@
+// --- Instruction Block Parser ---
+// Splits a free-text instructions block into individual steps.
+
+// "1.", "1)", "1:", "Step 1:", "Step 1 -". The delimiter must be followed by whitespace, so "1.5 hours" and
+// "12:30" are not markers.
+const STEP_MARKER_REGEX = /^\s*(?:step\s*)?(\d+)\s*(?:[.):](?=\s|$)|\s-)\s*/i;
+
+/**
+ * Splits an instructions block into steps.
+ *
+ * Numbered lines ("1. Boil water", "Step 2: Add pasta") start a new step and lose their number; unnumbered lines
+ * following a numbered one are kept with that step. Without any numbering, blank-line separated paragraphs become steps.
+ */
+export function splitInstructionBlock(block: string): string[] {
+  const lines = block.split('\n').map(line => line.trim());
+
+  if (lines.some(line => STEP_MARKER_REGEX.test(line))) {
+    const steps: string[][] = [];
+    for (const line of lines) {
+      if (!line) continue;
+      if (STEP_MARKER_REGEX.test(line) || steps.length === 0) {
+        steps.push([line.replace(STEP_MARKER_REGEX, '')]);
+      } else {
+        steps[steps.length - 1].push(line);
+      }
+    }
+    return steps.map(step => step.join('\n').trim()).filter(step => step.length > 0);
+  }
+
+  return block
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.trim())
+    .filter(paragraph => paragraph.length > 0);
+}
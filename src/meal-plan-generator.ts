@@ -0,0 +1,115 @@
+// --- Meal Plan Generator ---
+// Picks recipes for a range of days and meal types. Pure and deterministic: the same candidates, options and seed
+// always produce the same draft, so a plan can be regenerated or tweaked with a different seed.
+
+export interface PlanCandidate {
+  id: number;
+  name: string;
+  rating?: number | null;
+  last_cooked?: string | null;
+}
+
+export interface MealSlot {
+  date: string; // YYYY-MM-DD
+  meal_type: string;
+}
+
+export interface DraftMealPlanEntry extends MealSlot {
+  recipe_id: number;
+  recipe_name: string;
+  servings: number;
+}
+
+export interface GeneratorOptions {
+  slots: MealSlot[];
+  servings: number;
+  seed: number;
+  prefer_rating?: number; // Recipes rated at least this are picked more often
+}
+
+export interface GeneratedPlan {
+  entries: DraftMealPlanEntry[];
+  repeated: boolean; // Fewer candidates than slots, so some recipes appear more than once
+}
+
+/**
+ * Small seedable PRNG (mulberry32) returning floats in [0, 1).
+ */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Derives a numeric seed from any string (e.g. the start date), so plans are stable without an explicit seed.
+ */
+export function seedFromString(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lists every (date, meal type) slot from `fromDate` to `toDate` inclusive, in date order.
+ */
+export function mealSlots(fromDate: string, toDate: string, mealTypes: string[]): MealSlot[] {
+  const slots: MealSlot[] = [];
+  const date = new Date(`${fromDate}T00:00:00Z`);
+  const end = Date.parse(`${toDate}T00:00:00Z`);
+  while (date.getTime() <= end) {
+    const day = date.toISOString().split('T')[0];
+    for (const mealType of mealTypes) slots.push({ date: day, meal_type: mealType });
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return slots;
+}
+
+// Well-rated and long-forgotten recipes are more likely to be picked, but every candidate keeps a chance
+function weight(candidate: PlanCandidate, preferRating?: number): number {
+  const rating = Number(candidate.rating) || 0;
+  let value = 1;
+  if (preferRating !== undefined) value += rating >= preferRating ? 3 : 0;
+  else value += rating / 2;
+  if (!candidate.last_cooked) value += 0.5;
+  return value;
+}
+
+function pickWeighted(pool: PlanCandidate[], rng: () => number, preferRating?: number): number {
+  const weights = pool.map(candidate => weight(candidate, preferRating));
+  let roll = rng() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < pool.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return i;
+  }
+  return pool.length - 1;
+}
+
+/**
+ * Fills every slot with a recipe. Recipes are not repeated until every candidate has been used once.
+ */
+export function generateMealPlan(candidates: PlanCandidate[], options: GeneratorOptions): GeneratedPlan {
+  if (candidates.length === 0) return { entries: [], repeated: false };
+  const rng = createRng(options.seed);
+  // Input order (API sort, pagination) must not influence the result
+  const sorted = [...candidates].sort((a, b) => a.id - b.id);
+  let pool = [...sorted];
+  let repeated = false;
+
+  const entries = options.slots.map(slot => {
+    if (pool.length === 0) {
+      pool = [...sorted];
+      repeated = true;
+    }
+    const [candidate] = pool.splice(pickWeighted(pool, rng, options.prefer_rating), 1);
+    return { ...slot, recipe_id: candidate.id, recipe_name: candidate.name, servings: options.servings };
+  });
+  return { entries, repeated };
+}
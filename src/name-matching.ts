@@ -0,0 +1,116 @@
+// --- Name Matching ---
+// Ranks search results against the name the user asked for, so lookups never silently pick the wrong entry
+// ("Chicken stock" when "Chicken stir fry" was meant).
+
+export interface NamedCandidate {
+  id: number;
+  name: string;
+  plural_name?: string | null;
+}
+
+export interface RankedCandidate<T extends NamedCandidate> {
+  candidate: T;
+  score: number; // 0-100
+  reason: 'exact' | 'case-insensitive' | 'normalized' | 'prefix' | 'word' | 'substring' | 'fuzzy';
+}
+
+export type MatchResult<T extends NamedCandidate> =
+  | { status: 'matched'; match: RankedCandidate<T>; alternatives: RankedCandidate<T>[] }
+  | { status: 'ambiguous'; candidates: RankedCandidate<T>[] }
+  | { status: 'not_found'; candidates: RankedCandidate<T>[] };
+
+// Scores at or above this are treated as "the same name"
+const SAME_NAME_SCORE = 90;
+// A non-identical best match is only accepted if it scores at least this and leads the runner-up by MIN_LEAD
+const MIN_PARTIAL_SCORE = 50;
+const MIN_LEAD = 15;
+
+/**
+ * Lowercases, strips accents and punctuation, and collapses whitespace ("Crème-fraîche " -> "creme fraiche").
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function scoreName(query: string, name: string): Omit<RankedCandidate<NamedCandidate>, 'candidate'> {
+  if (name === query) return { score: 100, reason: 'exact' };
+  if (name.toLowerCase() === query.toLowerCase()) return { score: 95, reason: 'case-insensitive' };
+  const q = normalizeName(query);
+  const n = normalizeName(name);
+  if (!q || !n) return { score: 0, reason: 'fuzzy' };
+  if (n === q) return { score: SAME_NAME_SCORE, reason: 'normalized' };
+  if (n.startsWith(q)) return { score: 70, reason: 'prefix' };
+  if (` ${n} `.includes(` ${q} `)) return { score: 60, reason: 'word' };
+  if (n.includes(q)) return { score: 50, reason: 'substring' };
+  const similarity = 1 - levenshtein(q, n) / Math.max(q.length, n.length);
+  return { score: Math.round(Math.max(0, similarity) * 45), reason: 'fuzzy' };
+}
+
+/**
+ * Scores every candidate (by name and plural name) against the query, best first.
+ */
+export function rankCandidates<T extends NamedCandidate>(query: string, candidates: T[]): RankedCandidate<T>[] {
+  return candidates
+    .map(candidate => {
+      const byName = scoreName(query, candidate.name);
+      const byPlural = candidate.plural_name ? scoreName(query, candidate.plural_name) : byName;
+      const best = byPlural.score > byName.score ? byPlural : byName;
+      return { candidate, ...best };
+    })
+    .sort((a, b) => b.score - a.score || a.candidate.name.length - b.candidate.name.length);
+}
+
+export interface PickOptions {
+  exact_only?: boolean; // Only accept the same name (exact, case-insensitive or normalized), e.g. before deleting
+}
+
+/**
+ * Picks the candidate meant by `query`. Identical names (exact, case-insensitive or ignoring accents/punctuation) win;
+ * otherwise the best partial match is only taken when it is clearly ahead of the others, and never with `exact_only`.
+ */
+export function pickCandidate<T extends NamedCandidate>(query: string, candidates: T[], options: PickOptions = {}): MatchResult<T> {
+  const ranked = rankCandidates(query, candidates).filter(r => r.score > 0);
+  if (ranked.length === 0) return { status: 'not_found', candidates: [] };
+
+  const [best, second] = ranked;
+  if (best.score >= SAME_NAME_SCORE) {
+    // Duplicate entries with the same name are still "the same name"; the lowest ID is the original one
+    const sameScore = ranked.filter(r => r.score === best.score).sort((a, b) => a.candidate.id - b.candidate.id);
+    return { status: 'matched', match: sameScore[0], alternatives: ranked.filter(r => r !== sameScore[0]).slice(0, 5) };
+  }
+  if (options.exact_only) {
+    return { status: 'not_found', candidates: ranked.slice(0, 5) };
+  }
+  if (best.score < MIN_PARTIAL_SCORE) {
+    return { status: 'not_found', candidates: ranked.slice(0, 5) };
+  }
+  if (second && best.score - second.score < MIN_LEAD) {
+    return { status: 'ambiguous', candidates: ranked.filter(r => r.score >= MIN_PARTIAL_SCORE).slice(0, 10) };
+  }
+  return { status: 'matched', match: best, alternatives: ranked.slice(1, 6) };
+}
+
+/**
+ * Formats candidates for error messages: `"Chicken stir fry" (ID: 12), "Chicken stock" (ID: 7)`.
+ */
+export function describeCandidates(candidates: RankedCandidate<NamedCandidate>[]): string {
+  return candidates.map(r => `"${r.candidate.name}" (ID: ${r.candidate.id})`).join(', ');
+}
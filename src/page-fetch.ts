@@ -0,0 +1,132 @@
+// --- Page Fetching ---
+// Downloads recipe pages for the local schema.org parser. The URL comes from the client and the server may be shared
+// (HTTP transport), so only public http(s) addresses are fetched: loopback, private and link-local targets are refused,
+// also after DNS resolution and on every redirect, and the response size is limited.
+
+import axios from 'axios';
+import { lookup as dnsLookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+
+export const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+const PAGE_TIMEOUT_MS = 15000;
+
+// Raised for URLs that must not be fetched and pages that are too large; the message says why
+export class PageFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PageFetchError';
+  }
+}
+
+// [network, prefix length] for IPv4 ranges that are not on the public internet
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // Link-local, including cloud metadata services
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+function ipv4ToNumber(ip: string): number {
+  return ip.split('.').reduce((value, part) => value * 256 + Number(part), 0);
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not a public internet address.
+ */
+export function isPrivateAddress(ip: string): boolean {
+  const version = isIP(ip);
+  if (version === 4) {
+    const value = ipv4ToNumber(ip);
+    return PRIVATE_IPV4_RANGES.some(([network, prefix]) => {
+      const size = 2 ** (32 - prefix);
+      const start = ipv4ToNumber(network);
+      return value >= start && value < start + size;
+    });
+  }
+  if (version === 6) {
+    const lower = ip.toLowerCase();
+    // IPv4-mapped addresses ("::ffff:127.0.0.1") are checked as IPv4
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    if (lower === '::' || lower === '::1') return true;
+    const firstWord = parseInt(lower.split(':')[0] || '0', 16);
+    return (firstWord & 0xfe00) === 0xfc00 // Unique local fc00::/7
+      || (firstWord & 0xffc0) === 0xfe80 // Link-local fe80::/10
+      || (firstWord & 0xff00) === 0xff00; // Multicast
+  }
+  return false;
+}
+
+/**
+ * Parses a page URL and checks that it may be fetched: http or https, and not a loopback or private address.
+ * Host names are checked again after DNS resolution when the page is fetched.
+ */
+export function checkPageUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new PageFetchError(`Invalid URL: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new PageFetchError(`Only http and https URLs can be imported, not ${url.protocol.replace(/:$/, '')}.`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || (isIP(host) && isPrivateAddress(host))) {
+    throw new PageFetchError(`Refusing to fetch ${url.hostname}: only public addresses can be imported.`);
+  }
+  return url;
+}
+
+// DNS lookup that refuses host names resolving to private addresses, so a public name cannot point inside the network
+async function publicOnlyLookup(hostname: string): Promise<[{ address: string; family: 4 | 6 }[]]> {
+  const addresses = await dnsLookup(hostname, { all: true });
+  const blocked = addresses.find(address => isPrivateAddress(address.address));
+  if (blocked) throw new PageFetchError(`Refusing to fetch ${hostname}: it resolves to the private address ${blocked.address}.`);
+  return [addresses.map(address => ({ address: address.address, family: address.family === 6 ? 6 : 4 }))];
+}
+
+/**
+ * Downloads a web page as text, following up to five redirects and checking every target with checkPageUrl.
+ * Responses larger than MAX_PAGE_BYTES fail.
+ */
+export async function fetchPage(value: string): Promise<{ url: string; status: number; html: string }> {
+  let url = checkPageUrl(value);
+  for (let redirects = 0; ; redirects++) {
+    let response;
+    try {
+      response = await axios.get(url.href, {
+        responseType: 'text',
+        timeout: PAGE_TIMEOUT_MS,
+        maxRedirects: 0,
+        maxContentLength: MAX_PAGE_BYTES,
+        lookup: publicOnlyLookup,
+        validateStatus: status => status >= 200 && status < 400,
+        headers: { 'Accept': 'text/html,application/xhtml+xml' },
+      });
+    } catch (err: any) {
+      // axios wraps the lookup's error
+      if (err?.cause instanceof PageFetchError) throw err.cause;
+      if (axios.isAxiosError(err) && /maxContentLength/.test(err.message)) {
+        throw new PageFetchError(`The page at ${url.href} is larger than ${MAX_PAGE_BYTES / 1024 / 1024} MB.`);
+      }
+      throw err;
+    }
+    const location = response.headers.location;
+    if (response.status < 300 || typeof location !== 'string') {
+      return { url: url.href, status: response.status, html: String(response.data) };
+    }
+    if (redirects >= MAX_REDIRECTS) {
+      throw new PageFetchError(`Too many redirects while fetching ${value}.`);
+    }
+    url = checkPageUrl(new URL(location, url).href);
+  }
+}
@@ -0,0 +1,96 @@
+// --- MCP Prompts ---
+// The weekly planning workflow (also in .clinerules/meal-planning-workflow.md) as MCP prompts, so every MCP client
+// can offer it. Prompts only produce instructions; the assistant then works through the tools.
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'plan_week',
+    description: 'Plan meals for a week: check last week, agree on recipes with the user, and add the approved plan to Tandoor.',
+    arguments: [
+      { name: 'start_date', description: 'First day of the plan (YYYY-MM-DD, default: next Monday).' },
+      { name: 'days', description: 'Number of days to plan (default: 7).' },
+      { name: 'servings', description: 'Servings per meal (default: 2).' },
+      { name: 'meal_types', description: 'Comma-separated meal types to plan (default: Dinner).' },
+      { name: 'preferences', description: 'Cuisines, ingredients or dishes to favor or avoid.' },
+    ],
+  },
+  {
+    name: 'shop_for_week',
+    description: 'Turn a planned week into a shopping list, skipping what is in the pantry and merging duplicates.',
+    arguments: [
+      { name: 'start_date', description: 'First day of the planned week (YYYY-MM-DD, default: next Monday).' },
+      { name: 'days', description: 'Number of days (default: 7).' },
+    ],
+  },
+  {
+    name: 'review_week',
+    description: 'Look back at a planned week: log what was cooked with ratings, and note what to change next time.',
+    arguments: [
+      { name: 'start_date', description: 'First day of the week to review (YYYY-MM-DD, default: Monday of the current week).' },
+    ],
+  },
+];
+
+export interface WeekPromptOptions {
+  start_date: string; // YYYY-MM-DD
+  end_date: string; // YYYY-MM-DD, inclusive
+  previous_start_date: string;
+  previous_end_date: string;
+  servings: number;
+  meal_types: string[];
+  preferences?: string;
+}
+
+/**
+ * Instructions for the plan_week prompt.
+ */
+export function planWeekText(options: WeekPromptOptions): string {
+  const preferences = options.preferences ? `\nPreferences: ${options.preferences}` : '';
+  return `Help me plan meals from ${options.start_date} to ${options.end_date} (${options.meal_types.join(', ')}, ${options.servings} servings each) using my Tandoor recipes.${preferences}
+
+Work through these steps and wait for my answer where a step asks me something:
+
+1. Context: last week's plan (${options.previous_start_date} to ${options.previous_end_date}) is attached. Avoid repeating those recipes unless I ask for them. get_cooking_stats shows favorites and recipes not cooked for a while.
+2. Scope: ask whether I already have meals in mind, and whether leftovers should cover some days (a multi-day entry with end_date).
+3. Recipes: find the meals I name with get_recipes. For suggestions, use get_recipes with keywords, foods or rating filters, or suggest_recipes_from_pantry; propose 5-10 options with ID and name. If I only list ingredients, propose simple dishes and create them with create_tandoor_recipe once I agree.
+   Shortcut: generate_meal_plan drafts the whole range from constraints (keywords, max time, rating, no repeats); regenerate with another seed on request.
+4. Review: show the plan day by day and adjust it until I approve it. Check meal type names with get_meal_types.
+5. Save: only after my approval, save a generated draft with commit_meal_plan, or each entry with create_tandoor_meal_plan. Use dry_run first if I ask for a preview. Report every entry that was created.
+6. Offer to build the shopping list for the week (add_meal_plan_to_shopping_list).`;
+}
+
+/**
+ * Instructions for the shop_for_week prompt.
+ */
+export function shopForWeekText(options: Pick<WeekPromptOptions, 'start_date' | 'end_date'>): string {
+  return `Build my shopping list for the meals planned from ${options.start_date} to ${options.end_date}. The plan is attached.
+
+1. Check the pantry with get_pantry and ask whether anything on hand has run out (set_food_onhand or update_pantry_from_text).
+2. Preview with add_meal_plan_to_shopping_list (from_date ${options.start_date}, to_date ${options.end_date}, dry_run: true) and show me what would be added.
+3. After I confirm, run it without dry_run, then merge duplicate entries with consolidate_shopping_list.
+4. Ask for extra groceries and add them with add_shopping_list_items (text).
+5. Show the final list with get_shopping_list (aggregate: true), grouped by supermarket category.`;
+}
+
+/**
+ * Instructions for the review_week prompt.
+ */
+export function reviewWeekText(options: Pick<WeekPromptOptions, 'start_date' | 'end_date'>): string {
+  return `Let's review the meals planned from ${options.start_date} to ${options.end_date}. The plan is attached.
+
+1. Go through the entries with me and ask which were cooked, and how I'd rate them (1-5) with an optional comment.
+2. Log rated meals and meals that were not planned with log_cooked_recipe (recipe, date, rating, comment). If every planned meal was cooked and I don't want to rate them, log_cooked_from_meal_plans logs the whole range at once; it skips entries that are already logged.
+3. Summarize what went well and what to change, and mention recipes from get_cooking_stats that have not been cooked for a while as ideas for next week.`;
+}
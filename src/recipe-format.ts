@@ -0,0 +1,145 @@
+// --- Recipe Rendering ---
+// Renders recipes as returned by GET /api/recipe/{id}/ into readable text, optionally scaled and unit-converted.
+
+import { standardUnit, convertToSystem, roundToKitchenMeasure, formatKitchenAmount, UnitSystem } from './unit-conversion.js';
+
+export interface RecipeRenderOptions {
+  factor?: number; // Multiplier applied to every ingredient amount (default: 1)
+  servings?: number; // Servings to show in the header (default: recipe servings * factor)
+  unit_system?: UnitSystem; // Convert mass/volume units into this system
+  round?: boolean; // Round amounts to kitchen measures (default: true when scaling or converting)
+}
+
+function pluralize(entity: { name: string; plural_name?: string | null } | null | undefined, amount: number | null): string {
+  if (!entity) return '';
+  return amount !== null && amount > 1 && entity.plural_name ? entity.plural_name : entity.name;
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
+/**
+ * Formats a single ingredient line ("1 1/2 cups flour, sifted"), applying scaling, conversion and rounding.
+ */
+export function formatIngredient(ingredient: any, options: RecipeRenderOptions = {}): string {
+  if (ingredient.is_header) {
+    return `**${ingredient.note || ingredient.food?.name || ''}**`;
+  }
+  const factor = options.factor ?? 1;
+  const shouldRound = options.round ?? (factor !== 1 || !!options.unit_system);
+  const note = ingredient.note ? `, ${ingredient.note}` : '';
+
+  const rawAmount = Number(ingredient.amount);
+  if (ingredient.no_amount || !rawAmount) {
+    return `${pluralize(ingredient.food, null)}${note}`.trim();
+  }
+
+  let amount = rawAmount * factor;
+  let unitName: string | null = ingredient.unit?.name ?? null;
+  let unitLabel: string | null = null;
+
+  if (unitName && options.unit_system) {
+    const std = standardUnit(unitName, ingredient.unit?.base_unit);
+    if (std && std.system !== options.unit_system) {
+      const converted = convertToSystem(amount, unitName, options.unit_system, ingredient.unit?.base_unit);
+      if (converted) {
+        amount = converted.amount;
+        unitName = converted.unit;
+        unitLabel = converted.unit;
+      }
+    }
+  }
+
+  if (shouldRound) amount = roundToKitchenMeasure(amount, unitName);
+  if (unitLabel === null && ingredient.unit) unitLabel = pluralize(ingredient.unit, amount);
+
+  const amountText = shouldRound ? formatKitchenAmount(amount, unitName) : String(Number(amount.toFixed(3)));
+  return [amountText, unitLabel, pluralize(ingredient.food, amount)].filter(Boolean).join(' ') + note;
+}
+
+/**
+ * Renders a full recipe as markdown: title, servings, times, keywords, and each step with its ingredients and instruction.
+ */
+export function renderRecipeMarkdown(recipe: any, options: RecipeRenderOptions = {}): string {
+  const factor = options.factor ?? 1;
+  const lines: string[] = [`# ${recipe.name}${recipe.id !== undefined ? ` (ID: ${recipe.id})` : ''}`];
+  if (recipe.description) lines.push('', recipe.description);
+
+  const facts: string[] = [];
+  if (recipe.servings) {
+    const servings = options.servings ?? Number((recipe.servings * factor).toFixed(2));
+    const servingsText = recipe.servings_text ? ` ${recipe.servings_text}` : '';
+    facts.push(`**Servings:** ${servings}${servingsText}${factor !== 1 ? ` (scaled from ${recipe.servings})` : ''}`);
+  }
+  if (recipe.working_time) facts.push(`**Working time:** ${formatMinutes(recipe.working_time)}`);
+  if (recipe.waiting_time) facts.push(`**Waiting time:** ${formatMinutes(recipe.waiting_time)}`);
+  if (recipe.rating) facts.push(`**Rating:** ${recipe.rating}/5`);
+  if (facts.length > 0) lines.push('', facts.join(' · '));
+
+  const keywords = (recipe.keywords || []).map((k: any) => k.label || k.name).filter(Boolean);
+  if (keywords.length > 0) lines.push(`**Keywords:** ${keywords.join(', ')}`);
+  if (recipe.source_url) lines.push(`**Source:** ${recipe.source_url}`);
+
+  const steps: any[] = recipe.steps || [];
+  steps.forEach((step, index) => {
+    const title = [`Step ${index + 1}`, step.name].filter(Boolean).join(': ');
+    lines.push('', `## ${title}${step.time ? ` (${formatMinutes(step.time)})` : ''}`);
+    const ingredients: any[] = step.ingredients || [];
+    if (ingredients.length > 0) {
+      lines.push('', ...ingredients.map(ing => `- ${formatIngredient(ing, options)}`));
+    }
+    if (step.instruction) lines.push('', step.instruction.trim());
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Renders a short summary of a recipe: ID, name, servings, total time, rating, keywords, a trimmed description and,
+ * when steps are present, the list of foods. Works with both full recipes and search results.
+ */
+export function renderRecipeCompact(recipe: any): string {
+  const facts: string[] = [];
+  if (recipe.servings) facts.push(`${recipe.servings} serving${recipe.servings === 1 ? '' : 's'}`);
+  const totalTime = (recipe.working_time || 0) + (recipe.waiting_time || 0);
+  if (totalTime > 0) facts.push(formatMinutes(totalTime));
+  if (recipe.rating) facts.push(`rating ${recipe.rating}/5`);
+
+  const lines: string[] = [`ID: ${recipe.id} - ${recipe.name}${facts.length > 0 ? ` (${facts.join(', ')})` : ''}`];
+  const keywords = (recipe.keywords || []).map((k: any) => k.label || k.name).filter(Boolean);
+  if (keywords.length > 0) lines.push(`Keywords: ${keywords.join(', ')}`);
+  if (recipe.description) {
+    const description = String(recipe.description).replace(/\s+/g, ' ').trim();
+    lines.push(`Description: ${description.length > 150 ? description.slice(0, 147) + '...' : description}`);
+  }
+  if (Array.isArray(recipe.steps)) {
+    const foods = Array.from(new Set<string>(recipe.steps
+      .flatMap((step: any) => step.ingredients || [])
+      .filter((ing: any) => ing.food && !ing.is_header)
+      .map((ing: any) => ing.food.name)));
+    if (foods.length > 0) lines.push(`Ingredients (${recipe.steps.length} step${recipe.steps.length === 1 ? '' : 's'}): ${foods.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+export type RecipeFormat = 'markdown' | 'compact' | 'json';
+
+export const RECIPE_FORMATS: RecipeFormat[] = ['markdown', 'compact', 'json'];
+
+/**
+ * Renders a recipe in the requested format; `json` returns the raw API data.
+ */
+export function renderRecipe(recipe: any, format: RecipeFormat, options: RecipeRenderOptions = {}): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(recipe, null, 2);
+    case 'compact':
+      return renderRecipeCompact(recipe);
+    default:
+      return renderRecipeMarkdown(recipe, options);
+  }
+}
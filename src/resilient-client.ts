@@ -0,0 +1,198 @@
+// --- Resilient API Client ---
+// Timeouts and retries for the Tandoor API client, and the mapping of failed requests to precise MCP errors.
+// Idempotent requests (GET, HEAD, OPTIONS, PUT, DELETE) are retried with exponential backoff when Tandoor is
+// unreachable, overloaded or restarting. POST and PATCH are only retried when Tandoor cannot have processed them:
+// the connection was refused, or the request was rate limited (429).
+
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+
+export interface RetryOptions {
+  timeout_ms: number; // Per request; 0 disables the timeout
+  max_retries: number;
+  base_delay_ms: number; // First backoff delay, doubled on every retry
+  max_delay_ms: number; // Longest wait between attempts; a longer Retry-After fails instead
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeout_ms: 30000,
+  max_retries: 3,
+  base_delay_ms: 500,
+  max_delay_ms: 30000,
+};
+
+// JSON-RPC server error codes (-32000 to -32099) for Tandoor failures that have no MCP error code
+export const TandoorErrorCode = {
+  AuthError: -32001,
+  NotFound: -32002,
+  RateLimited: -32003,
+  Unavailable: -32004,
+} as const;
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const RETRYABLE_STATUSES = [429, 502, 503, 504];
+// Network errors that mean the request never reached Tandoor
+const NOT_SENT_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN'];
+const NETWORK_ERROR_CODES = [...NOT_SENT_CODES, 'ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EPIPE', 'ERR_NETWORK'];
+
+interface RetryState {
+  retryCount?: number;
+}
+
+/**
+ * Reads the options from TANDOOR_TIMEOUT_MS, TANDOOR_MAX_RETRIES, TANDOOR_RETRY_DELAY_MS and
+ * TANDOOR_MAX_RETRY_DELAY_MS, falling back to the defaults for missing or invalid values.
+ */
+export function retryOptionsFromEnv(env: Record<string, string | undefined>): RetryOptions {
+  const read = (name: string, fallback: number) => {
+    const value = env[name];
+    if (value === undefined || value === '') return fallback;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      console.warn(`[Warning] Ignoring invalid ${name}=${value}, using ${fallback}.`);
+      return fallback;
+    }
+    return number;
+  };
+  return {
+    timeout_ms: read('TANDOOR_TIMEOUT_MS', DEFAULT_RETRY_OPTIONS.timeout_ms),
+    max_retries: read('TANDOOR_MAX_RETRIES', DEFAULT_RETRY_OPTIONS.max_retries),
+    base_delay_ms: read('TANDOOR_RETRY_DELAY_MS', DEFAULT_RETRY_OPTIONS.base_delay_ms),
+    max_delay_ms: read('TANDOOR_MAX_RETRY_DELAY_MS', DEFAULT_RETRY_OPTIONS.max_delay_ms),
+  };
+}
+
+/**
+ * Parses a Retry-After header (seconds or an HTTP date) into milliseconds from `now`.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Milliseconds to wait before retry number `retry` (0-based): Retry-After when given, otherwise exponential
+ * backoff with a little jitter so parallel requests do not retry in lockstep.
+ */
+export function retryDelay(retry: number, retryAfterMs: number | undefined, options: RetryOptions, random: () => number = Math.random): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  const backoff = options.base_delay_ms * 2 ** retry;
+  return Math.min(options.max_delay_ms, Math.round(backoff + backoff * 0.25 * random()));
+}
+
+/**
+ * Whether a failed request may be sent again without risking a duplicate write.
+ */
+export function isRetryable(method: string, error: Pick<AxiosError, 'code' | 'response'>): boolean {
+  const status = error.response?.status;
+  if (status !== undefined) {
+    if (!RETRYABLE_STATUSES.includes(status)) return false;
+    return status === 429 || IDEMPOTENT_METHODS.includes(method);
+  }
+  if (!error.code || !NETWORK_ERROR_CODES.includes(error.code)) return false;
+  return IDEMPOTENT_METHODS.includes(method) || NOT_SENT_CODES.includes(error.code);
+}
+
+/**
+ * Sets the request timeout and adds the response interceptor that retries failed requests. Call once per client.
+ */
+export function installRetries(client: AxiosInstance, options: RetryOptions): void {
+  client.defaults.timeout = options.timeout_ms;
+  client.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as (InternalAxiosRequestConfig & RetryState) | undefined;
+    if (!config) throw error;
+    const method = (config.method || 'get').toUpperCase();
+    const retryCount = config.retryCount ?? 0;
+
+    // A retried DELETE may have gone through the first time, before the connection broke
+    if (method === 'DELETE' && retryCount > 0 && error.response?.status === 404) {
+      console.error(`[API] DELETE ${config.url} - Already deleted by an earlier attempt`);
+      return { data: '', status: 204, statusText: 'No Content', headers: {}, config };
+    }
+    if (retryCount >= options.max_retries || !isRetryable(method, error)) throw error;
+
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined && retryAfter > options.max_delay_ms) {
+      console.warn(`[Warning] ${method} ${config.url} - Tandoor asked to retry after ${Math.ceil(retryAfter / 1000)} s, giving up.`);
+      throw error;
+    }
+    const delay = retryDelay(retryCount, retryAfter, options);
+    const reason = error.response ? `status ${error.response.status}` : error.code;
+    console.warn(`[Warning] ${method} ${config.url} - Failed (${reason}), retry ${retryCount + 1} of ${options.max_retries} in ${delay} ms`);
+    await new Promise(resolve => setTimeout(resolve, delay));
+    config.retryCount = retryCount + 1;
+    return client.request(config);
+  });
+}
+
+/**
+ * Flattens a Django REST Framework error body into "field: message" lines, e.g.
+ * {"steps": [{"ingredients": [{"food": {"name": ["This field is required."]}}]}]}
+ * becomes "steps[0].ingredients[0].food.name: This field is required."
+ */
+export function describeValidationErrors(data: unknown, path = ''): string[] {
+  if (data === null || data === undefined || data === '') return [];
+  if (typeof data !== 'object') return [path ? `${path}: ${data}` : String(data)];
+  if (Array.isArray(data)) {
+    if (data.every(item => typeof item !== 'object' || item === null)) {
+      return data.length > 0 ? [`${path ? `${path}: ` : ''}${data.join(' ')}`] : [];
+    }
+    return data.flatMap((item, index) => describeValidationErrors(item, `${path}[${index}]`));
+  }
+  return Object.entries(data).flatMap(([key, value]) => {
+    const field = key === 'non_field_errors' || key === 'detail' ? path : path ? `${path}.${key}` : key;
+    return describeValidationErrors(value, field);
+  });
+}
+
+function responseDetail(data: unknown): string {
+  const lines = describeValidationErrors(data);
+  if (lines.length > 0) return lines.join('; ');
+  return typeof data === 'string' ? data.slice(0, 200) : '';
+}
+
+/**
+ * Converts any error from a tool into an McpError with a precise code. `context` ("Failed to create food")
+ * prefixes the message; `hint` is appended to it.
+ */
+export function toMcpError(error: any, context?: string, hint = ''): McpError {
+  if (error instanceof McpError) return error;
+  const prefix = context ? `${context}: ` : '';
+  if (!error?.isAxiosError) {
+    return new McpError(ErrorCode.InternalError, `${prefix || 'Tool execution failed: '}${error?.message ?? error}${hint}`);
+  }
+
+  const axiosError = error as AxiosError;
+  const request = `${(axiosError.config?.method || 'get').toUpperCase()} ${axiosError.config?.url ?? ''}`;
+  const status = axiosError.response?.status;
+  if (status === undefined) {
+    if (axiosError.code === 'ECONNABORTED' || axiosError.code === 'ETIMEDOUT') {
+      return new McpError(ErrorCode.RequestTimeout, `${prefix}Tandoor did not respond in time (${request}).${hint}`);
+    }
+    return new McpError(TandoorErrorCode.Unavailable, `${prefix}Could not reach Tandoor (${axiosError.code || axiosError.message}). Check TANDOOR_URL and that the server is running.${hint}`);
+  }
+
+  const detail = responseDetail(axiosError.response?.data);
+  const details = detail ? ` ${detail}` : '';
+  switch (true) {
+    case status === 400:
+      return new McpError(ErrorCode.InvalidParams, `${prefix}Tandoor rejected the request (400):${details || ' no details given'}${hint}`, axiosError.response?.data);
+    case status === 401:
+      return new McpError(TandoorErrorCode.AuthError, `${prefix}Tandoor authentication failed (401). Check the API token.${details}${hint}`);
+    case status === 403:
+      return new McpError(TandoorErrorCode.AuthError, `${prefix}Not allowed by Tandoor (403). The API token lacks permission for ${request}, or the object is protected.${details}${hint}`);
+    case status === 404:
+      return new McpError(TandoorErrorCode.NotFound, `${prefix}Not found in Tandoor (404): ${request}.${details}${hint}`);
+    case status === 429: {
+      const retryAfter = parseRetryAfter(axiosError.response?.headers?.['retry-after']);
+      const wait = retryAfter !== undefined ? `in ${Math.ceil(retryAfter / 1000)} s` : 'later';
+      return new McpError(TandoorErrorCode.RateLimited, `${prefix}Tandoor is rate limiting requests (429). Try again ${wait}.${hint}`);
+    }
+    case status >= 500:
+      return new McpError(TandoorErrorCode.Unavailable, `${prefix}Tandoor server error (${status}) for ${request}.${details}${hint}`);
+    default:
+      return new McpError(ErrorCode.InternalError, `${prefix}Tandoor API error (${status}) for ${request}.${details}${hint}`);
+  }
+}
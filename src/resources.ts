@@ -0,0 +1,108 @@
+// --- MCP Resources ---
+// URIs under tandoor:// that expose Tandoor data as read-only MCP resources: recipes, meal plans per week,
+// the shopping list and the taxonomies (meal types, units, keywords, foods, supermarket categories).
+
+export type TaxonomyResource = 'meal-types' | 'units' | 'keywords' | 'foods' | 'supermarket-categories';
+
+export type ResourceRef =
+  | { kind: 'recipe'; id: number }
+  | { kind: 'meal-plan-week'; date: string } // Any date in the week
+  | { kind: 'current-week' }
+  | { kind: 'shopping-list' }
+  | { kind: 'taxonomy'; taxonomy: TaxonomyResource };
+
+export interface ResourceDefinition {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+export interface ResourceTemplateDefinition {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+// Tandoor API endpoint (without /api/ and trailing slash) of each taxonomy resource
+export const TAXONOMY_ENDPOINTS: Record<TaxonomyResource, string> = {
+  'meal-types': 'meal-type',
+  'units': 'unit',
+  'keywords': 'keyword',
+  'foods': 'food',
+  'supermarket-categories': 'supermarket-category',
+};
+
+export const RESOURCES: ResourceDefinition[] = [
+  { uri: 'tandoor://meal-plans/current-week', name: 'Meal plan: current week', description: 'Meal plan entries from Monday to Sunday of the current week.', mimeType: 'application/json' },
+  { uri: 'tandoor://shopping-list', name: 'Shopping list', description: 'Unchecked and recently checked shopping list entries.', mimeType: 'application/json' },
+  { uri: 'tandoor://meal-types', name: 'Meal types', description: 'All meal types (e.g. Breakfast, Dinner) with their IDs.', mimeType: 'application/json' },
+  { uri: 'tandoor://units', name: 'Units', description: 'All units with their IDs and plural names.', mimeType: 'application/json' },
+  { uri: 'tandoor://keywords', name: 'Keyword tree', description: 'All keywords as a tree (children nested under their parent).', mimeType: 'application/json' },
+  { uri: 'tandoor://foods', name: 'Foods', description: 'All foods with their IDs, supermarket category and on-hand status.', mimeType: 'application/json' },
+  { uri: 'tandoor://supermarket-categories', name: 'Supermarket categories', description: 'All supermarket categories with their IDs.', mimeType: 'application/json' },
+];
+
+export const RESOURCE_TEMPLATES: ResourceTemplateDefinition[] = [
+  { uriTemplate: 'tandoor://recipe/{id}', name: 'Recipe', description: 'A recipe with ingredients and steps, rendered as Markdown.', mimeType: 'text/markdown' },
+  { uriTemplate: 'tandoor://meal-plans/week/{date}', name: 'Meal plan for a week', description: 'Meal plan entries from Monday to Sunday of the week containing the date (YYYY-MM-DD).', mimeType: 'application/json' },
+];
+
+/**
+ * Parses a tandoor:// URI. Returns null for URIs this server does not serve.
+ */
+export function parseResourceUri(uri: string): ResourceRef | null {
+  const match = uri.match(/^tandoor:\/\/(.+?)\/?$/);
+  if (!match) return null;
+  const path = match[1];
+
+  const recipe = path.match(/^recipe\/(\d+)$/);
+  if (recipe) return { kind: 'recipe', id: Number(recipe[1]) };
+  const week = path.match(/^meal-plans\/week\/(\d{4}-\d{2}-\d{2})$/);
+  if (week && !Number.isNaN(Date.parse(`${week[1]}T00:00:00Z`))) return { kind: 'meal-plan-week', date: week[1] };
+  if (path === 'meal-plans/current-week') return { kind: 'current-week' };
+  if (path === 'shopping-list') return { kind: 'shopping-list' };
+  if (path in TAXONOMY_ENDPOINTS) return { kind: 'taxonomy', taxonomy: path as TaxonomyResource };
+  return null;
+}
+
+/**
+ * Returns the Monday and Sunday (YYYY-MM-DD) of the week containing `date`.
+ */
+export function weekRange(date: string): { from: string; to: string } {
+  const day = new Date(`${date}T00:00:00Z`);
+  const offset = (day.getUTCDay() + 6) % 7; // Days since Monday
+  day.setUTCDate(day.getUTCDate() - offset);
+  const from = day.toISOString().split('T')[0];
+  day.setUTCDate(day.getUTCDate() + 6);
+  return { from, to: day.toISOString().split('T')[0] };
+}
+
+export interface KeywordNode {
+  id: number;
+  name: string;
+  description?: string;
+  children: KeywordNode[];
+}
+
+/**
+ * Nests keywords under their parent. Keywords whose parent is missing from the list become roots.
+ */
+export function buildKeywordTree(keywords: { id: number; name: string; description?: string | null; parent?: number | null }[]): KeywordNode[] {
+  const nodes = new Map<number, KeywordNode>();
+  for (const keyword of keywords) {
+    nodes.set(keyword.id, { id: keyword.id, name: keyword.name, ...(keyword.description ? { description: keyword.description } : {}), children: [] });
+  }
+  const roots: KeywordNode[] = [];
+  for (const keyword of keywords) {
+    const parent = keyword.parent ? nodes.get(keyword.parent) : undefined;
+    (parent ? parent.children : roots).push(nodes.get(keyword.id)!);
+  }
+  const sortNodes = (list: KeywordNode[]) => {
+    list.sort((a, b) => a.name.localeCompare(b.name));
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+  return roots;
+}
@@ -0,0 +1,203 @@
+// --- Response Cache ---
+// In-memory cache for GET requests on data that rarely changes: meal types, units, foods, keywords, supermarket
+// categories and recipes. Writes made through this server invalidate the affected groups; changes made elsewhere
+// (e.g. in the Tandoor web UI) show up once the TTL has expired. Entries are per API token, so sessions with
+// different tokens never see each other's data.
+
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { DRY_RUN_STATUS_TEXT } from './dry-run.js';
+
+export type CacheGroup = 'meal-type' | 'unit' | 'food' | 'keyword' | 'supermarket-category' | 'recipe';
+
+export const CACHE_GROUPS: CacheGroup[] = ['meal-type', 'unit', 'food', 'keyword', 'supermarket-category', 'recipe'];
+
+interface CacheRule {
+  group: CacheGroup;
+  pattern: RegExp; // Matched against the path without the query string
+  ttl: number; // Seconds
+}
+
+const CACHE_RULES: CacheRule[] = [
+  { group: 'meal-type', pattern: /^\/api\/meal-type\/(\d+\/)?$/, ttl: 1800 },
+  { group: 'unit', pattern: /^\/api\/unit\/(\d+\/)?$/, ttl: 600 },
+  { group: 'keyword', pattern: /^\/api\/keyword\/(\d+\/)?$/, ttl: 600 },
+  { group: 'supermarket-category', pattern: /^\/api\/supermarket-category\/(\d+\/)?$/, ttl: 600 },
+  { group: 'food', pattern: /^\/api\/food\/(\d+\/)?$/, ttl: 300 },
+  { group: 'recipe', pattern: /^\/api\/recipe\/\d+\/$/, ttl: 300 },
+  // Searches are kept briefly: ratings and "last cooked" also change through the web UI
+  { group: 'recipe', pattern: /^\/api\/recipe\/$/, ttl: 60 },
+];
+
+// Groups to drop after a write to an endpoint (the first path segment after /api/)
+const WRITE_INVALIDATES: Record<string, CacheGroup[]> = {
+  'meal-type': ['meal-type'],
+  'unit': ['unit', 'recipe'],
+  'food': ['food', 'recipe'],
+  'keyword': ['keyword', 'recipe'],
+  'supermarket-category': ['supermarket-category', 'food'],
+  // Recipes create their foods, units and keywords on the fly
+  'recipe': ['recipe', 'food', 'unit', 'keyword'],
+  'ingredient': ['recipe', 'food', 'unit'],
+  'step': ['recipe', 'food', 'unit'],
+  'cook-log': ['recipe'],
+  'recipe-book-entry': ['recipe'],
+  // Checking off shopping list entries can mark their foods as on hand
+  'shopping-list-entry': ['food'],
+};
+
+export interface CacheOptions {
+  ttl_override?: number; // Seconds for every group; 0 disables the cache
+  max_entries?: number; // Oldest entries are dropped beyond this (default: 500)
+}
+
+interface CacheEntry {
+  group: CacheGroup;
+  expires: number;
+  stored: number;
+  data: unknown;
+  status: number;
+  headers: AxiosResponse['headers'];
+}
+
+interface CacheState {
+  cacheKey?: string;
+  cacheGroup?: CacheGroup;
+  cacheTtl?: number;
+  cacheHit?: boolean;
+}
+
+const entries = new Map<string, CacheEntry>();
+const stats = { hits: 0, misses: 0 };
+
+function pathOf(url: string): string {
+  return url.replace(/^https?:\/\/[^/]+/, '').split('?')[0];
+}
+
+/**
+ * Returns the cache rule for a GET URL, or undefined when it is not cached.
+ */
+export function cacheRuleFor(url: string): { group: CacheGroup; ttl: number } | undefined {
+  const path = pathOf(url);
+  const rule = CACHE_RULES.find(candidate => candidate.pattern.test(path));
+  return rule ? { group: rule.group, ttl: rule.ttl } : undefined;
+}
+
+/**
+ * Returns the groups a write (POST, PUT, PATCH, DELETE) to `url` makes stale.
+ */
+export function invalidatedGroups(url: string): CacheGroup[] {
+  const endpoint = pathOf(url).match(/^\/api\/([a-z-]+)\//)?.[1];
+  return endpoint ? WRITE_INVALIDATES[endpoint] ?? [] : [];
+}
+
+/**
+ * Drops the cached responses of the given groups (all groups when omitted) and returns how many were dropped.
+ */
+export function clearCache(groups?: CacheGroup[]): number {
+  let cleared = 0;
+  for (const [key, entry] of entries) {
+    if (!groups || groups.includes(entry.group)) {
+      entries.delete(key);
+      cleared++;
+    }
+  }
+  return cleared;
+}
+
+/**
+ * Hit and miss counts since the server started, and the number of cached responses.
+ */
+export function cacheStats(): { hits: number; misses: number; entries: number } {
+  return { ...stats, entries: entries.size };
+}
+
+/**
+ * Reads TANDOOR_CACHE_TTL_SECONDS: one TTL for every group, 0 to disable the cache.
+ */
+export function cacheOptionsFromEnv(env: Record<string, string | undefined>): CacheOptions {
+  const value = env.TANDOOR_CACHE_TTL_SECONDS;
+  if (value === undefined || value === '') return {};
+  const ttl = Number(value);
+  if (!Number.isInteger(ttl) || ttl < 0) {
+    console.warn(`[Warning] Ignoring invalid TANDOOR_CACHE_TTL_SECONDS=${value}, using the default TTLs.`);
+    return {};
+  }
+  return { ttl_override: ttl };
+}
+
+/**
+ * Adds the interceptors that answer cached GET requests and invalidate the cache after writes. Request interceptors
+ * run in reverse order of installation, so install the cache before anything that sets the Authorization header.
+ */
+export function installCache(client: AxiosInstance, options: CacheOptions = {}): void {
+  const maxEntries = options.max_entries ?? 500;
+
+  client.interceptors.request.use(config => {
+    const state = config as InternalAxiosRequestConfig & CacheState;
+    const method = (config.method || 'get').toUpperCase();
+    const url = config.url || '';
+    if (method !== 'GET' || options.ttl_override === 0) return config;
+    const rule = cacheRuleFor(url);
+    if (!rule) return config;
+
+    const key = `${config.headers?.Authorization ?? ''} ${url}`;
+    const entry = entries.get(key);
+    if (entry && entry.expires > Date.now()) {
+      stats.hits++;
+      console.error(`[API] GET ${url} - Cache hit (${Math.round((Date.now() - entry.stored) / 1000)} s old)`);
+      state.cacheHit = true;
+      config.adapter = async (adapterConfig): Promise<AxiosResponse> => ({
+        data: structuredClone(entry.data), // Callers may modify the data they get
+        status: entry.status,
+        statusText: 'Cached',
+        headers: entry.headers,
+        config: adapterConfig,
+      });
+      return config;
+    }
+    if (entry) entries.delete(key);
+    stats.misses++;
+    console.error(`[API] GET ${url} - Cache miss`);
+    state.cacheKey = key;
+    state.cacheGroup = rule.group;
+    state.cacheTtl = options.ttl_override ?? rule.ttl;
+    return config;
+  });
+
+  // Writes invalidate whether or not they succeeded: a failed or timed-out request may still have changed data
+  const invalidateAfterWrite = (config: InternalAxiosRequestConfig | undefined, simulated: boolean) => {
+    if (!config || simulated) return;
+    const method = (config.method || 'get').toUpperCase();
+    if (method === 'GET' || method === 'HEAD') return;
+    const groups = invalidatedGroups(config.url || '');
+    if (groups.length === 0) return;
+    const cleared = clearCache(groups);
+    if (cleared > 0) console.error(`[API] ${method} ${config.url} - Cache invalidated for ${groups.join(', ')} (${cleared} entries)`);
+  };
+
+  client.interceptors.response.use(
+    response => {
+      const state = response.config as InternalAxiosRequestConfig & CacheState;
+      // Dry runs answer writes (and placeholder lookups) without contacting Tandoor; those must not touch the cache
+      const simulated = response.statusText === DRY_RUN_STATUS_TEXT;
+      invalidateAfterWrite(response.config, simulated);
+      if (state.cacheKey && state.cacheGroup && !state.cacheHit && !simulated && response.status === 200) {
+        const now = Date.now();
+        entries.set(state.cacheKey, {
+          group: state.cacheGroup,
+          stored: now,
+          expires: now + (state.cacheTtl ?? 0) * 1000,
+          data: structuredClone(response.data),
+          status: response.status,
+          headers: response.headers,
+        });
+        if (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+      }
+      return response;
+    },
+    error => {
+      invalidateAfterWrite(error.config, false);
+      throw error;
+    }
+  );
+}
@@ -0,0 +1,215 @@
+// --- schema.org Recipe Parser ---
+// Extracts schema.org `Recipe` data from web pages (JSON-LD) and turns it into a recipe draft.
+// Works on plain strings only (no network access), so it can be run against saved HTML.
+
+export interface RecipeDraftStep {
+  name?: string;
+  instruction: string;
+}
+
+export interface RecipeDraft {
+  name: string;
+  description?: string;
+  servings?: number;
+  servings_text?: string;
+  working_time?: number; // Minutes
+  waiting_time?: number; // Minutes
+  ingredients: string[]; // Raw ingredient lines, to be parsed with parseIngredientLine
+  steps: RecipeDraftStep[];
+  keywords: string[];
+  image?: string;
+  source_url?: string;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', frac12: '½', frac14: '¼', frac34: '¾', deg: '°',
+};
+
+/**
+ * Decodes HTML entities and strips tags, collapsing whitespace ("Salt &amp; <b>pepper</b>" -> "Salt & pepper").
+ */
+export function cleanText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&([a-z]+\d*);/gi, (entity, name: string) => HTML_ENTITIES[name.toLowerCase()] ?? entity)
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .trim();
+}
+
+/**
+ * Converts an ISO 8601 duration ("PT1H30M", "P0DT45M") to minutes. Returns undefined for missing or invalid values.
+ */
+export function parseDuration(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match || value.trim().toUpperCase() === 'P' || value.trim().toUpperCase() === 'PT') return undefined;
+  const [, days, hours, minutes, seconds] = match.map(part => (part ? parseFloat(part) : 0));
+  const total = Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? total : undefined;
+}
+
+function isRecipeNode(node: any): boolean {
+  if (!node || typeof node !== 'object') return false;
+  const type = node['@type'];
+  return Array.isArray(type) ? type.includes('Recipe') : type === 'Recipe';
+}
+
+// Recipes can be nested in @graph, arrays or mainEntity depending on the site's SEO plugin
+function findRecipeNode(node: any): any | undefined {
+  if (!node || typeof node !== 'object') return undefined;
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findRecipeNode(item);
+      if (found) return found;
+    }
+    return undefined;
+  }
+  if (isRecipeNode(node)) return node;
+  for (const key of ['@graph', 'mainEntity', 'mainEntityOfPage']) {
+    const found = findRecipeNode(node[key]);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+/**
+ * Finds the first schema.org Recipe object in an HTML page's JSON-LD scripts, or in a raw JSON-LD string. Invalid
+ * JSON-LD blocks are skipped and reported in `warnings`.
+ */
+export function extractSchemaRecipe(source: string): { recipe: any | undefined; warnings: string[] } {
+  const warnings: string[] = [];
+  const trimmed = source.trim();
+  const blocks: string[] = [];
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    blocks.push(trimmed);
+  } else {
+    const scriptRegex = /<script[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+    let match: RegExpExecArray | null;
+    while ((match = scriptRegex.exec(source)) !== null) {
+      blocks.push(match[1].trim());
+    }
+  }
+
+  for (const block of blocks) {
+    try {
+      // Some sites wrap JSON-LD in CDATA or HTML comments
+      const json = JSON.parse(block.replace(/^<!\[CDATA\[|\]\]>$/g, '').replace(/^<!--|-->$/g, '').trim());
+      const recipe = findRecipeNode(json);
+      if (recipe) return { recipe, warnings };
+    } catch (err: any) {
+      warnings.push(`Skipped invalid JSON-LD block: ${err.message}`);
+    }
+  }
+  return { recipe: undefined, warnings };
+}
+
+function parseYield(value: unknown): { servings?: number; servings_text?: string } {
+  const values = Array.isArray(value) ? value : [value];
+  for (const item of values) {
+    if (typeof item === 'number' && item > 0) return { servings: item };
+    if (typeof item === 'string') {
+      const match = item.match(/(\d+)/);
+      if (match) {
+        const text = cleanText(item.replace(match[1], '')).replace(/^[-:\s]+/, '');
+        return { servings: parseInt(match[1], 10), servings_text: text || undefined };
+      }
+    }
+  }
+  return {};
+}
+
+function parseInstructions(value: unknown, sectionName?: string): RecipeDraftStep[] {
+  if (!value) return [];
+  if (typeof value === 'string') {
+    // A single text block: one step per paragraph/line
+    return cleanText(value)
+      .split(/\n+/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0)
+      .map((instruction, index) => (index === 0 && sectionName ? { name: sectionName, instruction } : { instruction }));
+  }
+  if (Array.isArray(value)) {
+    const steps = value.flatMap(item => parseInstructions(item));
+    if (sectionName && steps.length > 0 && !steps[0].name) steps[0] = { ...steps[0], name: sectionName };
+    return steps;
+  }
+  if (typeof value === 'object') {
+    const node = value as any;
+    const type = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+    if (type.includes('HowToSection')) {
+      return parseInstructions(node.itemListElement, cleanText(node.name) || sectionName);
+    }
+    const text = cleanText(node.text || node.description || node.name);
+    if (!text) return [];
+    const step: RecipeDraftStep = { instruction: text };
+    if (sectionName) step.name = sectionName;
+    return [step];
+  }
+  return [];
+}
+
+function parseKeywords(recipe: any): string[] {
+  const keywords: string[] = [];
+  for (const field of ['keywords', 'recipeCategory', 'recipeCuisine']) {
+    const value = recipe[field];
+    const values = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    for (const keyword of values) {
+      const cleaned = cleanText(typeof keyword === 'object' && keyword ? keyword.name : keyword);
+      if (cleaned && !keywords.some(k => k.toLowerCase() === cleaned.toLowerCase())) keywords.push(cleaned);
+    }
+  }
+  return keywords;
+}
+
+function parseImage(value: unknown): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return parseImage(value[0]);
+  if (typeof value === 'object') return parseImage((value as any).url || (value as any).contentUrl);
+  return undefined;
+}
+
+/**
+ * Converts a schema.org Recipe object into a recipe draft.
+ */
+export function schemaRecipeToDraft(recipe: any, sourceUrl?: string): RecipeDraft {
+  const prepTime = parseDuration(recipe.prepTime);
+  const cookTime = parseDuration(recipe.cookTime);
+  const totalTime = parseDuration(recipe.totalTime);
+  const ingredients = (Array.isArray(recipe.recipeIngredient) ? recipe.recipeIngredient : recipe.ingredients || [])
+    .map((line: unknown) => cleanText(line))
+    .filter((line: string) => line.length > 0);
+
+  const draft: RecipeDraft = {
+    name: cleanText(recipe.name) || 'Imported Recipe',
+    ingredients,
+    steps: parseInstructions(recipe.recipeInstructions),
+    keywords: parseKeywords(recipe),
+    ...parseYield(recipe.recipeYield),
+  };
+  const description = cleanText(recipe.description);
+  if (description) draft.description = description;
+  // Prep time is active work; cooking time (or whatever the total leaves over) is waiting time
+  if (prepTime !== undefined) draft.working_time = prepTime;
+  if (cookTime !== undefined) draft.waiting_time = cookTime;
+  else if (totalTime !== undefined && prepTime !== undefined && totalTime > prepTime) draft.waiting_time = totalTime - prepTime;
+  else if (totalTime !== undefined && prepTime === undefined) draft.working_time = totalTime;
+  const image = parseImage(recipe.image);
+  if (image) draft.image = image;
+  const url = sourceUrl || (typeof recipe.url === 'string' ? recipe.url : undefined);
+  if (url) draft.source_url = url;
+  return draft;
+}
+
+/**
+ * Extracts a recipe draft from an HTML page or JSON-LD string; `draft` is undefined if it contains no schema.org Recipe.
+ */
+export function parseRecipeFromSource(source: string, sourceUrl?: string): { draft: RecipeDraft | undefined; warnings: string[] } {
+  const { recipe, warnings } = extractSchemaRecipe(source);
+  return { draft: recipe ? schemaRecipeToDraft(recipe, sourceUrl) : undefined, warnings };
+}
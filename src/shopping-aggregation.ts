@@ -0,0 +1,157 @@
+// --- Shopping List Aggregation ---
+// Merges shopping list entries for the same food, combining amounts in compatible units (g + kg, tsp + tbsp + cup).
+
+import { standardUnit, toStandardWithTandoor, TandoorUnitConversion, Dimension } from './unit-conversion.js';
+
+// The parts of a Tandoor shopping list entry used for aggregation
+export interface ShoppingEntryLike {
+  id: number;
+  amount: number | string;
+  checked?: boolean;
+  food?: { id: number; name: string; supermarket_category?: { id: number; name: string } | null } | null;
+  unit?: { id: number; name: string; base_unit?: string | null } | null;
+  recipe_mealplan?: { recipe_name?: string | null; name?: string | null } | null;
+}
+
+export interface AggregatedAmount {
+  amount: number;
+  unit: string | null;
+  unit_id: number | null;
+  entry_ids: number[];
+}
+
+export interface AggregatedItem {
+  food_id: number | null;
+  food: string;
+  category: string;
+  checked: boolean;
+  amounts: AggregatedAmount[];
+  recipes: string[];
+  entry_ids: number[];
+}
+
+export interface AggregatedCategory {
+  category: string;
+  items: AggregatedItem[];
+}
+
+// Amounts that can be added together: either one dimension (mass/volume) or one non-convertible unit
+interface Bucket {
+  dimension: Dimension | null;
+  base_total: number; // In g / ml for dimensions, in the unit itself otherwise
+  units: Map<string, { id: number | null; factor: number }>; // Units seen in this bucket, with size in base units
+  unit_name: string | null; // For non-convertible buckets
+  unit_id: number | null;
+  entry_ids: number[];
+}
+
+const UNCATEGORIZED = 'Uncategorized';
+
+/**
+ * Picks the unit to show a combined amount in: among the units that were actually used, the largest one that still
+ * gives an amount of at least 1 (so 500 g + 1 kg becomes 1.5 kg, 3 tsp + 1 tbsp becomes 2 tbsp).
+ */
+function displayUnit(bucket: Bucket): { unit: string; unit_id: number | null; amount: number } {
+  const units = Array.from(bucket.units.entries()).sort((a, b) => b[1].factor - a[1].factor);
+  for (const [name, { id, factor }] of units) {
+    if (bucket.base_total / factor >= 1) {
+      return { unit: name, unit_id: id, amount: bucket.base_total / factor };
+    }
+  }
+  const [name, { id, factor }] = units[units.length - 1];
+  return { unit: name, unit_id: id, amount: bucket.base_total / factor };
+}
+
+function addToBuckets(buckets: Bucket[], entry: ShoppingEntryLike, conversions: TandoorUnitConversion[]): void {
+  const amount = Number(entry.amount) || 0;
+  const unitName = entry.unit?.name ?? null;
+  const unitId = entry.unit?.id ?? null;
+  const foodId = entry.food?.id ?? null;
+
+  let std = standardUnit(unitName, entry.unit?.base_unit);
+  let baseAmount = std ? amount * std.factor : amount;
+  let unitFactor = std ? std.factor : 1;
+
+  // Units like "clove" can join mass/volume buckets through a Tandoor unit conversion
+  if (!std && unitName) {
+    const converted = toStandardWithTandoor(amount, unitName, conversions, foodId);
+    if (converted) {
+      std = standardUnit(converted.unit);
+      baseAmount = converted.amount * std!.factor;
+      unitFactor = amount ? baseAmount / amount : std!.factor;
+    }
+  }
+
+  const dimension = std ? std.dimension : null;
+  let bucket = buckets.find(b => (dimension ? b.dimension === dimension : b.dimension === null && b.unit_name === unitName));
+  if (!bucket) {
+    bucket = { dimension, base_total: 0, units: new Map(), unit_name: dimension ? null : unitName, unit_id: dimension ? null : unitId, entry_ids: [] };
+    buckets.push(bucket);
+  }
+  bucket.base_total += baseAmount;
+  bucket.entry_ids.push(entry.id);
+  if (unitName && !bucket.units.has(unitName)) {
+    bucket.units.set(unitName, { id: unitId, factor: unitFactor });
+  }
+}
+
+/**
+ * Groups shopping list entries by food (checked and unchecked kept apart) and adds up compatible amounts.
+ */
+export function aggregateShoppingEntries(entries: ShoppingEntryLike[], conversions: TandoorUnitConversion[] = []): AggregatedItem[] {
+  const groups = new Map<string, { item: AggregatedItem; buckets: Bucket[] }>();
+
+  for (const entry of entries) {
+    const foodName = entry.food?.name || '?';
+    const checked = !!entry.checked;
+    const key = `${entry.food?.id ?? foodName.toLowerCase()}|${checked}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        item: {
+          food_id: entry.food?.id ?? null,
+          food: foodName,
+          category: entry.food?.supermarket_category?.name || UNCATEGORIZED,
+          checked,
+          amounts: [],
+          recipes: [],
+          entry_ids: [],
+        },
+        buckets: [],
+      };
+      groups.set(key, group);
+    }
+    group.item.entry_ids.push(entry.id);
+    const recipe = entry.recipe_mealplan?.recipe_name || entry.recipe_mealplan?.name;
+    if (recipe && !group.item.recipes.includes(recipe)) group.item.recipes.push(recipe);
+    addToBuckets(group.buckets, entry, conversions);
+  }
+
+  return Array.from(groups.values()).map(({ item, buckets }) => ({
+    ...item,
+    amounts: buckets.map(bucket => {
+      if (bucket.dimension && bucket.units.size > 0) {
+        const shown = displayUnit(bucket);
+        return { amount: shown.amount, unit: shown.unit, unit_id: shown.unit_id, entry_ids: bucket.entry_ids };
+      }
+      return { amount: bucket.base_total, unit: bucket.unit_name, unit_id: bucket.unit_id, entry_ids: bucket.entry_ids };
+    }),
+  }));
+}
+
+/**
+ * Groups aggregated items by supermarket category, sorted by category and food name ("Uncategorized" last).
+ */
+export function groupByCategory(items: AggregatedItem[]): AggregatedCategory[] {
+  const categories = new Map<string, AggregatedItem[]>();
+  for (const item of items) {
+    if (!categories.has(item.category)) categories.set(item.category, []);
+    categories.get(item.category)!.push(item);
+  }
+  return Array.from(categories.entries())
+    .sort(([a], [b]) => (a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b)))
+    .map(([category, categoryItems]) => ({
+      category,
+      items: categoryItems.sort((a, b) => a.food.localeCompare(b.food)),
+    }));
+}
@@ -0,0 +1,383 @@
+// --- Shared Types ---
+// Tandoor API objects as this server reads them, and the structured results the tools return next to their text.
+// Tools report their outcome as typed data (recipes, meal plan entries, shopping items, created IDs, errors); the
+// `output` argument decides whether a client gets the text, the data as JSON, or both.
+
+import { RecordedRequest } from './dry-run.js';
+import { CookLogEntry, cookLogDate } from './cook-log.js';
+
+// --- Tandoor API objects (only the fields this server reads) ---
+
+export interface TandoorNamed {
+  id: number;
+  name: string;
+}
+
+export interface TandoorFood extends TandoorNamed {
+  plural_name?: string | null;
+  description?: string | null;
+  full_name?: string;
+  supermarket_category?: TandoorNamed | null;
+  food_onhand?: boolean;
+  ignore_shopping?: boolean;
+  substitute?: TandoorNamed[];
+  substitute_siblings?: boolean;
+  substitute_children?: boolean;
+}
+
+export interface TandoorUnit extends TandoorNamed {
+  plural_name?: string | null;
+  description?: string | null;
+  base_unit?: string | null;
+}
+
+export interface TandoorKeyword extends TandoorNamed {
+  label?: string;
+  description?: string | null;
+  full_name?: string;
+  icon?: string | null;
+  parent?: number | null;
+}
+
+export interface TandoorRecipeBook extends TandoorNamed {
+  description?: string | null;
+}
+
+// Links a recipe to a book (/api/recipe-book-entry/)
+export interface TandoorRecipeBookEntry {
+  id: number;
+  book: number | TandoorNamed;
+  recipe: number;
+}
+
+export interface TandoorIngredient {
+  id?: number;
+  food?: TandoorFood | null;
+  unit?: TandoorUnit | null;
+  amount?: number | string | null;
+  note?: string | null;
+  original_text?: string | null;
+  is_header?: boolean;
+  no_amount?: boolean;
+}
+
+export interface TandoorStep {
+  name?: string | null;
+  instruction?: string | null;
+  time?: number | null;
+  order?: number | null;
+  ingredients?: TandoorIngredient[];
+}
+
+// A recipe from /api/recipe/ (search results) or /api/recipe/{id}/ (with steps)
+export interface TandoorRecipe extends TandoorNamed {
+  description?: string | null;
+  servings?: number | null;
+  servings_text?: string | null;
+  working_time?: number | null;
+  waiting_time?: number | null;
+  rating?: number | null;
+  last_cooked?: string | null;
+  created_at?: string | null;
+  updated_at?: string | null;
+  keywords?: TandoorKeyword[];
+  source_url?: string | null;
+  steps?: TandoorStep[];
+}
+
+export interface TandoorMealPlan {
+  id: number;
+  title?: string | null;
+  recipe?: (TandoorNamed & { keywords?: TandoorKeyword[] }) | null;
+  meal_type?: TandoorNamed | null;
+  meal_type_name?: string;
+  from_date: string;
+  to_date?: string | null;
+  servings: number | string;
+  note?: string | null;
+}
+
+export interface TandoorShoppingEntry {
+  id: number;
+  amount: number | string;
+  checked?: boolean;
+  food?: TandoorFood | null;
+  unit?: TandoorUnit | null;
+  note?: string | null;
+  list_recipe?: number | null; // The recipe or meal plan the entry was added for
+  recipe_mealplan?: { recipe_name?: string | null; name?: string | null; recipe?: number | TandoorNamed | null } | null;
+}
+
+// Groups the shopping list entries added for one recipe or meal plan (/api/shopping-list-recipe/)
+export interface TandoorShoppingListRecipe {
+  id: number;
+  recipe?: number | null;
+  mealplan?: number | null;
+  servings?: number | string;
+}
+
+// --- Tool arguments ---
+
+// One entry of commit_meal_plan's `entries`, after every field was checked
+export interface CommitMealPlanEntryInput {
+  date: string; // YYYY-MM-DD
+  meal_type: string;
+  recipe: string | number;
+  servings?: number;
+  title?: string;
+  note?: string;
+  end_date?: string; // YYYY-MM-DD, not before `date`
+}
+
+// --- Structured tool results ---
+
+export type OutputMode = 'text' | 'json' | 'both';
+
+export const OUTPUT_MODES: OutputMode[] = ['text', 'json', 'both'];
+
+export interface RecipeSummary {
+  id: number;
+  name: string;
+  description: string | null;
+  servings: number | null;
+  working_time: number | null; // Minutes
+  waiting_time: number | null; // Minutes
+  rating: number | null;
+  last_cooked: string | null; // YYYY-MM-DD
+  keywords: string[];
+}
+
+export interface IngredientData {
+  amount: number | null;
+  unit: string | null;
+  food: string | null;
+  note: string | null;
+  is_header: boolean;
+}
+
+export interface StepData {
+  name: string | null;
+  instruction: string;
+  time: number | null; // Minutes
+  ingredients: IngredientData[];
+}
+
+export interface RecipeData extends RecipeSummary {
+  servings_text: string | null;
+  source_url: string | null;
+  steps: StepData[];
+}
+
+export interface MealPlanEntry {
+  id: number;
+  from_date: string; // YYYY-MM-DD
+  to_date: string | null; // YYYY-MM-DD, only for multi-day entries
+  meal_type: string | null;
+  meal_type_id: number | null;
+  recipe: { id: number; name: string } | null;
+  title: string | null;
+  servings: number;
+  note: string | null;
+}
+
+export interface ShoppingItem {
+  id: number;
+  food: string | null;
+  food_id: number | null;
+  amount: number | null;
+  unit: string | null;
+  checked: boolean;
+  category: string | null;
+  recipe: string | null;
+  note: string | null;
+}
+
+// A food, unit, keyword, meal type or recipe book
+export interface TaxonomyItem {
+  id: number;
+  name: string;
+  plural_name?: string | null;
+  description?: string | null;
+  category?: string | null; // Foods: supermarket category
+  on_hand?: boolean; // Foods
+}
+
+export interface CookLogItem {
+  id: number;
+  recipe: { id: number; name: string };
+  date: string; // YYYY-MM-DD
+  servings: number | null;
+  rating: number | null;
+  comment: string | null;
+}
+
+export type EntityType = 'recipe' | 'recipe_book' | 'recipe_book_entry' | 'meal_plan' | 'food' | 'unit' | 'keyword' | 'shopping_item' | 'cook_log';
+
+// An object a tool created, changed or deleted; negative IDs stand for objects a dry run would create
+export interface EntityRef {
+  type: EntityType;
+  id: number;
+  name?: string;
+}
+
+export interface SkippedItem {
+  item: string;
+  reason: string;
+}
+
+export interface ToolError {
+  item: string | null; // What failed, e.g. a recipe name or an entry ID
+  error: string;
+}
+
+export interface PageInfo {
+  count: number; // Total number of results on the server
+  page: number;
+  page_size: number;
+  has_more: boolean;
+  truncated: boolean;
+  checked?: number; // Filters applied after fetching only saw this many results; `count` is then a lower bound
+}
+
+// The structured result of a tool call; each tool fills the fields that apply to it
+export interface ToolData {
+  recipes?: RecipeSummary[];
+  recipe?: RecipeData;
+  meal_plans?: MealPlanEntry[];
+  shopping_items?: ShoppingItem[];
+  items?: TaxonomyItem[];
+  cook_log?: CookLogItem[];
+  created?: EntityRef[];
+  updated?: EntityRef[];
+  deleted?: EntityRef[];
+  skipped?: SkippedItem[];
+  errors?: ToolError[];
+  page?: PageInfo;
+  details?: Record<string, unknown>; // Tool-specific values, e.g. a scale factor or cache statistics
+  dry_run?: { requests: RecordedRequest[] };
+}
+
+function dateOnly(value: string | null | undefined): string | null {
+  return value ? String(value).split('T')[0] : null;
+}
+
+function numberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Maps a recipe from a search result or a detail response to its summary.
+ */
+export function toRecipeSummary(recipe: TandoorRecipe): RecipeSummary {
+  return {
+    id: recipe.id,
+    name: recipe.name,
+    description: recipe.description || null,
+    servings: numberOrNull(recipe.servings),
+    working_time: numberOrNull(recipe.working_time),
+    waiting_time: numberOrNull(recipe.waiting_time),
+    rating: numberOrNull(recipe.rating),
+    last_cooked: dateOnly(recipe.last_cooked),
+    keywords: (recipe.keywords || []).map(keyword => keyword.label || keyword.name).filter(Boolean),
+  };
+}
+
+/**
+ * Maps a full recipe (GET /api/recipe/{id}/) with its steps and ingredients. `factor` scales the amounts.
+ */
+export function toRecipeData(recipe: TandoorRecipe, factor = 1): RecipeData {
+  const summary = toRecipeSummary(recipe);
+  return {
+    ...summary,
+    servings: summary.servings !== null && factor !== 1 ? Number((summary.servings * factor).toFixed(2)) : summary.servings,
+    servings_text: recipe.servings_text || null,
+    source_url: recipe.source_url || null,
+    steps: (recipe.steps || []).map(step => ({
+      name: step.name || null,
+      instruction: step.instruction || '',
+      time: numberOrNull(step.time),
+      ingredients: (step.ingredients || []).map(ingredient => {
+        const amount = ingredient.is_header || ingredient.no_amount ? null : numberOrNull(ingredient.amount);
+        return {
+          amount: amount !== null ? Number((amount * factor).toFixed(3)) : null,
+          unit: ingredient.unit?.name ?? null,
+          food: ingredient.food?.name ?? null,
+          note: ingredient.note || null,
+          is_header: !!ingredient.is_header,
+        };
+      }),
+    })),
+  };
+}
+
+export function toMealPlanEntry(plan: TandoorMealPlan): MealPlanEntry {
+  const fromDate = dateOnly(plan.from_date) ?? '';
+  const toDate = dateOnly(plan.to_date);
+  return {
+    id: plan.id,
+    from_date: fromDate,
+    to_date: toDate && toDate !== fromDate ? toDate : null,
+    meal_type: plan.meal_type?.name ?? plan.meal_type_name ?? null,
+    meal_type_id: plan.meal_type?.id ?? null,
+    recipe: plan.recipe ? { id: plan.recipe.id, name: plan.recipe.name } : null,
+    title: plan.title || null,
+    servings: Number(plan.servings),
+    note: plan.note || null,
+  };
+}
+
+export function toShoppingItem(entry: TandoorShoppingEntry): ShoppingItem {
+  return {
+    id: entry.id,
+    food: entry.food?.name ?? null,
+    food_id: entry.food?.id ?? null,
+    amount: numberOrNull(entry.amount),
+    unit: entry.unit?.name ?? null,
+    checked: !!entry.checked,
+    category: entry.food?.supermarket_category?.name ?? null,
+    recipe: entry.recipe_mealplan?.recipe_name || entry.recipe_mealplan?.name || null,
+    note: entry.note || null,
+  };
+}
+
+/**
+ * Maps a food, unit, keyword, meal type or recipe book; food-only fields are included for foods.
+ */
+export function toTaxonomyItem(entry: TandoorFood | TandoorUnit | TandoorKeyword | TandoorRecipeBook): TaxonomyItem {
+  const item: TaxonomyItem = { id: entry.id, name: entry.name, description: entry.description || null };
+  if ('plural_name' in entry) item.plural_name = entry.plural_name || null;
+  if ('food_onhand' in entry || 'supermarket_category' in entry) {
+    const food = entry as TandoorFood;
+    item.category = food.supermarket_category?.name ?? null;
+    item.on_hand = !!food.food_onhand;
+  }
+  return item;
+}
+
+export function toCookLogItem(entry: CookLogEntry, recipeName: string): CookLogItem {
+  return {
+    id: entry.id,
+    recipe: { id: entry.recipe, name: recipeName },
+    date: cookLogDate(entry),
+    servings: entry.servings ?? null,
+    rating: entry.rating ?? null,
+    comment: entry.comment || null,
+  };
+}
+
+/**
+ * Builds an error entry from a caught error; the API response body is kept when there is one.
+ */
+export function toToolError(item: string | number | null, err: any): ToolError {
+  const detail = err?.response?.data ? ` - API Response: ${JSON.stringify(err.response.data)}` : '';
+  return { item: item === null ? null : String(item), error: `${err?.message ?? err}${detail}` };
+}
+
+/**
+ * Formats errors as "- item: error" lines.
+ */
+export function describeToolErrors(errors: ToolError[]): string {
+  return errors.map(error => `- ${error.item !== null ? `${error.item}: ` : ''}${error.error}`).join('\n');
+}
@@ -0,0 +1,210 @@
+// --- Unit Conversion ---
+// Standard conversions between common kitchen units, plus support for Tandoor's own unit conversions
+// (e.g. "1 clove garlic = 5 g") which can be food-specific.
+
+import { normalizeUnit } from './ingredient-parser.js';
+
+export type Dimension = 'mass' | 'volume';
+export type UnitSystem = 'metric' | 'imperial';
+
+interface StandardUnit {
+  dimension: Dimension;
+  factor: number; // Amount of the base unit (g or ml) in one of this unit
+  system: UnitSystem;
+}
+
+const TBSP_ML = 14.7868;
+
+const STANDARD_UNITS: Record<string, StandardUnit> = {
+  'mg': { dimension: 'mass', factor: 0.001, system: 'metric' },
+  'g': { dimension: 'mass', factor: 1, system: 'metric' },
+  'kg': { dimension: 'mass', factor: 1000, system: 'metric' },
+  'oz': { dimension: 'mass', factor: 28.3495, system: 'imperial' },
+  'lb': { dimension: 'mass', factor: 453.592, system: 'imperial' },
+  'ml': { dimension: 'volume', factor: 1, system: 'metric' },
+  'cl': { dimension: 'volume', factor: 10, system: 'metric' },
+  'dl': { dimension: 'volume', factor: 100, system: 'metric' },
+  'l': { dimension: 'volume', factor: 1000, system: 'metric' },
+  // US customary volumes, defined relative to the tablespoon so 3 tsp add up to exactly 1 tbsp
+  'tsp': { dimension: 'volume', factor: TBSP_ML / 3, system: 'imperial' },
+  'tbsp': { dimension: 'volume', factor: TBSP_ML, system: 'imperial' },
+  'fl oz': { dimension: 'volume', factor: TBSP_ML * 2, system: 'imperial' },
+  'cup': { dimension: 'volume', factor: TBSP_ML * 16, system: 'imperial' },
+  'pint': { dimension: 'volume', factor: TBSP_ML * 32, system: 'imperial' },
+  'quart': { dimension: 'volume', factor: TBSP_ML * 64, system: 'imperial' },
+  'gallon': { dimension: 'volume', factor: TBSP_ML * 256, system: 'imperial' },
+};
+
+// A unit conversion as returned by Tandoor's /api/unit-conversion/ endpoint
+export interface TandoorUnitConversion {
+  base_amount: number | string;
+  base_unit: { id: number; name: string };
+  converted_amount: number | string;
+  converted_unit: { id: number; name: string };
+  food?: { id: number; name: string } | null;
+}
+
+/**
+ * Returns the canonical name and conversion data of a standard unit, or null for units like "clove" or "can".
+ * Tandoor unit names ("Tablespoon", "grams") are normalized first; a Tandoor `base_unit` can be passed as fallback.
+ */
+export function standardUnit(name: string | null | undefined, baseUnit?: string | null): (StandardUnit & { canonical: string }) | null {
+  for (const candidate of [name, baseUnit]) {
+    if (!candidate) continue;
+    const canonical = normalizeUnit(candidate);
+    if (canonical && STANDARD_UNITS[canonical]) {
+      return { canonical, ...STANDARD_UNITS[canonical] };
+    }
+  }
+  return null;
+}
+
+/**
+ * Converts an amount between two standard units of the same dimension. Returns null if they are not compatible.
+ */
+export function convertAmount(amount: number, fromUnit: string, toUnit: string): number | null {
+  const from = standardUnit(fromUnit);
+  const to = standardUnit(toUnit);
+  if (!from || !to || from.dimension !== to.dimension) return null;
+  return (amount * from.factor) / to.factor;
+}
+
+/**
+ * Converts an amount using Tandoor unit conversions (in either direction), preferring food-specific ones.
+ * Returns the amount in `toUnit`, or null if no matching conversion exists.
+ */
+export function convertWithTandoor(
+  amount: number,
+  fromUnit: string,
+  toUnit: string,
+  conversions: TandoorUnitConversion[],
+  foodId?: number | null
+): number | null {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  const applicable = conversions
+    .filter(c => !c.food || c.food.id === foodId)
+    .sort((a, b) => (b.food ? 1 : 0) - (a.food ? 1 : 0));
+
+  for (const c of applicable) {
+    const baseAmount = Number(c.base_amount);
+    const convertedAmount = Number(c.converted_amount);
+    if (!baseAmount || !convertedAmount) continue;
+    if (same(c.base_unit.name, fromUnit) && same(c.converted_unit.name, toUnit)) {
+      return (amount / baseAmount) * convertedAmount;
+    }
+    if (same(c.converted_unit.name, fromUnit) && same(c.base_unit.name, toUnit)) {
+      return (amount / convertedAmount) * baseAmount;
+    }
+  }
+  return null;
+}
+
+/**
+ * Finds a Tandoor conversion that turns a non-standard unit (e.g. "clove") into a standard one, so the amount can join
+ * mass/volume arithmetic. Returns the converted amount and the standard unit's canonical name.
+ */
+export function toStandardWithTandoor(
+  amount: number,
+  fromUnit: string,
+  conversions: TandoorUnitConversion[],
+  foodId?: number | null
+): { amount: number; unit: string } | null {
+  const targets = new Set<string>();
+  for (const c of conversions) {
+    if (c.food && c.food.id !== foodId) continue;
+    targets.add(c.base_unit.name);
+    targets.add(c.converted_unit.name);
+  }
+  for (const target of targets) {
+    const std = standardUnit(target);
+    if (!std) continue;
+    const converted = convertWithTandoor(amount, fromUnit, target, conversions, foodId);
+    if (converted !== null) return { amount: converted, unit: std.canonical };
+  }
+  return null;
+}
+
+// Units preferred when converting into a system, smallest first; the largest one giving an amount >= its threshold wins
+const SYSTEM_UNITS: Record<UnitSystem, Record<Dimension, { unit: string; min: number }[]>> = {
+  metric: {
+    mass: [{ unit: 'g', min: 0 }, { unit: 'kg', min: 1 }],
+    volume: [{ unit: 'ml', min: 0 }, { unit: 'l', min: 1 }],
+  },
+  imperial: {
+    mass: [{ unit: 'oz', min: 0 }, { unit: 'lb', min: 1 }],
+    volume: [{ unit: 'tsp', min: 0 }, { unit: 'tbsp', min: 1 }, { unit: 'cup', min: 0.25 }],
+  },
+};
+
+/**
+ * Converts an amount in a standard unit into the most readable unit of the given system (e.g. 1.2 lb -> 544 g,
+ * 250 ml -> 1 cup). Returns null if the unit is not a standard mass/volume unit.
+ */
+export function convertToSystem(amount: number, unitName: string, system: UnitSystem, baseUnit?: string | null): { amount: number; unit: string } | null {
+  const from = standardUnit(unitName, baseUnit);
+  if (!from) return null;
+  const base = amount * from.factor;
+  const candidates = SYSTEM_UNITS[system][from.dimension];
+  let chosen = candidates[0];
+  for (const candidate of candidates) {
+    if (base / STANDARD_UNITS[candidate.unit].factor >= candidate.min) chosen = candidate;
+  }
+  return { amount: base / STANDARD_UNITS[chosen.unit].factor, unit: chosen.unit };
+}
+
+/**
+ * Rounds an amount to something you can measure in a kitchen: whole grams/millilitres for larger metric amounts,
+ * eighths of a teaspoon, quarters of a cup, halves for countable items.
+ */
+export function roundToKitchenMeasure(amount: number, unitName: string | null): number {
+  if (amount <= 0) return amount;
+  const std = unitName ? standardUnit(unitName) : null;
+  const roundTo = (step: number) => Math.max(step, Math.round(amount / step) * step);
+
+  if (!std) {
+    // Countable items (eggs, cloves, cans)
+    return amount >= 10 ? Math.round(amount) : roundTo(0.25);
+  }
+  if (std.system === 'metric') {
+    if (std.canonical === 'kg' || std.canonical === 'l') return roundTo(0.05);
+    if (amount >= 100) return roundTo(5);
+    if (amount >= 10) return Math.round(amount);
+    return roundTo(0.5);
+  }
+  switch (std.canonical) {
+    case 'tsp':
+    case 'tbsp':
+      return roundTo(0.125);
+    case 'cup':
+    case 'lb':
+      return roundTo(0.25);
+    case 'oz':
+    case 'fl oz':
+      return amount >= 4 ? roundTo(0.5) : roundTo(0.25);
+    default:
+      return roundTo(0.25);
+  }
+}
+
+const FRACTION_DISPLAY: [number, string][] = [
+  [1 / 8, '1/8'], [1 / 4, '1/4'], [1 / 3, '1/3'], [3 / 8, '3/8'], [1 / 2, '1/2'],
+  [5 / 8, '5/8'], [2 / 3, '2/3'], [3 / 4, '3/4'], [7 / 8, '7/8'],
+];
+
+/**
+ * Formats an amount for display. Imperial units and countable items use kitchen fractions ("1 1/2 cups"),
+ * metric units use decimals ("1.5 kg").
+ */
+export function formatKitchenAmount(amount: number, unitName: string | null): string {
+  const std = unitName ? standardUnit(unitName) : null;
+  if (std?.system === 'metric') {
+    return String(Number(amount.toFixed(2)));
+  }
+  const whole = Math.floor(amount);
+  const fraction = amount - whole;
+  const match = FRACTION_DISPLAY.find(([value]) => Math.abs(value - fraction) < 0.02);
+  if (fraction < 0.02) return String(whole);
+  if (fraction > 0.98) return String(whole + 1);
+  if (!match) return String(Number(amount.toFixed(2)));
+  return whole > 0 ? `${whole} ${match[1]}` : match[1];
+}
@@ -0,0 +1,58 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CookLogEntry, cookLogDate, statsPerRecipe, summarizeCookLog } from '../src/cook-log.js';
+
+function entry(id: number, recipe: number, date: string, rating: number | null = null): CookLogEntry {
+  return { id, recipe, rating, created_at: `${date}T18:30:00+02:00` };
+}
+
+const log: CookLogEntry[] = [
+  entry(1, 10, '2026-01-05', 5),
+  entry(2, 10, '2026-03-01', 4),
+  entry(3, 20, '2026-02-10', 0),
+  entry(4, 20, '2026-02-20', 3),
+  entry(5, 30, '2026-03-10'),
+];
+
+describe('cookLogDate', () => {
+  it('returns the date part', () => assert.equal(cookLogDate(log[0]), '2026-01-05'));
+});
+
+describe('statsPerRecipe', () => {
+  it('counts entries and ignores ratings of 0', () => {
+    const stats = statsPerRecipe(log, '2026-03-11');
+    const recipe20 = stats.find(s => s.recipe_id === 20)!;
+    assert.equal(recipe20.times_cooked, 2);
+    assert.equal(recipe20.average_rating, 3);
+    assert.equal(recipe20.rating_count, 1);
+    assert.equal(recipe20.first_cooked, '2026-02-10');
+    assert.equal(recipe20.last_cooked, '2026-02-20');
+    assert.equal(recipe20.days_since_cooked, 19);
+  });
+
+  it('takes last cooked dates from the history when given a date window', () => {
+    const january = log.filter(e => cookLogDate(e) < '2026-02-01');
+    const [recipe10] = statsPerRecipe(january, '2026-03-11', log);
+    assert.equal(recipe10.times_cooked, 1);
+    assert.equal(recipe10.last_cooked, '2026-03-01');
+    assert.equal(recipe10.days_since_cooked, 10);
+  });
+});
+
+describe('summarizeCookLog', () => {
+  it('ranks most cooked, best rated and not cooked recently', () => {
+    const stats = summarizeCookLog(log, { today: '2026-03-11', not_cooked_days: 15 });
+    assert.equal(stats.total_entries, 5);
+    assert.equal(stats.distinct_recipes, 3);
+    assert.equal(stats.average_rating, 4);
+    assert.deepEqual(stats.most_cooked.map(s => s.recipe_id), [10, 20, 30]);
+    assert.deepEqual(stats.top_rated.map(s => s.recipe_id), [10, 20]);
+    assert.deepEqual(stats.not_cooked_recently.map(s => s.recipe_id), [20]);
+  });
+
+  it('does not list recipes as forgotten when they were cooked after the window', () => {
+    const january = log.filter(e => cookLogDate(e) < '2026-02-01');
+    const stats = summarizeCookLog(january, { today: '2026-03-11', not_cooked_days: 30, history: log });
+    assert.deepEqual(stats.not_cooked_recently, []);
+  });
+});
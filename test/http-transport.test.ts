@@ -0,0 +1,136 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { request, Server as HttpServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { allowedHostNames, checkRequestOrigin, startHttpServer, tokenFromHeaders } from '../src/http-transport.js';
+
+describe('tokenFromHeaders', () => {
+  it('reads a bearer token', () => assert.equal(tokenFromHeaders({ authorization: 'Bearer abc123' }), 'abc123'));
+  it('prefers X-Tandoor-Token', () => assert.equal(tokenFromHeaders({ 'x-tandoor-token': 'own', authorization: 'Bearer other' }), 'own'));
+  it('ignores other schemes', () => assert.equal(tokenFromHeaders({ authorization: 'Basic dXNlcg==' }), undefined));
+});
+
+describe('allowedHostNames', () => {
+  it('includes the listening address unless it is a wildcard', () => {
+    assert.ok(allowedHostNames('192.168.1.20').has('192.168.1.20'));
+    assert.ok(!allowedHostNames('0.0.0.0').has('0.0.0.0'));
+  });
+
+  it('adds extra hosts in lowercase', () => {
+    const hosts = allowedHostNames('0.0.0.0', ['Kitchen-PC', ' [fd00::1] ']);
+    assert.ok(hosts.has('kitchen-pc'));
+    assert.ok(hosts.has('fd00::1'));
+    assert.ok(hosts.has('localhost'));
+  });
+});
+
+describe('checkRequestOrigin', () => {
+  const allowed = allowedHostNames('127.0.0.1', ['kitchen-pc']);
+  const cases: [string, Record<string, string>, boolean][] = [
+    ['localhost with a port', { host: 'localhost:3000' }, true],
+    ['an extra host', { host: 'Kitchen-PC:3000' }, true],
+    ['IPv6 loopback', { host: '[::1]:3000' }, true],
+    ['a rebound host name', { host: 'attacker.example:3000' }, false],
+    ['a missing Host header', {}, false],
+    ['a same-host browser origin', { host: 'localhost:3000', origin: 'http://localhost:5173' }, true],
+    ['a foreign browser origin', { host: 'localhost:3000', origin: 'https://attacker.example' }, false],
+    ['an opaque origin', { host: 'localhost:3000', origin: 'null' }, false],
+  ];
+  for (const [label, headers, passes] of cases) {
+    it(`${passes ? 'accepts' : 'refuses'} ${label}`, () => assert.equal(checkRequestOrigin(headers, allowed) === undefined, passes));
+  }
+});
+
+describe('startHttpServer', () => {
+  let server: HttpServer;
+  let port: number;
+
+  before(async () => {
+    server = await startHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer: () => new Server({ name: 'test', version: '0.0.0' }, { capabilities: {} }),
+      verifyToken: async token => {
+        if (token === 'down') throw new Error('Tandoor unreachable');
+        return token === 'wrong' ? 'Tandoor rejected the API token (401). Check the token.' : undefined;
+      },
+    });
+    port = (server.address() as AddressInfo).port;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  function post(path: string, headers: Record<string, string>): Promise<number> {
+    return new Promise((resolve, reject) => {
+      const body = JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' });
+      const req = request({ host: '127.0.0.1', port, path, method: 'POST', headers: { 'content-type': 'application/json', ...headers } }, res => {
+        res.resume();
+        res.on('end', () => resolve(res.statusCode ?? 0));
+      });
+      req.on('error', reject);
+      req.end(body);
+    });
+  }
+
+  // Opens an SSE session and resolves with its message URL once the server announced it
+  function openSession(headers: Record<string, string>): Promise<{ endpoint: string; close: () => void }> {
+    return new Promise((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, path: '/sse', headers }, res => {
+        let data = '';
+        res.setEncoding('utf8');
+        res.on('data', chunk => {
+          data += chunk;
+          const match = data.match(/event: endpoint\ndata: (\S+)/);
+          if (match) resolve({ endpoint: match[1], close: () => req.destroy() });
+        });
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  function get(path: string, headers: Record<string, string>): Promise<{ status: number; body: any }> {
+    return new Promise((resolve, reject) => {
+      const req = request({ host: '127.0.0.1', port, path, headers }, res => {
+        let data = '';
+        res.on('data', chunk => (data += chunk));
+        res.on('end', () => resolve({ status: res.statusCode ?? 0, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  it('answers health checks from any host', async () => {
+    assert.equal((await get('/health', { host: 'attacker.example' })).status, 200);
+  });
+
+  it('refuses sessions for foreign hosts and origins', async () => {
+    assert.equal((await get('/sse', { host: 'attacker.example', authorization: 'Bearer good' })).status, 403);
+    assert.equal((await get('/sse', { host: `127.0.0.1:${port}`, origin: 'https://attacker.example', authorization: 'Bearer good' })).status, 403);
+  });
+
+  it('refuses sessions whose token Tandoor rejects', async () => {
+    const response = await get('/sse', { host: `127.0.0.1:${port}`, authorization: 'Bearer wrong' });
+    assert.equal(response.status, 401);
+    assert.match(response.body.error, /rejected the API token/);
+  });
+
+  it('requires the session token on every message of a session opened with its own token', async () => {
+    const session = await openSession({ host: `127.0.0.1:${port}`, authorization: 'Bearer good' });
+    try {
+      assert.equal(await post(session.endpoint, { host: `127.0.0.1:${port}` }), 403);
+      assert.equal(await post(session.endpoint, { host: `127.0.0.1:${port}`, authorization: 'Bearer other' }), 403);
+      assert.equal(await post(session.endpoint, { host: `127.0.0.1:${port}`, authorization: 'Bearer good' }), 202);
+    } finally {
+      session.close();
+    }
+  });
+
+  it('reports when the token cannot be verified', async () => {
+    assert.equal((await get('/sse', { host: `127.0.0.1:${port}`, authorization: 'Bearer down' })).status, 502);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatAmount, normalizeUnit, parseIngredientBlock, parseIngredientLine, parsePantryText, parseQuantity } from '../src/ingredient-parser.js';
+
+describe('parseQuantity', () => {
+  const cases: [string, number | null][] = [
+    ['2', 2],
+    ['1.5', 1.5],
+    ['1,5', 1.5],
+    ['1/2', 0.5],
+    ['1 1/2', 1.5],
+    ['½', 0.5],
+    ['1½', 1.5],
+    ['1/0', null],
+    ['abc', null],
+    ['', null],
+  ];
+  for (const [input, expected] of cases) {
+    it(`parses "${input}"`, () => assert.equal(parseQuantity(input), expected));
+  }
+});
+
+describe('normalizeUnit', () => {
+  const cases: [string, string | null][] = [
+    ['Tablespoons', 'tbsp'],
+    ['T', 'tbsp'],
+    ['t', 'tsp'],
+    ['g.', 'g'],
+    ['fl oz', 'fl oz'],
+    ['cups', 'cup'],
+    ['flour', null],
+  ];
+  for (const [input, expected] of cases) {
+    it(`normalizes "${input}"`, () => assert.equal(normalizeUnit(input), expected));
+  }
+});
+
+describe('parseIngredientLine', () => {
+  const cases: [string, { amount: number | null; amount_max?: number; unit: string | null; food: string; note: string | null }][] = [
+    ['1 1/2 cups flour, sifted', { amount: 1.5, unit: 'cup', food: 'flour', note: 'sifted' }],
+    ['200g pasta', { amount: 200, unit: 'g', food: 'pasta', note: null }],
+    ['2-3 cloves garlic', { amount: 2, amount_max: 3, unit: 'clove', food: 'garlic', note: '2-3' }],
+    ['Salt to taste', { amount: null, unit: null, food: 'Salt', note: 'to taste' }],
+    ['salt or to taste', { amount: null, unit: null, food: 'salt', note: 'or to taste' }],
+    ['1 cup of milk', { amount: 1, unit: 'cup', food: 'milk', note: null }],
+    ['2 tbsp butter (softened)', { amount: 2, unit: 'tbsp', food: 'butter', note: 'softened' }],
+    ['½ tsp cinnamon', { amount: 0.5, unit: 'tsp', food: 'cinnamon', note: null }],
+    ['4 fl oz cream', { amount: 4, unit: 'fl oz', food: 'cream', note: null }],
+    ['- 3 eggs', { amount: 3, unit: null, food: 'eggs', note: null }],
+    ['2 cups', { amount: 2, unit: 'cup', food: '', note: null }],
+    ['500 g', { amount: 500, unit: 'g', food: '', note: null }],
+    ['parsley, for garnish', { amount: null, unit: null, food: 'parsley', note: 'for garnish' }],
+  ];
+  for (const [line, expected] of cases) {
+    it(`parses "${line}"`, () => {
+      const { original, ...parsed } = parseIngredientLine(line);
+      assert.equal(original, line);
+      assert.deepEqual(parsed, expected);
+    });
+  }
+
+  it('keeps the whole line as the food when nothing is recognised', () => {
+    assert.equal(parseIngredientLine('3').food, '3');
+  });
+});
+
+describe('parseIngredientBlock', () => {
+  it('parses every non-empty line', () => {
+    const parsed = parseIngredientBlock('1 cup flour\n\n  2 eggs  \n');
+    assert.deepEqual(parsed.map(p => p.food), ['flour', 'eggs']);
+  });
+});
+
+describe('formatAmount', () => {
+  it('avoids float noise', () => assert.equal(formatAmount(0.1 + 0.2), '0.3'));
+  it('drops trailing zeros', () => assert.equal(formatAmount(2), '2'));
+});
+
+describe('parsePantryText', () => {
+  it('drops lead-ins, quantities and filler words', () => {
+    const items = parsePantryText('I have eggs, rice, 2 onions and some milk.');
+    assert.deepEqual(items.flatMap(item => item.parts), ['eggs', 'rice', 'onions', 'milk']);
+  });
+
+  it('keeps items joined by "and" whole, with the split reading as parts', () => {
+    assert.deepEqual(parsePantryText('mac and cheese, eggs'), [
+      { food: 'mac and cheese', parts: ['mac', 'cheese'] },
+      { food: 'eggs', parts: ['eggs'] },
+    ]);
+  });
+
+  it('handles a serial comma before "and"', () => {
+    assert.deepEqual(parsePantryText('eggs, rice, and milk').map(item => item.food), ['eggs', 'rice', 'milk']);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { splitInstructionBlock } from '../src/instruction-parser.js';
+
+describe('splitInstructionBlock', () => {
+  it('splits numbered lines and drops the numbers', () => {
+    assert.deepEqual(splitInstructionBlock('1. Boil water\n2) Add pasta\nStep 3: Drain\nStep 4 - Serve'), ['Boil water', 'Add pasta', 'Drain', 'Serve']);
+  });
+
+  it('keeps unnumbered lines with the preceding step', () => {
+    assert.deepEqual(splitInstructionBlock('1. Boil water\nSalt it well\n2. Add pasta'), ['Boil water\nSalt it well', 'Add pasta']);
+  });
+
+  it('does not treat decimals and times as step markers', () => {
+    assert.deepEqual(
+      splitInstructionBlock('1. Preheat the oven\n1.5 hours in the oven at 180 °C\n2. Rest until 12:30'),
+      ['Preheat the oven\n1.5 hours in the oven at 180 °C', 'Rest until 12:30']
+    );
+  });
+
+  it('splits paragraphs when nothing is numbered', () => {
+    assert.deepEqual(splitInstructionBlock('Boil water.\nSalt it.\n\nAdd pasta.'), ['Boil water.\nSalt it.', 'Add pasta.']);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRng, generateMealPlan, mealSlots, PlanCandidate, seedFromString } from '../src/meal-plan-generator.js';
+
+const candidates: PlanCandidate[] = [
+  { id: 1, name: 'Lasagne', rating: 5, last_cooked: '2026-09-01' },
+  { id: 2, name: 'Curry', rating: 3, last_cooked: null },
+  { id: 3, name: 'Soup', rating: null, last_cooked: '2026-10-01' },
+  { id: 4, name: 'Tacos', rating: 4, last_cooked: '2026-08-15' },
+];
+const slots = mealSlots('2026-10-19', '2026-10-21', ['Lunch', 'Dinner']);
+
+describe('createRng', () => {
+  it('returns the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    assert.deepEqual([a(), a(), a()], [b(), b(), b()]);
+  });
+
+  it('returns floats in [0, 1)', () => {
+    const rng = createRng(7);
+    for (let i = 0; i < 100; i++) {
+      const value = rng();
+      assert.ok(value >= 0 && value < 1);
+    }
+  });
+});
+
+describe('seedFromString', () => {
+  it('is stable and depends on the text', () => {
+    assert.equal(seedFromString('2026-10-19'), seedFromString('2026-10-19'));
+    assert.notEqual(seedFromString('2026-10-19'), seedFromString('2026-10-20'));
+  });
+});
+
+describe('mealSlots', () => {
+  it('lists every meal type per day, in date order', () => {
+    assert.equal(slots.length, 6);
+    assert.deepEqual(slots.slice(0, 3), [
+      { date: '2026-10-19', meal_type: 'Lunch' },
+      { date: '2026-10-19', meal_type: 'Dinner' },
+      { date: '2026-10-20', meal_type: 'Lunch' },
+    ]);
+  });
+
+  it('crosses month boundaries', () => {
+    assert.deepEqual(mealSlots('2026-10-31', '2026-11-01', ['Dinner']).map(slot => slot.date), ['2026-10-31', '2026-11-01']);
+  });
+});
+
+describe('generateMealPlan', () => {
+  it('produces the same plan for the same seed', () => {
+    const first = generateMealPlan(candidates, { slots, servings: 2, seed: 1234 });
+    const second = generateMealPlan(candidates, { slots, servings: 2, seed: 1234 });
+    assert.deepEqual(first, second);
+  });
+
+  it('does not depend on the order of the candidates', () => {
+    const plan = generateMealPlan(candidates, { slots, servings: 2, seed: 99 });
+    const reversed = generateMealPlan([...candidates].reverse(), { slots, servings: 2, seed: 99 });
+    assert.deepEqual(plan, reversed);
+  });
+
+  it('uses every candidate before repeating one', () => {
+    const plan = generateMealPlan(candidates, { slots, servings: 3, seed: 5 });
+    assert.equal(plan.entries.length, 6);
+    assert.equal(new Set(plan.entries.slice(0, 4).map(entry => entry.recipe_id)).size, 4);
+    assert.equal(plan.repeated, true);
+    assert.ok(plan.entries.every(entry => entry.servings === 3));
+  });
+
+  it('returns an empty plan without candidates', () => {
+    assert.deepEqual(generateMealPlan([], { slots, servings: 2, seed: 1 }), { entries: [], repeated: false });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeName, pickCandidate, rankCandidates } from '../src/name-matching.js';
+
+const foods = [
+  { id: 1, name: 'Salted butter' },
+  { id: 2, name: 'Chicken stir fry' },
+  { id: 3, name: 'Chicken stock' },
+  { id: 4, name: 'Crème fraîche' },
+  { id: 5, name: 'Tomato', plural_name: 'Tomatoes' },
+];
+
+describe('normalizeName', () => {
+  it('strips accents and punctuation', () => assert.equal(normalizeName(' Crème-fraîche '), 'creme fraiche'));
+});
+
+describe('rankCandidates', () => {
+  it('ranks exact matches first and uses plural names', () => {
+    const [best] = rankCandidates('tomatoes', foods);
+    assert.equal(best.candidate.id, 5);
+    assert.equal(best.reason, 'case-insensitive');
+  });
+});
+
+describe('pickCandidate', () => {
+  it('matches case-insensitively and ignoring accents', () => {
+    const result = pickCandidate('creme fraiche', foods);
+    assert.equal(result.status, 'matched');
+    assert.equal(result.status === 'matched' && result.match.candidate.id, 4);
+  });
+
+  it('accepts a partial match that is clearly ahead', () => {
+    const result = pickCandidate('salt', foods);
+    assert.equal(result.status, 'matched');
+    assert.equal(result.status === 'matched' && result.match.reason, 'prefix');
+  });
+
+  it('reports close partial matches as ambiguous', () => {
+    const result = pickCandidate('chicken', foods);
+    assert.equal(result.status, 'ambiguous');
+    assert.deepEqual(result.status === 'ambiguous' && result.candidates.map(r => r.candidate.id).sort(), [2, 3]);
+  });
+
+  it('rejects partial matches with exact_only', () => {
+    const result = pickCandidate('salt', foods, { exact_only: true });
+    assert.equal(result.status, 'not_found');
+    assert.equal(result.status === 'not_found' && result.candidates[0].candidate.id, 1);
+  });
+
+  it('still accepts the same name with exact_only', () => {
+    const result = pickCandidate('SALTED BUTTER', foods, { exact_only: true });
+    assert.equal(result.status === 'matched' && result.match.candidate.id, 1);
+  });
+
+  it('prefers the lowest ID among duplicates', () => {
+    const result = pickCandidate('Tomato', [{ id: 9, name: 'Tomato' }, { id: 5, name: 'Tomato' }]);
+    assert.equal(result.status === 'matched' && result.match.candidate.id, 5);
+  });
+
+  it('finds nothing for unrelated names', () => {
+    assert.equal(pickCandidate('xylophone', foods).status, 'not_found');
+  });
+});
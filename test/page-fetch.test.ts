@@ -0,0 +1,46 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkPageUrl, fetchPage, isPrivateAddress, PageFetchError } from '../src/page-fetch.js';
+
+describe('isPrivateAddress', () => {
+  const cases: [string, boolean][] = [
+    ['127.0.0.1', true],
+    ['10.1.2.3', true],
+    ['172.16.0.1', true],
+    ['172.31.255.255', true],
+    ['172.32.0.1', false],
+    ['192.168.1.10', true],
+    ['169.254.169.254', true],
+    ['100.64.0.1', true],
+    ['0.0.0.0', true],
+    ['8.8.8.8', false],
+    ['93.184.216.34', false],
+    ['::1', true],
+    ['::', true],
+    ['fd00::1', true],
+    ['fe80::1', true],
+    ['::ffff:127.0.0.1', true],
+    ['::ffff:8.8.8.8', false],
+    ['2606:4700:4700::1111', false],
+  ];
+  for (const [ip, expected] of cases) {
+    it(`classifies ${ip}`, () => assert.equal(isPrivateAddress(ip), expected));
+  }
+});
+
+describe('checkPageUrl', () => {
+  it('accepts public http and https URLs', () => {
+    assert.equal(checkPageUrl('https://example.com/recipes/soup').hostname, 'example.com');
+    assert.equal(checkPageUrl('http://93.184.216.34/').hostname, '93.184.216.34');
+  });
+
+  for (const url of ['ftp://example.com/recipe', 'file:///etc/passwd', 'http://localhost:8080/', 'http://app.localhost/', 'http://127.0.0.1/', 'http://[::1]/', 'http://169.254.169.254/latest/meta-data/', 'http://10.0.0.5/', 'not a url']) {
+    it(`refuses ${url}`, () => assert.throws(() => checkPageUrl(url), PageFetchError));
+  }
+});
+
+describe('fetchPage', () => {
+  it('refuses private addresses before sending anything', async () => {
+    await assert.rejects(fetchPage('http://127.0.0.1:9/'), PageFetchError);
+  });
+});
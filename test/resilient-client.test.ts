@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { AxiosError } from 'axios';
+import { describeValidationErrors, isRetryable, parseRetryAfter, retryDelay, DEFAULT_RETRY_OPTIONS } from '../src/resilient-client.js';
+
+function failure(code?: string, status?: number): Pick<AxiosError, 'code' | 'response'> {
+  return { code, response: status === undefined ? undefined : { status } as AxiosError['response'] };
+}
+
+describe('isRetryable', () => {
+  const cases: [string, string, Pick<AxiosError, 'code' | 'response'>, boolean][] = [
+    ['GET after a 503', 'GET', failure(undefined, 503), true],
+    ['GET after a 500', 'GET', failure(undefined, 500), false],
+    ['GET after a 404', 'GET', failure(undefined, 404), false],
+    ['POST after a 503', 'POST', failure(undefined, 503), false],
+    ['POST after a 429', 'POST', failure(undefined, 429), true],
+    ['DELETE after a reset connection', 'DELETE', failure('ECONNRESET'), true],
+    ['POST after a timeout', 'POST', failure('ECONNABORTED'), false],
+    ['POST after a refused connection', 'POST', failure('ECONNREFUSED'), true],
+    ['PATCH after a DNS failure', 'PATCH', failure('ENOTFOUND'), true],
+    ['GET after an unknown error', 'GET', failure('ERR_BAD_OPTION'), false],
+  ];
+  for (const [label, method, error, expected] of cases) {
+    it(`${expected ? 'retries' : 'does not retry'} ${label}`, () => assert.equal(isRetryable(method, error), expected));
+  }
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  it('reads seconds', () => assert.equal(parseRetryAfter('120', now), 120000));
+  it('reads HTTP dates', () => assert.equal(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now), 30000));
+  it('does not return negative delays for past dates', () => assert.equal(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now), 0));
+  it('ignores missing and invalid values', () => {
+    assert.equal(parseRetryAfter(undefined, now), undefined);
+    assert.equal(parseRetryAfter('soon', now), undefined);
+  });
+});
+
+describe('retryDelay', () => {
+  it('uses Retry-After when given', () => assert.equal(retryDelay(2, 1234, DEFAULT_RETRY_OPTIONS), 1234));
+  it('backs off exponentially', () => {
+    assert.equal(retryDelay(0, undefined, DEFAULT_RETRY_OPTIONS, () => 0), 500);
+    assert.equal(retryDelay(2, undefined, DEFAULT_RETRY_OPTIONS, () => 0), 2000);
+  });
+  it('never waits longer than max_delay_ms', () => assert.equal(retryDelay(20, undefined, DEFAULT_RETRY_OPTIONS, () => 1), 30000));
+});
+
+describe('describeValidationErrors', () => {
+  it('flattens nested DRF errors into field paths', () => {
+    const data = { steps: [{ ingredients: [{ food: { name: ['This field is required.'] } }] }] };
+    assert.deepEqual(describeValidationErrors(data), ['steps[0].ingredients[0].food.name: This field is required.']);
+  });
+
+  it('keeps non-field errors on the parent path', () => {
+    assert.deepEqual(describeValidationErrors({ non_field_errors: ['Name already exists.'] }), ['Name already exists.']);
+    assert.deepEqual(describeValidationErrors({ detail: 'Not found.' }), ['Not found.']);
+  });
+
+  it('lists every field', () => {
+    assert.deepEqual(describeValidationErrors({ name: ['Too long.'], servings: ['A valid integer is required.'] }), [
+      'name: Too long.',
+      'servings: A valid integer is required.',
+    ]);
+  });
+
+  it('returns nothing for empty bodies', () => {
+    assert.deepEqual(describeValidationErrors(''), []);
+    assert.deepEqual(describeValidationErrors(null), []);
+  });
+});
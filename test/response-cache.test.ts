@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cacheRuleFor, invalidatedGroups } from '../src/response-cache.js';
+
+describe('cacheRuleFor', () => {
+  const cases: [string, string | undefined][] = [
+    ['/api/meal-type/', 'meal-type'],
+    ['/api/unit/3/', 'unit'],
+    ['/api/food/?query=onion&page=2', 'food'],
+    ['http://tandoor.local:8080/api/keyword/12/', 'keyword'],
+    ['/api/recipe/42/', 'recipe'],
+    ['/api/recipe/?query=soup', 'recipe'],
+    ['/api/meal-plan/', undefined],
+    ['/api/shopping-list-entry/', undefined],
+    ['/api/food/5/move/2/', undefined],
+  ];
+  for (const [url, group] of cases) {
+    it(`${group ? `caches ${url} as ${group}` : `does not cache ${url}`}`, () => assert.equal(cacheRuleFor(url)?.group, group));
+  }
+
+  it('keeps recipe searches shorter than single recipes', () => {
+    assert.ok(cacheRuleFor('/api/recipe/')!.ttl < cacheRuleFor('/api/recipe/1/')!.ttl);
+  });
+});
+
+describe('invalidatedGroups', () => {
+  it('drops recipes and taxonomies after recipe writes', () => {
+    assert.deepEqual(invalidatedGroups('/api/recipe/42/'), ['recipe', 'food', 'unit', 'keyword']);
+  });
+
+  it('drops foods after shopping list writes', () => {
+    assert.deepEqual(invalidatedGroups('/api/shopping-list-entry/7/?checked=true'), ['food']);
+  });
+
+  it('drops recipes after logging a cooked recipe', () => {
+    assert.deepEqual(invalidatedGroups('http://tandoor.local/api/cook-log/'), ['recipe']);
+  });
+
+  it('drops nothing for endpoints without cached data', () => {
+    assert.deepEqual(invalidatedGroups('/api/meal-plan/3/'), []);
+    assert.deepEqual(invalidatedGroups('/health'), []);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { cleanText, extractSchemaRecipe, parseDuration, parseRecipeFromSource } from '../src/schema-org.js';
+
+// Compiled tests run from build-test/test/, the fixtures stay in test/fixtures/
+function fixture(name: string): string {
+  return readFileSync(new URL(`../../test/fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+describe('parseDuration', () => {
+  const cases: [unknown, number | undefined][] = [
+    ['PT1H30M', 90],
+    ['P0DT45M', 45],
+    ['PT45M30S', 46],
+    ['P1D', 1440],
+    ['pt20m', 20],
+    ['PT0M', undefined],
+    ['PT', undefined],
+    ['P', undefined],
+    ['90 minutes', undefined],
+    [30, undefined],
+    [undefined, undefined],
+  ];
+  for (const [input, expected] of cases) {
+    it(`parses ${JSON.stringify(input)}`, () => assert.equal(parseDuration(input), expected));
+  }
+});
+
+describe('cleanText', () => {
+  it('decodes entities and strips tags', () => {
+    assert.equal(cleanText('Salt &amp; <b>pepper</b>'), 'Salt & pepper');
+    assert.equal(cleanText('&#189; cup &#x2013; about 120&nbsp;ml'), '½ cup – about 120 ml');
+  });
+
+  it('turns line breaks into newlines', () => {
+    assert.equal(cleanText('Mix.<br/>  Bake.'), 'Mix.\nBake.');
+  });
+});
+
+describe('parseRecipeFromSource', () => {
+  it('reads a single Recipe with HowToSteps', () => {
+    const { draft, warnings } = parseRecipeFromSource(fixture('recipe-single.html'), 'https://example.com/lemon-herb-chicken');
+    assert.deepEqual(warnings, []);
+    assert.ok(draft);
+    assert.equal(draft.name, 'Lemon Herb Chicken');
+    assert.equal(draft.description, 'Juicy chicken with lemon & fresh herbs.');
+    assert.equal(draft.servings, 4);
+    assert.equal(draft.servings_text, 'servings');
+    assert.equal(draft.working_time, 15);
+    assert.equal(draft.waiting_time, 35);
+    assert.deepEqual(draft.ingredients, ['4 chicken breasts', '2 tbsp olive oil', '1 lemon, juiced', 'Salt to taste']);
+    assert.deepEqual(draft.steps, [
+      { instruction: 'Preheat the oven to 200 °C.' },
+      { instruction: 'Rub the chicken with oil, lemon juice and salt.' },
+      { instruction: 'Roast for 35 minutes.' },
+    ]);
+    assert.deepEqual(draft.keywords, ['chicken', 'weeknight', 'Main course', 'Mediterranean']);
+    assert.equal(draft.image, 'https://example.com/images/chicken.jpg');
+    assert.equal(draft.source_url, 'https://example.com/lemon-herb-chicken');
+  });
+
+  it('finds a Recipe in @graph and reports invalid JSON-LD blocks', () => {
+    const { draft, warnings } = parseRecipeFromSource(fixture('recipe-graph.html'));
+    assert.equal(warnings.length, 1);
+    assert.match(warnings[0], /^Skipped invalid JSON-LD block/);
+    assert.ok(draft);
+    assert.equal(draft.name, 'Tomato Soup');
+    assert.equal(draft.servings, 6);
+    // Without a cook time, the total time minus the prep time is waiting time
+    assert.equal(draft.working_time, 10);
+    assert.equal(draft.waiting_time, 50);
+    assert.deepEqual(draft.steps.map(step => step.instruction), ['Chop the onion and fry it.', 'Add tomatoes and stock.', 'Simmer and blend.']);
+    assert.deepEqual(draft.keywords, ['soup', 'vegetarian']);
+    assert.equal(draft.image, 'https://example.com/images/soup.jpg');
+    assert.equal(draft.source_url, 'https://example.com/tomato-soup/');
+  });
+
+  it('names the first step of each HowToSection', () => {
+    const { draft } = parseRecipeFromSource(fixture('recipe-sections.html'));
+    assert.ok(draft);
+    assert.equal(draft.servings, 12);
+    assert.equal(draft.working_time, 90);
+    assert.equal(draft.waiting_time, 46);
+    assert.deepEqual(draft.steps, [
+      { name: 'Sponge', instruction: 'Whisk the eggs and sugar.' },
+      { instruction: 'Fold in the flour and bake.' },
+      { name: 'Filling', instruction: 'Whip the cream.' },
+    ]);
+  });
+
+  it('returns no draft for pages without a Recipe', () => {
+    assert.deepEqual(parseRecipeFromSource(fixture('no-recipe.html')), { draft: undefined, warnings: [] });
+  });
+
+  it('accepts a raw JSON-LD string', () => {
+    const { recipe } = extractSchemaRecipe('{"@type": "Recipe", "name": "Toast"}');
+    assert.equal(recipe?.name, 'Toast');
+  });
+});
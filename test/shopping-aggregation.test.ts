@@ -0,0 +1,73 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { aggregateShoppingEntries, groupByCategory, ShoppingEntryLike } from '../src/shopping-aggregation.js';
+import { TandoorUnitConversion } from '../src/unit-conversion.js';
+
+const produce = { id: 1, name: 'Produce' };
+const flour = { id: 10, name: 'Flour', supermarket_category: { id: 2, name: 'Baking' } };
+const garlic = { id: 11, name: 'Garlic', supermarket_category: produce };
+const eggs = { id: 12, name: 'Eggs', supermarket_category: null };
+const g = { id: 1, name: 'g' };
+const kg = { id: 2, name: 'kg' };
+const clove = { id: 3, name: 'clove' };
+const piece = { id: 4, name: 'piece' };
+
+describe('aggregateShoppingEntries', () => {
+  it('adds up amounts in compatible units and shows the largest used unit', () => {
+    const entries: ShoppingEntryLike[] = [
+      { id: 1, amount: 500, food: flour, unit: g, recipe_mealplan: { recipe_name: 'Bread' } },
+      { id: 2, amount: '1', food: flour, unit: kg, recipe_mealplan: { recipe_name: 'Pizza' } },
+    ];
+    const [item] = aggregateShoppingEntries(entries);
+    assert.deepEqual(item.amounts, [{ amount: 1.5, unit: 'kg', unit_id: 2, entry_ids: [1, 2] }]);
+    assert.deepEqual(item.recipes, ['Bread', 'Pizza']);
+    assert.equal(item.category, 'Baking');
+  });
+
+  it('keeps incompatible units apart', () => {
+    const entries: ShoppingEntryLike[] = [
+      { id: 1, amount: 6, food: eggs, unit: piece },
+      { id: 2, amount: 100, food: eggs, unit: g },
+    ];
+    const [item] = aggregateShoppingEntries(entries);
+    assert.deepEqual(item.amounts.map(amount => [amount.amount, amount.unit]), [[6, 'piece'], [100, 'g']]);
+  });
+
+  it('keeps checked and unchecked entries apart', () => {
+    const entries: ShoppingEntryLike[] = [
+      { id: 1, amount: 2, food: eggs, unit: piece, checked: true },
+      { id: 2, amount: 4, food: eggs, unit: piece },
+    ];
+    assert.deepEqual(aggregateShoppingEntries(entries).map(item => [item.checked, item.amounts[0].amount]), [[true, 2], [false, 4]]);
+  });
+
+  it('joins countable units through Tandoor conversions', () => {
+    const conversions: TandoorUnitConversion[] = [
+      { base_amount: 1, base_unit: clove, converted_amount: 5, converted_unit: g, food: { id: garlic.id, name: garlic.name } },
+    ];
+    const entries: ShoppingEntryLike[] = [
+      { id: 1, amount: 2, food: garlic, unit: clove },
+      { id: 2, amount: 10, food: garlic, unit: g },
+    ];
+    const [item] = aggregateShoppingEntries(entries, conversions);
+    assert.equal(item.amounts.length, 1);
+    assert.deepEqual(item.amounts[0].entry_ids, [1, 2]);
+    assert.equal(item.amounts[0].amount, 4);
+    assert.equal(item.amounts[0].unit, 'clove');
+  });
+});
+
+describe('groupByCategory', () => {
+  it('sorts categories and foods, with uncategorized items last', () => {
+    const items = aggregateShoppingEntries([
+      { id: 1, amount: 1, food: eggs, unit: piece },
+      { id: 2, amount: 1, food: garlic, unit: clove },
+      { id: 3, amount: 1, food: flour, unit: kg },
+    ]);
+    assert.deepEqual(groupByCategory(items).map(group => [group.category, group.items.map(item => item.food)]), [
+      ['Baking', ['Flour']],
+      ['Produce', ['Garlic']],
+      ['Uncategorized', ['Eggs']],
+    ]);
+  });
+});
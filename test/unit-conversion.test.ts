@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  convertAmount,
+  convertToSystem,
+  convertWithTandoor,
+  formatKitchenAmount,
+  roundToKitchenMeasure,
+  standardUnit,
+  TandoorUnitConversion,
+  toStandardWithTandoor,
+} from '../src/unit-conversion.js';
+
+const garlic = { id: 7, name: 'garlic' };
+const conversions: TandoorUnitConversion[] = [
+  { base_amount: 1, base_unit: { id: 1, name: 'clove' }, converted_amount: '5', converted_unit: { id: 2, name: 'g' }, food: garlic },
+  { base_amount: 1, base_unit: { id: 1, name: 'clove' }, converted_amount: 3, converted_unit: { id: 2, name: 'g' }, food: null },
+];
+
+function approx(actual: number | null | undefined, expected: number) {
+  assert.ok(actual !== null && actual !== undefined && Math.abs(actual - expected) < 0.01, `expected ${expected}, got ${actual}`);
+}
+
+describe('standardUnit', () => {
+  it('normalizes Tandoor unit names', () => assert.equal(standardUnit('Tablespoons')?.canonical, 'tbsp'));
+  it('falls back to the base unit', () => assert.equal(standardUnit('Becher', 'ml')?.canonical, 'ml'));
+  it('returns null for countable units', () => assert.equal(standardUnit('clove'), null));
+});
+
+describe('convertAmount', () => {
+  it('converts within a dimension', () => {
+    approx(convertAmount(1.5, 'kg', 'g'), 1500);
+    approx(convertAmount(3, 'tsp', 'tbsp'), 1);
+    approx(convertAmount(1, 'lb', 'oz'), 16);
+  });
+
+  it('refuses to convert between mass and volume', () => assert.equal(convertAmount(1, 'cup', 'g'), null));
+});
+
+describe('convertWithTandoor', () => {
+  it('prefers the food-specific conversion', () => approx(convertWithTandoor(2, 'clove', 'g', conversions, garlic.id), 10));
+  it('uses generic conversions for other foods', () => approx(convertWithTandoor(2, 'clove', 'g', conversions, 99), 6));
+  it('works in the reverse direction', () => approx(convertWithTandoor(10, 'g', 'clove', conversions, garlic.id), 2));
+  it('returns null without a matching conversion', () => assert.equal(convertWithTandoor(1, 'can', 'g', conversions), null));
+});
+
+describe('toStandardWithTandoor', () => {
+  it('turns a countable unit into a standard one', () => {
+    assert.deepEqual(toStandardWithTandoor(3, 'clove', conversions, garlic.id), { amount: 15, unit: 'g' });
+  });
+});
+
+describe('convertToSystem', () => {
+  it('picks the largest readable metric unit', () => {
+    const result = convertToSystem(1.2, 'lb', 'metric');
+    assert.equal(result?.unit, 'g');
+    approx(result?.amount, 544.31);
+    assert.equal(convertToSystem(1500, 'ml', 'metric')?.unit, 'l');
+  });
+
+  it('converts metric volumes to cups', () => {
+    const result = convertToSystem(250, 'ml', 'imperial');
+    assert.equal(result?.unit, 'cup');
+    approx(result?.amount, 1.06);
+  });
+
+  it('returns null for non-standard units', () => assert.equal(convertToSystem(2, 'clove', 'metric'), null));
+});
+
+describe('roundToKitchenMeasure', () => {
+  const cases: [number, string | null, number][] = [
+    [123.4, 'g', 125],
+    [12.4, 'g', 12],
+    [1.23, 'kg', 1.25],
+    [0.3, 'tsp', 0.25],
+    [1.1, 'cup', 1],
+    [2.6, null, 2.5],
+    [12.4, null, 12],
+  ];
+  for (const [amount, unit, expected] of cases) {
+    it(`rounds ${amount} ${unit ?? '(no unit)'} to ${expected}`, () => approx(roundToKitchenMeasure(amount, unit), expected));
+  }
+});
+
+describe('formatKitchenAmount', () => {
+  it('uses fractions for imperial units', () => assert.equal(formatKitchenAmount(1.5, 'cup'), '1 1/2'));
+  it('uses fractions for countable items', () => assert.equal(formatKitchenAmount(0.25, null), '1/4'));
+  it('uses decimals for metric units', () => assert.equal(formatKitchenAmount(1.5, 'kg'), '1.5'));
+  it('rounds near-whole amounts', () => assert.equal(formatKitchenAmount(1.99, 'cup'), '2'));
+});